@@ -6,7 +6,7 @@ import {
   type StringApiResponse,
   type RefreshTokenRequest,
 } from "#src/openapi";
-import { apiClients } from "#src/utils/api";
+import { apiClients, unwrapApiResponse } from "#src/utils/api";
 
 // ===========================
 // Types
@@ -39,7 +39,7 @@ export const login = async (payload: LoginInfo) => {
   const result = await apiClients.token.apiV1TokenPost({
     tokenRequest: payload,
   });
-  return result?.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -48,7 +48,7 @@ export const login = async (payload: LoginInfo) => {
  */
 export const logout = async () => {
   const result = await apiClients.token.apiV1TokenLogoutPost();
-  return result?.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -59,7 +59,7 @@ export const signup = async (payload: SignupInfo) => {
   const result = await apiClients.user.apiV1UserPost({
     createUserRequest: payload,
   });
-  return result?.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const refreshLogin = async (payload: RefreshTokenRequest) => {
@@ -67,13 +67,13 @@ export const refreshLogin = async (payload: RefreshTokenRequest) => {
     refreshTokenRequest: payload,
   });
 
-  return result?.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const getProfile = async () => {
   const result = await apiClients.user.apiV1UserProfileGet();
 
-  return result?.data;
+  return unwrapApiResponse(result.data);
 };
 
 export {
@@ -3,14 +3,14 @@ import type {
   SearchPermissionsRequest,
   UpdatePermissionRequest,
 } from "#src/openapi";
-import { apiClients } from "#src/utils/api";
+import { apiClients, unwrapApiResponse } from "#src/utils/api";
 
 export const createPermission = async (request?: CreatePermissionRequest) => {
   const result = await apiClients.permissions.apiV1PermissionsPost({
     createPermissionRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const updatePermission = async (
@@ -22,7 +22,7 @@ export const updatePermission = async (
     updatePermissionRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const searchPermission = async (request?: SearchPermissionsRequest) => {
@@ -30,13 +30,13 @@ export const searchPermission = async (request?: SearchPermissionsRequest) => {
     searchPermissionsRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const getPermission = async (id: string) => {
   const result = await apiClients.permissions.apiV1PermissionsIdGet({ id });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const deletePermission = async (id: string) => {
@@ -44,5 +44,5 @@ export const deletePermission = async (id: string) => {
     id,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
@@ -4,14 +4,14 @@ import type {
   SearchRolesRequest,
   AssignPermissionsToRoleRequest,
 } from "#src/openapi";
-import { apiClients } from "#src/utils/api";
+import { apiClients, unwrapApiResponse } from "#src/utils/api";
 
 export const createRole = async (request?: CreateRoleRequest) => {
   const result = await apiClients.roles.apiV1RolesPost({
     createRoleRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const updateRole = async (id: string, request?: UpdateRoleRequest) => {
@@ -20,7 +20,7 @@ export const updateRole = async (id: string, request?: UpdateRoleRequest) => {
     updateRoleRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const searchRole = async (request?: SearchRolesRequest) => {
@@ -28,13 +28,13 @@ export const searchRole = async (request?: SearchRolesRequest) => {
     searchRolesRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const getRole = async (id: string) => {
   const result = await apiClients.roles.apiV1RolesIdGet({ id });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const deleteRole = async (id: string) => {
@@ -42,7 +42,7 @@ export const deleteRole = async (id: string) => {
     id,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const assignRolePermission = async (
@@ -54,7 +54,7 @@ export const assignRolePermission = async (
     assignPermissionsToRoleRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const removeRolePermission = async (
@@ -66,7 +66,7 @@ export const removeRolePermission = async (
     assignPermissionsToRoleRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const viewRolePermission = async (id: string) => {
@@ -74,5 +74,5 @@ export const viewRolePermission = async (id: string) => {
     id,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
@@ -3,7 +3,7 @@ import type {
   SearchCategoryRequest,
   UpdateCategoryRequest,
 } from "../../openapi";
-import { apiClients } from "../../utils/api";
+import { apiClients, unwrapApiResponse } from "../../utils/api";
 
 /**
  * Create a new category
@@ -14,7 +14,7 @@ export const createCategory = async (request?: CreateCategoryRequest) => {
   const result = await apiClients.categories.apiV1CategoriesPost({
     createCategoryRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -26,7 +26,7 @@ export const getCategory = async (id: string) => {
   const result = await apiClients.categories.apiV1CategoriesIdGet({
     id,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -42,7 +42,7 @@ export const updateCategory = async (
     id,
     updateCategoryRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -54,7 +54,7 @@ export const deleteCategory = async (id: string) => {
   const result = await apiClients.categories.apiV1CategoriesIdDelete({
     id,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -66,11 +66,11 @@ export const searchCategories = async (request?: SearchCategoryRequest) => {
   const result = await apiClients.categories.apiV1CategoriesSearchPost({
     searchCategoryRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const getCategoryMap = async () => {
   const result = await apiClients.categories.apiV1CategoriesCategoryMapGet();
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
@@ -4,13 +4,13 @@ import type {
   UpdateCustomerRequest,
 } from "#src/openapi";
 
-import { apiClients } from "#src/utils/api";
+import { apiClients, unwrapApiResponse } from "#src/utils/api";
 
 export const createCustomer = async (request?: CreateCustomerRequest) => {
   const result = await apiClients.customers.apiV1CustomersPost({
     createCustomerRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const getCustomer = async (id: string) => {
@@ -18,7 +18,7 @@ export const getCustomer = async (id: string) => {
     id: id,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const searchCustomer = async (request?: SearchCustomerRequest) => {
@@ -26,7 +26,7 @@ export const searchCustomer = async (request?: SearchCustomerRequest) => {
     searchCustomerRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const updateCustomer = async (
@@ -38,10 +38,10 @@ export const updateCustomer = async (
     updateCustomerRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const deleteCustomer = async (id: string) => {
   const result = await apiClients.customers.apiV1CustomersIdDelete({ id: id });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
@@ -4,13 +4,13 @@ import type {
   UpdateDepartmentRequest,
 } from "#src/openapi";
 
-import { apiClients } from "#src/utils/api";
+import { apiClients, unwrapApiResponse } from "#src/utils/api";
 
 export const createDepartment = async (request?: CreateDepartmentRequest) => {
   const result = await apiClients.departments.apiV1DepartmentsPost({
     createDepartmentRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const getDepartment = async (id: string) => {
@@ -18,7 +18,7 @@ export const getDepartment = async (id: string) => {
     id: id,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const searchDepartment = async (request?: SearchDepartmentRequest) => {
@@ -26,7 +26,7 @@ export const searchDepartment = async (request?: SearchDepartmentRequest) => {
     searchDepartmentRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const updateDepartment = async (
@@ -38,12 +38,12 @@ export const updateDepartment = async (
     updateDepartmentRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const deleteDepartment = async (id: string) => {
   const result = await apiClients.departments.apiV1DepartmentsIdDelete({
     id: id,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
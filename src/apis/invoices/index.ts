@@ -6,14 +6,14 @@ import type {
   UpdateInvoiceItemRequest,
   SearchInvoiceItemRequest,
 } from "#src/openapi";
-import { apiClients } from "#src/utils/api";
+import { apiClients, unwrapApiResponse } from "#src/utils/api";
 
 export const creatInvoice = async (request?: CreateInvoiceRequest) => {
   const result = await apiClients.invoices.apiV1InvoicesPost({
     createInvoiceRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const updateInvoice = async (
@@ -25,7 +25,7 @@ export const updateInvoice = async (
     updateInvoiceRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const deleteInvoice = async (id: string) => {
@@ -33,7 +33,7 @@ export const deleteInvoice = async (id: string) => {
     id,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const searchInvoice = async (request?: SearchInvoiceRequest) => {
@@ -41,7 +41,7 @@ export const searchInvoice = async (request?: SearchInvoiceRequest) => {
     searchInvoiceRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const getInvoice = async (id: string) => {
@@ -49,7 +49,7 @@ export const getInvoice = async (id: string) => {
     id,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const creatInvoiceItem = async (request?: CreateInvoiceItemRequest) => {
@@ -57,7 +57,7 @@ export const creatInvoiceItem = async (request?: CreateInvoiceItemRequest) => {
     createInvoiceItemRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const updateInvoiceItem = async (
@@ -69,7 +69,7 @@ export const updateInvoiceItem = async (
     updateInvoiceItemRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const deleteInvoiceItem = async (id: string) => {
@@ -77,7 +77,7 @@ export const deleteInvoiceItem = async (id: string) => {
     id,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const searchInvoiceItems = async (
@@ -87,7 +87,7 @@ export const searchInvoiceItems = async (
     searchInvoiceItemRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const getInvoiceItem = async (id: string) => {
@@ -95,5 +95,5 @@ export const getInvoiceItem = async (id: string) => {
     id,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
@@ -1,24 +1,58 @@
+import { AccessLevel } from "#src/openapi";
 import type {
   CreateJobPositionRequest,
+  JobPositionDto,
   SearchJobPositionsRequest,
   UpdateJobPositionRequest,
 } from "#src/openapi";
 
-import { apiClients } from "#src/utils/api";
+import { apiClients, unwrapApiResponse } from "#src/utils/api";
+
+/**
+ * Job position with the title, salary and access level accepted on create
+ * and update. The generated `JobPositionDto` does not declare them, so
+ * `toJobPosition` reads each one only when the response holds a value of
+ * the expected type. Drop this once the client is regenerated from a spec
+ * that includes them.
+ */
+export interface JobPosition extends JobPositionDto {
+  title?: string | null;
+  salary?: number | null;
+  accessLevel?: AccessLevel;
+}
+
+const accessLevels = new Set<unknown>(Object.values(AccessLevel));
+
+export const toJobPosition = (dto: JobPositionDto): JobPosition => {
+  const { title, salary, accessLevel } = dto as Record<string, unknown>;
+
+  return {
+    ...dto,
+    title: typeof title === "string" ? title : undefined,
+    salary: typeof salary === "number" ? salary : undefined,
+    accessLevel: accessLevels.has(accessLevel)
+      ? (accessLevel as AccessLevel)
+      : undefined,
+  };
+};
 
 export const createJobPosition = async (request?: CreateJobPositionRequest) => {
   const result = await apiClients.jobPositions.apiV1JobpositionsPost({
     createJobPositionRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const getJobPosition = async (id: string) => {
   const result = await apiClients.jobPositions.apiV1JobpositionsIdGet({
     id: id,
   });
+  const response = unwrapApiResponse(result.data);
 
-  return result.data;
+  return {
+    ...response,
+    data: response.data ? toJobPosition(response.data) : response.data,
+  };
 };
 
 export const searchJobPosition = async (
@@ -27,8 +61,9 @@ export const searchJobPosition = async (
   const result = await apiClients.jobPositions.apiV1JobpositionsSearchPost({
     searchJobPositionsRequest: request,
   });
+  const response = unwrapApiResponse(result.data);
 
-  return result.data;
+  return { ...response, data: response.data?.map(toJobPosition) };
 };
 
 export const updateJobPosition = async (
@@ -40,12 +75,12 @@ export const updateJobPosition = async (
     updateJobPositionRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const deleteJobPosition = async (id: string) => {
   const result = await apiClients.jobPositions.apiV1JobpositionsIdDelete({
     id: id,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
@@ -3,7 +3,7 @@ import type {
   SearchProductRequest,
   UpdateProductRequest,
 } from "#src/openapi";
-import { apiClients } from "#src/utils/api";
+import { apiClients, unwrapApiResponse } from "#src/utils/api";
 
 /**
  * Create a new product
@@ -14,7 +14,7 @@ export const createProduct = async (request?: CreateProductRequest) => {
   const result = await apiClients.products.apiV1ProductsPost({
     createProductRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -26,7 +26,7 @@ export const getProduct = async (id: string) => {
   const result = await apiClients.products.apiV1ProductsIdGet({
     id: id,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -42,7 +42,7 @@ export const updateProduct = async (
     id,
     updateProductRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -54,7 +54,7 @@ export const deleteProduct = async (id: string) => {
   const result = await apiClients.products.apiV1ProductsIdDelete({
     id,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -66,5 +66,5 @@ export const searchProducts = async (request?: SearchProductRequest) => {
   const result = await apiClients.products.apiV1ProductsSearchPost({
     searchProductRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
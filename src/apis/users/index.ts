@@ -5,19 +5,19 @@ import type {
   UpdateUserRequest,
 } from "#src/openapi";
 
-import { apiClients } from "#src/utils/api";
+import { apiClients, unwrapApiResponse } from "#src/utils/api";
 
 export const createUser = async (request?: CreateUserRequest) => {
   const result = await apiClients.user.apiV1UserPost({
     createUserRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const getMe = async () => {
   const result = await apiClients.user.apiV1UserProfileGet();
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const updateUser = async (request?: UpdateUserRequest) => {
@@ -25,7 +25,7 @@ export const updateUser = async (request?: UpdateUserRequest) => {
     updateUserRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const createUserByAdmin = async (request?: CreateUserByAdminRequest) => {
@@ -33,7 +33,7 @@ export const createUserByAdmin = async (request?: CreateUserByAdminRequest) => {
     createUserByAdminRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 export const updateByManager = async (request?: UpdateUserByManagerRequest) => {
@@ -41,5 +41,5 @@ export const updateByManager = async (request?: UpdateUserByManagerRequest) => {
     updateUserByManagerRequest: request,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
@@ -6,7 +6,7 @@ import type {
   UpdatePartLocationRequest,
   UpdateWarehouseLocationRequest,
 } from "#src/openapi";
-import { apiClients } from "#src/utils/api";
+import { apiClients, unwrapApiResponse } from "#src/utils/api";
 
 /**
  * Create a new part location
@@ -19,7 +19,7 @@ export const createPartLocation = async (
   const result = await apiClients.partLocations.apiV1PartlocationsPost({
     createPartLocationRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -31,7 +31,7 @@ export const getPartLocation = async (id: string) => {
   const result = await apiClients.partLocations.apiV1PartlocationsIdGet({
     id,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -47,7 +47,7 @@ export const updatePartLocation = async (
     id,
     updatePartLocationRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -59,7 +59,7 @@ export const deletePartLocation = async (id: string) => {
   const result = await apiClients.partLocations.apiV1PartlocationsIdDelete({
     id: id,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -73,7 +73,7 @@ export const searchPartLocations = async (
   const result = await apiClients.partLocations.apiV1PartlocationsSearchPost({
     searchPartLocationRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 // ===========================
@@ -91,7 +91,7 @@ export const createWarehouseLocation = async (
   const result = await apiClients.warehouses.apiV1WarehousesPost({
     createWarehouseLocationRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -104,7 +104,7 @@ export const getWarehouseLocation = async (id: string) => {
     id: id,
   });
 
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -120,7 +120,7 @@ export const updateWarehouseLocation = async (
     id,
     updateWarehouseLocationRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -132,7 +132,7 @@ export const deleteWarehouseLocation = async (id: string) => {
   const result = await apiClients.warehouses.apiV1WarehousesIdDelete({
     id,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
 
 /**
@@ -146,5 +146,5 @@ export const searchWarehouseLocations = async (
   const result = await apiClients.warehouses.apiV1WarehousesSearchPost({
     searchWarehouseLocationRequest: request,
   });
-  return result.data;
+  return unwrapApiResponse(result.data);
 };
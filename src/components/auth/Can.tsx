@@ -0,0 +1,34 @@
+/**
+ * Permission Gate Component
+ *
+ * Renders its children only when the current user holds the
+ * required permission(s).
+ */
+
+import { usePermissions } from "#src/hooks/auth";
+import type { PermissionRequirement } from "#src/utils/permissions";
+
+interface CanProps {
+  permission: PermissionRequirement;
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Can component
+ * Hides actions the user is not allowed to perform
+ *
+ * @example
+ * ```tsx
+ * <Can permission={Permissions.Products.Delete}>
+ *   <Popconfirm ...>
+ *     <Button danger />
+ *   </Popconfirm>
+ * </Can>
+ * ```
+ */
+export function Can({ permission, children, fallback = null }: CanProps) {
+  const { can } = usePermissions();
+
+  return can(permission) ? children : fallback;
+}
@@ -0,0 +1,45 @@
+import { getPasswordStrength } from "./passwordStrength";
+
+const SEGMENTS = [0, 1, 2, 3];
+
+interface PasswordStrengthMeterProps {
+  password?: string;
+}
+
+/**
+ * Four-segment strength bar shown under a password input, with the
+ * first missing rule as a hint.
+ */
+export function PasswordStrengthMeter({ password }: PasswordStrengthMeterProps) {
+  const strength = getPasswordStrength(password);
+
+  if (strength.level === "empty") {
+    return null;
+  }
+
+  return (
+    <div className="-mt-3 mb-4" aria-live="polite">
+      <div className="flex gap-1">
+        {SEGMENTS.map((segment) => (
+          <div
+            key={segment}
+            className="h-1.5 flex-1 rounded-full bg-gray-200"
+            style={
+              segment < Math.max(strength.score, 1)
+                ? { backgroundColor: strength.color }
+                : undefined
+            }
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs mt-1">
+        <span style={{ color: strength.color }} className="font-medium">
+          {strength.label}
+        </span>
+        {strength.suggestions[0] && (
+          <span className="text-gray-500">{strength.suggestions[0]}</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Route Permission Guard Component
+ *
+ * Checks the `permissions` declared in the `handle` of every matched
+ * route and shows a 403 page when the user lacks any of them.
+ */
+
+import { Button, Result } from "antd";
+import { useMatches, useNavigate } from "react-router";
+import { usePermissions } from "#src/hooks/auth";
+import type { RouteHandle } from "#src/utils/permissions";
+
+interface RoutePermissionGuardProps {
+  children: React.ReactNode;
+}
+
+/**
+ * RoutePermissionGuard component
+ * Wraps routed content that may require permissions
+ *
+ * @example
+ * ```tsx
+ * <RoutePermissionGuard>
+ *   <Outlet />
+ * </RoutePermissionGuard>
+ * ```
+ */
+export function RoutePermissionGuard({ children }: RoutePermissionGuardProps) {
+  const matches = useMatches();
+  const navigate = useNavigate();
+  const { can, isLoading } = usePermissions();
+
+  const required = matches.flatMap(
+    (match) => (match.handle as RouteHandle | undefined)?.permissions ?? [],
+  );
+
+  // Wait for the profile fallback rather than flashing a 403
+  if (isLoading) {
+    return null;
+  }
+
+  if (!can(required)) {
+    return (
+      <Result
+        status="403"
+        title="Access denied"
+        subTitle="You do not have permission to view this page."
+        extra={
+          <Button type="primary" onClick={() => navigate("/dashboard")}>
+            Back to dashboard
+          </Button>
+        }
+      />
+    );
+  }
+
+  return children;
+}
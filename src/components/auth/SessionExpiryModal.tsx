@@ -0,0 +1,127 @@
+/**
+ * Session Expiry Modal Component
+ *
+ * Warns the user before the refresh token expires and lets them sign in
+ * again in place, so unsaved forms on the current page are kept.
+ */
+
+import { useState } from "react";
+import { Button, Form, Input, Modal } from "antd";
+import { useLocation, useNavigate } from "react-router";
+import {
+  buildLoginPath,
+  useLogin,
+  useSessionScheduler,
+} from "#src/hooks/auth";
+import { useMeQuery } from "#src/hooks/users";
+import { useMessage } from "#src/utils/message";
+
+interface ReauthFormValues {
+  email: string;
+  password: string;
+}
+
+/**
+ * SessionExpiryModal component
+ * Mount once inside the authenticated layout
+ *
+ * @example
+ * ```tsx
+ * <>
+ *   <DashboardLayout />
+ *   <SessionExpiryModal />
+ * </>
+ * ```
+ */
+export function SessionExpiryModal() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const message = useMessage();
+  const [form] = Form.useForm<ReauthFormValues>();
+  const { isSessionEnding, sessionEndsAt } = useSessionScheduler();
+  const { data: me } = useMeQuery();
+  const [dismissedFor, setDismissedFor] = useState<number | null>(null);
+
+  const { mutate: login, isPending, error } = useLogin({
+    onSuccess: () => {
+      form.resetFields();
+      message.success("Session extended");
+    },
+  });
+
+  const open = isSessionEnding && dismissedFor !== sessionEndsAt;
+
+  const handleSubmit = (values: ReauthFormValues) => {
+    login({ loginCredentials: values.email, password: values.password });
+  };
+
+  return (
+    <Modal
+      title={<span className="text-xl font-semibold">Session ending</span>}
+      open={open}
+      onCancel={() => setDismissedFor(sessionEndsAt)}
+      footer={null}
+      maskClosable={false}
+      destroyOnHidden
+    >
+      <p className="mt-2 mb-4 text-gray-600">
+        Your session ends at{" "}
+        <span className="font-semibold">
+          {sessionEndsAt ? new Date(sessionEndsAt).toLocaleTimeString() : "-"}
+        </span>
+        . Sign in again to keep working without losing unsaved changes.
+      </p>
+
+      <Form
+        form={form}
+        layout="vertical"
+        onFinish={handleSubmit}
+        initialValues={{ email: me?.email ?? "" }}
+      >
+        <Form.Item
+          label={
+            <label className="text-sm font-medium text-gray-600">Email</label>
+          }
+          name="email"
+          rules={[
+            { required: true, message: "Email is required" },
+            { type: "email", message: "Please enter a valid email" },
+          ]}
+        >
+          <Input type="email" size="large" disabled={isPending} />
+        </Form.Item>
+
+        <Form.Item
+          label={
+            <label className="text-sm font-medium text-gray-600">
+              Password
+            </label>
+          }
+          name="password"
+          rules={[{ required: true, message: "Password is required" }]}
+        >
+          <Input.Password size="large" disabled={isPending} autoFocus />
+        </Form.Item>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-500 rounded-md text-red-500 text-sm text-center">
+            {error.message}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button
+            onClick={() =>
+              navigate(buildLoginPath(`${location.pathname}${location.search}`))
+            }
+          >
+            Go to login
+          </Button>
+          <Button type="primary" htmlType="submit" loading={isPending}>
+            Stay signed in
+          </Button>
+        </div>
+      </Form>
+    </Modal>
+  );
+}
@@ -1 +1,10 @@
 export { ProtectedRoute } from "./ProtectedRoute";
+export { Can } from "./Can";
+export { RoutePermissionGuard } from "./RoutePermissionGuard";
+export { SessionExpiryModal } from "./SessionExpiryModal";
+export { PasswordStrengthMeter } from "./PasswordStrengthMeter";
+export {
+  getPasswordStrength,
+  MIN_PASSWORD_LENGTH,
+  type PasswordStrength,
+} from "./passwordStrength";
@@ -0,0 +1,76 @@
+export type PasswordStrengthLevel =
+  | "empty"
+  | "weak"
+  | "fair"
+  | "good"
+  | "strong";
+
+export interface PasswordStrength {
+  level: PasswordStrengthLevel;
+  /** 0-4, one point per satisfied rule after the length gate */
+  score: number;
+  label: string;
+  color: string;
+  /** Missing rules, phrased for display under the meter */
+  suggestions: string[];
+}
+
+const LEVELS: Record<
+  PasswordStrengthLevel,
+  Pick<PasswordStrength, "label" | "color">
+> = {
+  empty: { label: "", color: "#d9d9d9" },
+  weak: { label: "Weak", color: "#ff4d4f" },
+  fair: { label: "Fair", color: "#faad14" },
+  good: { label: "Good", color: "#1677ff" },
+  strong: { label: "Strong", color: "#52c41a" },
+};
+
+const RULES: { test: (password: string) => boolean; suggestion: string }[] = [
+  {
+    test: (password) => /[a-z]/.test(password) && /[A-Z]/.test(password),
+    suggestion: "Mix upper and lower case letters",
+  },
+  { test: (password) => /\d/.test(password), suggestion: "Add a number" },
+  {
+    test: (password) => /[^A-Za-z0-9]/.test(password),
+    suggestion: "Add a symbol",
+  },
+  {
+    test: (password) => password.length >= 12,
+    suggestion: "Use 12 or more characters",
+  },
+];
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Scores a password for the signup strength meter. Passwords shorter than
+ * MIN_PASSWORD_LENGTH are always "weak" regardless of character mix.
+ */
+export const getPasswordStrength = (password = ""): PasswordStrength => {
+  if (!password) {
+    return { level: "empty", score: 0, suggestions: [], ...LEVELS.empty };
+  }
+
+  const failed = RULES.filter((rule) => !rule.test(password));
+  const suggestions = failed.map((rule) => rule.suggestion);
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return {
+      level: "weak",
+      score: 0,
+      suggestions: [
+        `Use at least ${MIN_PASSWORD_LENGTH} characters`,
+        ...suggestions,
+      ],
+      ...LEVELS.weak,
+    };
+  }
+
+  const score = RULES.length - failed.length;
+  const level: PasswordStrengthLevel =
+    score >= 4 ? "strong" : score === 3 ? "good" : score === 2 ? "fair" : "weak";
+
+  return { level, score, suggestions, ...LEVELS[level] };
+};
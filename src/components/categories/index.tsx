@@ -1,3 +1 @@
-export { default as CategoryTable } from "./CategoryTable";
-export { default as CategoryFormModal } from "./CategoryFormModal";
 export { default as CategoryDetailModal } from "./CategoryDetailModal";
@@ -0,0 +1,155 @@
+import type { ReactNode } from "react";
+import { Button, Card, Input, Space, Typography } from "antd";
+import type {
+  EntityCrud,
+  EntityDescriptor,
+  EntitySearchRequest,
+} from "#src/hooks/crud";
+import EntityFormModal from "./EntityFormModal";
+import EntityTable from "./EntityTable";
+
+const { Title } = Typography;
+
+interface EntityCrudPageProps<
+  TEntity extends { id?: string | null },
+  TSearch extends EntitySearchRequest,
+  TCreate,
+  TUpdate,
+> {
+  descriptor: EntityDescriptor<TEntity, TSearch, TCreate, TUpdate>;
+  crud: EntityCrud<TEntity, TSearch, TCreate, TUpdate>;
+  /** Extra filter controls shown after the keyword box */
+  filters?: ReactNode;
+  /** Extra header buttons shown before Refresh */
+  actions?: ReactNode;
+  /** Adds a view button to each row of the generated table */
+  onView?: (entity: TEntity) => void;
+  /** Replaces the table generated from `descriptor.columns` */
+  table?: ReactNode;
+  /** Replaces the modal generated from `descriptor.form` */
+  formModal?: ReactNode;
+  /** Extra modals or drawers owned by the page */
+  children?: ReactNode;
+}
+
+/**
+ * Filter card, header card, table and create/edit modal for one entity.
+ * Pages pass `table` or `formModal` when they need a custom component;
+ * everything else comes from the descriptor.
+ *
+ * @example
+ * ```tsx
+ * export default function PermissionsPage() {
+ *   const crud = useEntityCrud(permissionDescriptor);
+ *   return <EntityCrudPage descriptor={permissionDescriptor} crud={crud} />;
+ * }
+ * ```
+ */
+export default function EntityCrudPage<
+  TEntity extends { id?: string | null },
+  TSearch extends EntitySearchRequest,
+  TCreate,
+  TUpdate,
+>({
+  descriptor,
+  crud,
+  filters,
+  actions,
+  onView,
+  table,
+  formModal,
+  children,
+}: EntityCrudPageProps<TEntity, TSearch, TCreate, TUpdate>) {
+  const handleSubmit = (values: Record<string, unknown>) =>
+    crud.submit(
+      descriptor.toRequest
+        ? descriptor.toRequest(values, crud.editing)
+        : (values as TCreate | TUpdate),
+    );
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <Card className="mb-6! shadow-sm">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Input
+            allowClear
+            value={crud.keyword}
+            placeholder={
+              descriptor.searchPlaceholder ??
+              `Search ${descriptor.pluralName.toLowerCase()}`
+            }
+            onChange={(event) => crud.setKeyword(event.target.value)}
+            onPressEnter={crud.applyFilters}
+          />
+
+          {filters}
+
+          <div className="flex gap-2">
+            <Button type="primary" onClick={crud.applyFilters}>
+              Apply Filters
+            </Button>
+            <Button onClick={crud.resetFilters}>Reset</Button>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="mb-6! shadow-sm">
+        <div className="flex justify-between items-center">
+          <div>
+            <Title level={3} className="mb-1!">
+              {descriptor.pluralName}
+            </Title>
+            {descriptor.description && (
+              <p className="text-gray-600 text-sm">{descriptor.description}</p>
+            )}
+          </div>
+          <Space>
+            {actions}
+            <Button
+              onClick={() => crud.refetch()}
+              loading={crud.isLoading}
+              size="middle"
+            >
+              Refresh
+            </Button>
+            <Button type="primary" onClick={crud.openCreate} size="middle">
+              Create {descriptor.name}
+            </Button>
+          </Space>
+        </div>
+      </Card>
+
+      {table ?? (
+        <EntityTable
+          name={descriptor.name}
+          columns={descriptor.columns ?? []}
+          data={crud.data}
+          loading={crud.isLoading}
+          onView={onView}
+          onEdit={crud.openEdit}
+          onDelete={crud.remove}
+          deleting={crud.isDeleting}
+          deletePermission={descriptor.deletePermission}
+          {...crud.pagination}
+          sort={crud.sort}
+          onSortChange={crud.setSort}
+        />
+      )}
+
+      {formModal ?? (
+        <EntityFormModal
+          name={descriptor.name}
+          fields={descriptor.form ?? []}
+          open={crud.isModalOpen}
+          onCancel={crud.closeModal}
+          onSubmit={handleSubmit}
+          editing={crud.editing}
+          loading={crud.isSubmitting}
+          toFormValues={descriptor.toFormValues}
+        />
+      )}
+
+      {children}
+    </div>
+  );
+}
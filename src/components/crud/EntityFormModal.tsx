@@ -0,0 +1,147 @@
+import { Modal, Form, Input, InputNumber, Select, Switch } from "antd";
+import { useEffect } from "react";
+import type { EntityFormField } from "#src/hooks/crud";
+import { useApplyFieldErrors } from "#src/utils/api";
+
+interface EntityFormModalProps<TEntity> {
+  name: string;
+  fields: EntityFormField[];
+  open: boolean;
+  onCancel: () => void;
+  onSubmit: (values: Record<string, unknown>) => Promise<void>;
+  editing: TEntity | null;
+  loading: boolean;
+  toFormValues?: (entity: TEntity) => Record<string, unknown>;
+}
+
+const renderInput = (field: EntityFormField) => {
+  switch (field.type) {
+    case "textarea":
+      return (
+        <Input.TextArea
+          placeholder={field.placeholder}
+          rows={3}
+          className="rounded"
+        />
+      );
+    case "number":
+      return (
+        <InputNumber
+          placeholder={field.placeholder}
+          min={field.min}
+          precision={field.precision}
+          size="large"
+          className="w-full! rounded"
+        />
+      );
+    case "select":
+      return (
+        <Select
+          placeholder={field.placeholder}
+          options={field.options}
+          size="large"
+          allowClear
+        />
+      );
+    case "switch":
+      return <Switch />;
+    case "date":
+      return <Input type="date" size="large" className="rounded" />;
+    default:
+      return (
+        <Input
+          placeholder={field.placeholder}
+          size="large"
+          className="rounded"
+        />
+      );
+  }
+};
+
+/**
+ * Create/edit modal generated from an entity descriptor's form schema
+ */
+export default function EntityFormModal<TEntity>({
+  name,
+  fields,
+  open,
+  onCancel,
+  onSubmit,
+  editing,
+  loading,
+  toFormValues,
+}: EntityFormModalProps<TEntity>) {
+  const [form] = Form.useForm();
+  const applyFieldErrors = useApplyFieldErrors();
+  const isEditing = !!editing;
+
+  useEffect(() => {
+    if (open) {
+      if (editing) {
+        form.setFieldsValue(
+          toFormValues
+            ? toFormValues(editing)
+            : (editing as Record<string, unknown>),
+        );
+      } else {
+        form.resetFields();
+      }
+    }
+  }, [open, editing, form, toFormValues]);
+
+  const handleSubmit = async () => {
+    try {
+      const values = await form.validateFields();
+      await onSubmit(values);
+      form.resetFields();
+    } catch (error) {
+      if (!applyFieldErrors(form, error)) {
+        console.error("Form validation failed:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title={
+        <span className="text-xl font-semibold">
+          {isEditing ? `Edit ${name}` : `Create ${name}`}
+        </span>
+      }
+      open={open}
+      onOk={handleSubmit}
+      onCancel={handleCancel}
+      okText={isEditing ? "Update" : "Create"}
+      cancelText="Cancel"
+      confirmLoading={loading}
+      width={700}
+      destroyOnHidden
+    >
+      <Form form={form} layout="vertical" className="mt-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+          {fields.map((field) => (
+            <Form.Item
+              key={field.name}
+              label={
+                <label className="text-sm font-medium text-gray-700">
+                  {field.label}
+                </label>
+              }
+              name={field.name}
+              rules={field.rules}
+              valuePropName={field.type === "switch" ? "checked" : "value"}
+              className={field.fullWidth ? "md:col-span-2" : undefined}
+            >
+              {renderInput(field)}
+            </Form.Item>
+          ))}
+        </div>
+      </Form>
+    </Modal>
+  );
+}
@@ -0,0 +1,126 @@
+import { Table, Button, Popconfirm, Tooltip } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { Eye, SquarePen, Trash } from "lucide-react";
+import { Can } from "#src/components/auth";
+import { useTableSort } from "#src/hooks/search";
+import type { Sort } from "#src/openapi";
+
+interface EntityTableProps<TEntity extends { id?: string | null }> {
+  name: string;
+  columns: ColumnsType<TEntity>;
+  data: TEntity[];
+  loading: boolean;
+  /** Adds a view button before edit when set */
+  onView?: (record: TEntity) => void;
+  onEdit: (record: TEntity) => void;
+  onDelete: (id: string) => void;
+  deleting: boolean;
+  deletePermission?: string;
+  currentPage: number;
+  pageSize: number;
+  total: number;
+  onPaginationChange: (page: number, pageSize: number) => void;
+  sort?: Sort;
+  onSortChange?: (sort: Sort | undefined) => void;
+}
+
+/**
+ * Paged table with a view/edit/delete column appended to the descriptor's
+ * columns
+ */
+export default function EntityTable<TEntity extends { id?: string | null }>({
+  name,
+  columns,
+  data,
+  loading,
+  onView,
+  onEdit,
+  onDelete,
+  deleting,
+  deletePermission,
+  currentPage,
+  pageSize,
+  total,
+  onPaginationChange,
+  sort,
+  onSortChange,
+}: EntityTableProps<TEntity>) {
+  const { sortable, onChange } = useTableSort<TEntity>(sort, onSortChange);
+
+  const deleteButton = (record: TEntity) => (
+    <Popconfirm
+      title={`Delete ${name}`}
+      description={`Are you sure you want to delete this ${name.toLowerCase()}?`}
+      onConfirm={() => onDelete(record.id!)}
+      okText="Yes"
+      cancelText="No"
+      okButtonProps={{ danger: true, loading: deleting }}
+    >
+      <Button type="link" danger loading={deleting}>
+        <Trash className="w-4 h-4" />
+      </Button>
+    </Popconfirm>
+  );
+
+  const actionColumn: ColumnsType<TEntity>[number] = {
+    title: "Actions",
+    key: "actions",
+    width: onView ? 160 : 120,
+    fixed: "right",
+    render: (_, record) => (
+      <div className="flex gap-1">
+        {onView && (
+          <Tooltip title="View details">
+            <Button
+              type="link"
+              onClick={() => onView(record)}
+              className="text-slate-600 hover:text-slate-700"
+            >
+              <Eye className="w-4 h-4" />
+            </Button>
+          </Tooltip>
+        )}
+        <Button
+          type="link"
+          onClick={() => onEdit(record)}
+          className="text-blue-600 hover:text-blue-700"
+        >
+          <SquarePen className="w-4 h-4" />
+        </Button>
+        {deletePermission ? (
+          <Can permission={deletePermission}>{deleteButton(record)}</Can>
+        ) : (
+          deleteButton(record)
+        )}
+      </div>
+    ),
+  };
+
+  return (
+    <Table
+      columns={[
+        ...columns.map((column) =>
+          column.sorter === true && typeof column.key === "string"
+            ? { ...column, ...sortable(column.key) }
+            : column,
+        ),
+        actionColumn,
+      ]}
+      onChange={onChange}
+      dataSource={data}
+      rowKey="id"
+      loading={loading}
+      pagination={{
+        current: currentPage,
+        pageSize,
+        total,
+        showSizeChanger: true,
+        onChange: onPaginationChange,
+        showTotal: (total, range) =>
+          `${range[0]}-${range[1]} of ${total} items`,
+      }}
+      className="bg-white rounded-lg shadow"
+      scroll={{ x: 800 }}
+    />
+  );
+}
@@ -0,0 +1,3 @@
+export { default as EntityCrudPage } from "./EntityCrudPage";
+export { default as EntityFormModal } from "./EntityFormModal";
+export { default as EntityTable } from "./EntityTable";
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Descriptions, Drawer, Empty, Spin, Table, Typography } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import type { InvoiceDto } from "#src/openapi";
+import { useCustomerById } from "#src/hooks/customers";
+import { useInvoicesQuery } from "#src/hooks/invoices";
+import { extractApiResponseMeta } from "#src/utils/queries";
+import { getCustomerTypeLabel } from "#src/utils/enums";
+
+const { Text, Title } = Typography;
+
+interface CustomerDetailDrawerProps {
+  open: boolean;
+  customerId: string | null;
+  onClose: () => void;
+}
+
+const formatMoney = (value: number | null | undefined) =>
+  `$${(value ?? 0).toFixed(2)}`;
+
+const formatDate = (value: string | null | undefined) => {
+  if (!value) return "-";
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString();
+};
+
+function renderValue(value: string | null | undefined) {
+  if (!value) {
+    return <Text type="secondary">-</Text>;
+  }
+
+  return <Text>{value}</Text>;
+}
+
+function CustomerInvoices({ customerId }: { customerId: string }) {
+  const [pageNumber, setPageNumber] = useState(1);
+  const { data: invoicesResult, isLoading } = useInvoicesQuery({
+    pageNumber,
+    pageSize: 5,
+    advanceFilter: {
+      field: "customerId",
+      operator: "eq",
+      value: customerId,
+    },
+  });
+
+  const meta = extractApiResponseMeta(invoicesResult?.meta, pageNumber, 5);
+
+  const columns: ColumnsType<InvoiceDto> = [
+    {
+      title: "Sale Date",
+      dataIndex: "saleDate",
+      key: "saleDate",
+      render: (value: string | null | undefined) => formatDate(value),
+    },
+    {
+      title: "Tax",
+      dataIndex: "taxAmount",
+      key: "taxAmount",
+      align: "right",
+      render: (value: number | null | undefined) => formatMoney(value),
+    },
+    {
+      title: "Total",
+      dataIndex: "totalAmount",
+      key: "totalAmount",
+      align: "right",
+      render: (value: number | null | undefined) => (
+        <span className="font-semibold text-gray-700">
+          {formatMoney(value)}
+        </span>
+      ),
+    },
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={invoicesResult?.data ?? []}
+      rowKey="id"
+      loading={isLoading}
+      size="small"
+      pagination={{
+        current: meta.currentPage,
+        pageSize: meta.pageSize,
+        total: meta.totalCount,
+        onChange: setPageNumber,
+      }}
+      locale={{ emptyText: "No invoices for this customer" }}
+    />
+  );
+}
+
+export default function CustomerDetailDrawer({
+  open,
+  customerId,
+  onClose,
+}: CustomerDetailDrawerProps) {
+  const { data, isLoading } = useCustomerById(customerId);
+
+  return (
+    <Drawer
+      title={<span className="text-xl font-semibold">Customer Details</span>}
+      open={open}
+      onClose={onClose}
+      size="large"
+      destroyOnHidden
+    >
+      {isLoading ? (
+        <div className="py-10 text-center">
+          <Spin />
+        </div>
+      ) : !data ? (
+        <Empty description="No customer details found" />
+      ) : (
+        <div className="flex flex-col gap-6">
+          <Descriptions bordered column={1} size="middle">
+            <Descriptions.Item label="Name">
+              {renderValue(data.name)}
+            </Descriptions.Item>
+            <Descriptions.Item label="Phone">
+              {renderValue(data.phoneNumber)}
+            </Descriptions.Item>
+            <Descriptions.Item label="Email">
+              {renderValue(data.email)}
+            </Descriptions.Item>
+            <Descriptions.Item label="Type">
+              {getCustomerTypeLabel(data.customerType)}
+            </Descriptions.Item>
+          </Descriptions>
+
+          <div>
+            <Title level={5}>Invoices</Title>
+            {data.id && <CustomerInvoices customerId={data.id} />}
+          </div>
+        </div>
+      )}
+    </Drawer>
+  );
+}
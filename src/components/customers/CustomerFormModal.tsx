@@ -0,0 +1,168 @@
+import { Modal, Form, Input, Select } from "antd";
+import { useEffect } from "react";
+import type {
+  CreateCustomerRequest,
+  CustomerDto,
+  CustomerType,
+  UpdateCustomerRequest,
+} from "#src/openapi";
+import { customerTypeOptions } from "#src/utils/enums";
+import { useApplyFieldErrors } from "#src/utils/api";
+
+interface CustomerFormModalProps {
+  open: boolean;
+  onCancel: () => void;
+  onSubmit: (
+    values: CreateCustomerRequest | UpdateCustomerRequest,
+  ) => Promise<void>;
+  editingCustomer: CustomerDto | null;
+  loading: boolean;
+}
+
+interface FormValues {
+  name?: string;
+  phoneNumber?: string;
+  email?: string;
+  customerType?: CustomerType;
+}
+
+export default function CustomerFormModal({
+  open,
+  onCancel,
+  onSubmit,
+  editingCustomer,
+  loading,
+}: CustomerFormModalProps) {
+  const [form] = Form.useForm<FormValues>();
+  const applyFieldErrors = useApplyFieldErrors();
+  const isEditing = !!editingCustomer;
+
+  useEffect(() => {
+    if (open) {
+      if (editingCustomer) {
+        form.setFieldsValue({
+          name: editingCustomer.name || undefined,
+          phoneNumber: editingCustomer.phoneNumber || undefined,
+          email: editingCustomer.email || undefined,
+          customerType: editingCustomer.customerType,
+        });
+      } else {
+        form.resetFields();
+      }
+    }
+  }, [open, editingCustomer, form]);
+
+  const handleSubmit = async () => {
+    try {
+      const values = await form.validateFields();
+
+      const submitData: CreateCustomerRequest | UpdateCustomerRequest = {
+        name: values.name || null,
+        phoneNumber: values.phoneNumber || null,
+        email: values.email || null,
+        customerType: values.customerType,
+      };
+
+      await onSubmit(submitData);
+      form.resetFields();
+    } catch (error) {
+      if (!applyFieldErrors(form, error)) {
+        console.error("Form validation failed:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title={
+        <span className="text-xl font-semibold">
+          {isEditing ? "Edit Customer" : "Create Customer"}
+        </span>
+      }
+      open={open}
+      onOk={handleSubmit}
+      onCancel={handleCancel}
+      okText={isEditing ? "Update" : "Create"}
+      cancelText="Cancel"
+      confirmLoading={loading}
+      width={700}
+      destroyOnHidden
+    >
+      <Form form={form} layout="vertical" className="mt-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Form.Item
+            label={
+              <label className="text-sm font-medium text-gray-700">Name</label>
+            }
+            name="name"
+            rules={[{ required: true, message: "Customer name is required" }]}
+          >
+            <Input
+              placeholder="e.g., Nguyen Van A"
+              size="large"
+              className="rounded"
+            />
+          </Form.Item>
+
+          <Form.Item
+            label={
+              <label className="text-sm font-medium text-gray-700">
+                Customer Type
+              </label>
+            }
+            name="customerType"
+            rules={[{ required: true, message: "Customer type is required" }]}
+          >
+            <Select
+              size="large"
+              placeholder="Select customer type"
+              options={customerTypeOptions}
+            />
+          </Form.Item>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Form.Item
+            label={
+              <label className="text-sm font-medium text-gray-700">
+                Phone Number
+              </label>
+            }
+            name="phoneNumber"
+            rules={[
+              {
+                pattern: /^[0-9+\-\s()]*$/,
+                message: "Phone number can only contain digits and + - ( )",
+              },
+            ]}
+          >
+            <Input
+              placeholder="e.g., 0901 234 567"
+              size="large"
+              className="rounded"
+            />
+          </Form.Item>
+
+          <Form.Item
+            label={
+              <label className="text-sm font-medium text-gray-700">Email</label>
+            }
+            name="email"
+            rules={[{ type: "email", message: "Please enter a valid email" }]}
+          >
+            <Input
+              placeholder="e.g., customer@example.com"
+              size="large"
+              className="rounded"
+            />
+          </Form.Item>
+        </div>
+      </Form>
+    </Modal>
+  );
+}
@@ -0,0 +1,51 @@
+import { useState } from "react";
+import { Select } from "antd";
+import type { SelectProps } from "antd";
+import { useCustomerById, useCustomersQuery } from "#src/hooks/customers";
+import { useDebouncedValue } from "#src/hooks/search";
+
+const CUSTOMER_OPTIONS_LIMIT = 20;
+
+type CustomerSelectProps = Omit<
+  SelectProps<string>,
+  "options" | "showSearch" | "filterOption" | "onSearch" | "loading"
+>;
+
+/**
+ * Customer picker that searches the server by name, email or phone number.
+ * Works as a form control through `value` and `onChange`.
+ */
+export default function CustomerSelect({
+  value,
+  ...props
+}: CustomerSelectProps) {
+  const [keyword, setKeyword] = useState("");
+  const debouncedKeyword = useDebouncedValue(keyword.trim());
+
+  const { data: results, isFetching } = useCustomersQuery({
+    pageNumber: 1,
+    pageSize: CUSTOMER_OPTIONS_LIMIT,
+    advanceSearches: debouncedKeyword
+      ? { keyword: debouncedKeyword, fields: ["name", "email", "phoneNumber"] }
+      : undefined,
+  });
+  // The picked customer keeps its label when it drops out of the results
+  const { data: selected } = useCustomerById(value);
+
+  const options = [
+    ...(selected ? [selected] : []),
+    ...(results?.data ?? []).filter((customer) => customer.id !== value),
+  ].map((customer) => ({ value: customer.id, label: customer.name }));
+
+  return (
+    <Select
+      {...props}
+      value={value}
+      options={options}
+      showSearch
+      filterOption={false}
+      onSearch={setKeyword}
+      loading={isFetching}
+    />
+  );
+}
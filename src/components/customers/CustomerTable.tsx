@@ -0,0 +1,151 @@
+import { Button, Popconfirm, Table, Tag, Tooltip, Typography } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { Eye, SquarePen, Trash } from "lucide-react";
+import type { CustomerDto } from "#src/openapi";
+import { getCustomerTypeLabel } from "#src/utils/enums";
+import { Can } from "#src/components/auth";
+import { Permissions } from "#src/utils/permissions";
+
+const { Text } = Typography;
+
+interface CustomerTableProps {
+  data: CustomerDto[];
+  loading: boolean;
+  onView: (record: CustomerDto) => void;
+  onEdit: (record: CustomerDto) => void;
+  onDelete: (id: string) => void;
+  deleting: boolean;
+  currentPage: number;
+  pageSize: number;
+  total: number;
+  onPaginationChange: (page: number, pageSize: number) => void;
+}
+
+export default function CustomerTable({
+  data,
+  loading,
+  onView,
+  onEdit,
+  onDelete,
+  deleting,
+  currentPage,
+  pageSize,
+  total,
+  onPaginationChange,
+}: CustomerTableProps) {
+  const columns: ColumnsType<CustomerDto> = [
+    {
+      title: "Name",
+      dataIndex: "name",
+      key: "name",
+      width: 220,
+      render: (text: string | null | undefined) => (
+        <Text className="font-medium">{text || "-"}</Text>
+      ),
+    },
+    {
+      title: "Phone",
+      dataIndex: "phoneNumber",
+      key: "phoneNumber",
+      width: 160,
+      render: (text: string | null | undefined) => (
+        <Text className="font-mono text-sm">{text || "-"}</Text>
+      ),
+    },
+    {
+      title: "Email",
+      dataIndex: "email",
+      key: "email",
+      width: 240,
+      render: (text: string | null | undefined) => <Text>{text || "-"}</Text>,
+    },
+    {
+      title: "Type",
+      dataIndex: "customerType",
+      key: "customerType",
+      width: 120,
+      render: (value: number | undefined) => (
+        <Tag color={value === 1 ? "blue" : "default"}>
+          {getCustomerTypeLabel(value)}
+        </Tag>
+      ),
+    },
+    {
+      title: "Actions",
+      key: "actions",
+      width: 160,
+      fixed: "right",
+      render: (_, record) => {
+        const hasId = !!record.id;
+
+        return (
+          <div className="flex gap-1">
+            <Tooltip title="View details">
+              <Button
+                type="link"
+                onClick={() => onView(record)}
+                disabled={!hasId}
+                className="text-slate-600 hover:text-slate-700"
+              >
+                <Eye className="w-4 h-4" />
+              </Button>
+            </Tooltip>
+
+            <Tooltip title="Edit customer">
+              <Button
+                type="link"
+                onClick={() => onEdit(record)}
+                disabled={!hasId}
+                className="text-blue-600 hover:text-blue-700"
+              >
+                <SquarePen className="w-4 h-4" />
+              </Button>
+            </Tooltip>
+
+            <Can permission={Permissions.Customers.Delete}>
+              <Popconfirm
+                title="Delete Customer"
+                description="Are you sure you want to delete this customer?"
+                onConfirm={() => {
+                  if (record.id) {
+                    onDelete(record.id);
+                  }
+                }}
+                okText="Yes"
+                cancelText="No"
+                okButtonProps={{ danger: true, loading: deleting }}
+                disabled={!hasId}
+              >
+                <Tooltip title="Delete customer">
+                  <Button type="link" danger loading={deleting} disabled={!hasId}>
+                    <Trash className="w-4 h-4" />
+                  </Button>
+                </Tooltip>
+              </Popconfirm>
+            </Can>
+          </div>
+        );
+      },
+    },
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={data}
+      rowKey="id"
+      loading={loading}
+      pagination={{
+        current: currentPage,
+        pageSize,
+        total,
+        showSizeChanger: true,
+        onChange: onPaginationChange,
+        showTotal: (count, range) =>
+          `${range[0]}-${range[1]} of ${count} items`,
+      }}
+      className="bg-white rounded-lg shadow"
+      scroll={{ x: 900 }}
+    />
+  );
+}
@@ -0,0 +1,4 @@
+export { default as CustomerTable } from "./CustomerTable";
+export { default as CustomerFormModal } from "./CustomerFormModal";
+export { default as CustomerDetailDrawer } from "./CustomerDetailDrawer";
+export { default as CustomerSelect } from "./CustomerSelect";
@@ -0,0 +1,138 @@
+import { useMemo, useState } from "react";
+import { Alert, Modal, Tag, TreeSelect, Typography } from "antd";
+import type { DepartmentDto } from "#src/openapi";
+import {
+  buildDepartmentTree,
+  collectDescendantIds,
+  getChildDepartments,
+} from "./departmentTree";
+import type { DepartmentTreeNode } from "./departmentTree";
+
+const { Text } = Typography;
+
+interface DepartmentDeleteModalProps {
+  open: boolean;
+  department: DepartmentDto | null;
+  departments: DepartmentDto[];
+  loading: boolean;
+  onCancel: () => void;
+  onConfirm: (payload: {
+    children: DepartmentDto[];
+    nextParentId: string | null;
+  }) => Promise<void>;
+}
+
+interface TargetOption {
+  value: string;
+  title: string;
+  children: TargetOption[];
+}
+
+const toTargetOptions = (
+  nodes: DepartmentTreeNode[],
+  excludedIds: Set<string>,
+): TargetOption[] =>
+  nodes
+    .filter((node) => !excludedIds.has(node.key))
+    .map((node) => ({
+      value: node.key,
+      title: node.department.name || "-",
+      children: toTargetOptions(node.children, excludedIds),
+    }));
+
+/**
+ * Confirms a department deletion. When the department still has
+ * sub-departments the user must pick where they move before deleting.
+ * Render with `key={department.id}` so the target is re-seeded per department.
+ */
+export default function DepartmentDeleteModal({
+  open,
+  department,
+  departments,
+  loading,
+  onCancel,
+  onConfirm,
+}: DepartmentDeleteModalProps) {
+  const [nextParentId, setNextParentId] = useState<string | null>(
+    department?.parentId ?? null,
+  );
+
+  const children = useMemo(
+    () =>
+      department?.id ? getChildDepartments(departments, department.id) : [],
+    [departments, department],
+  );
+
+  const targetOptions = useMemo(() => {
+    if (!department?.id) return [];
+
+    const excludedIds = collectDescendantIds(departments, department.id);
+    excludedIds.add(department.id);
+
+    return toTargetOptions(buildDepartmentTree(departments), excludedIds);
+  }, [departments, department]);
+
+  const handleConfirm = async () => {
+    try {
+      await onConfirm({ children, nextParentId });
+    } catch (error) {
+      console.error("Department deletion failed:", error);
+    }
+  };
+
+  return (
+    <Modal
+      title={
+        <span className="text-xl font-semibold">
+          Delete {department?.name || "Department"}
+        </span>
+      }
+      open={open}
+      onOk={handleConfirm}
+      onCancel={onCancel}
+      okText={children.length > 0 ? "Reassign & Delete" : "Delete"}
+      okButtonProps={{ danger: true }}
+      cancelText="Cancel"
+      confirmLoading={loading}
+      width={560}
+      destroyOnHidden
+    >
+      {children.length === 0 ? (
+        <p className="mt-4">
+          Are you sure you want to delete this department?
+        </p>
+      ) : (
+        <div className="mt-4 flex flex-col gap-4">
+          <Alert
+            type="warning"
+            showIcon
+            title={`This department has ${children.length} sub-department${
+              children.length === 1 ? "" : "s"
+            }. Choose where they should move before it is deleted.`}
+          />
+          <div className="flex flex-wrap gap-1">
+            {children.map((child) => (
+              <Tag key={child.id}>{child.name || "-"}</Tag>
+            ))}
+          </div>
+          <div className="flex flex-col gap-1">
+            <Text className="text-sm font-medium text-gray-700">
+              Move sub-departments to
+            </Text>
+            <TreeSelect
+              size="large"
+              value={nextParentId ?? undefined}
+              onChange={(value?: string) => setNextParentId(value ?? null)}
+              placeholder="None (top-level)"
+              treeData={targetOptions}
+              treeDefaultExpandAll
+              allowClear
+              showSearch
+              treeNodeFilterProp="title"
+            />
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
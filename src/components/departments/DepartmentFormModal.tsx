@@ -0,0 +1,187 @@
+import { Modal, Form, Input, TreeSelect } from "antd";
+import { useEffect, useMemo } from "react";
+import type {
+  CreateDepartmentRequest,
+  DepartmentDto,
+  UpdateDepartmentRequest,
+} from "#src/openapi";
+import { buildDepartmentTree, collectDescendantIds } from "./departmentTree";
+import type { DepartmentTreeNode } from "./departmentTree";
+import { useApplyFieldErrors } from "#src/utils/api";
+
+interface DepartmentFormModalProps {
+  open: boolean;
+  onCancel: () => void;
+  onSubmit: (
+    values: CreateDepartmentRequest | UpdateDepartmentRequest,
+  ) => Promise<void>;
+  editingDepartment: DepartmentDto | null;
+  defaultParentId: string | null;
+  loading: boolean;
+  departments: DepartmentDto[];
+}
+
+interface FormValues {
+  name?: string;
+  description?: string;
+  parentId?: string;
+}
+
+interface ParentOption {
+  value: string;
+  title: string;
+  disabled: boolean;
+  children: ParentOption[];
+}
+
+const toParentOptions = (
+  nodes: DepartmentTreeNode[],
+  blockedIds: Set<string>,
+): ParentOption[] =>
+  nodes.map((node) => ({
+    value: node.key,
+    title: node.department.name || "-",
+    disabled: blockedIds.has(node.key),
+    children: toParentOptions(node.children, blockedIds),
+  }));
+
+export default function DepartmentFormModal({
+  open,
+  onCancel,
+  onSubmit,
+  editingDepartment,
+  defaultParentId,
+  loading,
+  departments,
+}: DepartmentFormModalProps) {
+  const [form] = Form.useForm<FormValues>();
+  const applyFieldErrors = useApplyFieldErrors();
+  const isEditing = !!editingDepartment;
+
+  // A department cannot become a child of itself or of its own descendants.
+  const parentOptions = useMemo(() => {
+    const blockedIds = new Set<string>();
+
+    if (editingDepartment?.id) {
+      blockedIds.add(editingDepartment.id);
+      collectDescendantIds(departments, editingDepartment.id).forEach((id) =>
+        blockedIds.add(id),
+      );
+    }
+
+    return toParentOptions(buildDepartmentTree(departments), blockedIds);
+  }, [departments, editingDepartment]);
+
+  useEffect(() => {
+    if (open) {
+      if (editingDepartment) {
+        form.setFieldsValue({
+          name: editingDepartment.name || undefined,
+          description: editingDepartment.description || undefined,
+          parentId: editingDepartment.parentId || undefined,
+        });
+      } else {
+        form.resetFields();
+        form.setFieldsValue({ parentId: defaultParentId || undefined });
+      }
+    }
+  }, [open, editingDepartment, defaultParentId, form]);
+
+  const handleSubmit = async () => {
+    try {
+      const values = await form.validateFields();
+
+      const submitData: CreateDepartmentRequest | UpdateDepartmentRequest = {
+        name: values.name || null,
+        description: values.description || null,
+        parentId: values.parentId || null,
+      };
+
+      await onSubmit(submitData);
+      form.resetFields();
+    } catch (error) {
+      if (!applyFieldErrors(form, error)) {
+        console.error("Form validation failed:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title={
+        <span className="text-xl font-semibold">
+          {isEditing ? "Edit Department" : "Create Department"}
+        </span>
+      }
+      open={open}
+      onOk={handleSubmit}
+      onCancel={handleCancel}
+      okText={isEditing ? "Update" : "Create"}
+      cancelText="Cancel"
+      confirmLoading={loading}
+      width={600}
+      destroyOnHidden
+    >
+      <Form form={form} layout="vertical" className="mt-4">
+        <Form.Item
+          label={
+            <label className="text-sm font-medium text-gray-700">Name</label>
+          }
+          name="name"
+          rules={[
+            { required: true, message: "Department name is required" },
+            { max: 100, message: "Name must not exceed 100 characters" },
+          ]}
+        >
+          <Input
+            placeholder="e.g., Service Workshop"
+            size="large"
+            className="rounded"
+          />
+        </Form.Item>
+
+        <Form.Item
+          label={
+            <label className="text-sm font-medium text-gray-700">
+              Parent Department
+            </label>
+          }
+          name="parentId"
+        >
+          <TreeSelect
+            size="large"
+            placeholder="None (top-level department)"
+            treeData={parentOptions}
+            treeDefaultExpandAll
+            allowClear
+            showSearch
+            treeNodeFilterProp="title"
+          />
+        </Form.Item>
+
+        <Form.Item
+          label={
+            <label className="text-sm font-medium text-gray-700">
+              Description
+            </label>
+          }
+          name="description"
+          rules={[
+            { max: 500, message: "Description must not exceed 500 characters" },
+          ]}
+        >
+          <Input.TextArea
+            placeholder="What this department is responsible for"
+            rows={3}
+            className="rounded"
+          />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+}
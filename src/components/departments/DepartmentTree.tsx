@@ -0,0 +1,161 @@
+import { useMemo } from "react";
+import { Button, Empty, Spin, Tooltip, Tree, Typography } from "antd";
+import type { TreeDataNode, TreeProps } from "antd";
+import { FolderPlus, SquarePen, Trash } from "lucide-react";
+import type { DepartmentDto } from "#src/openapi";
+import { buildDepartmentTree, wouldCreateCycle } from "./departmentTree";
+import type { DepartmentTreeNode } from "./departmentTree";
+import { Can } from "#src/components/auth";
+import { Permissions } from "#src/utils/permissions";
+
+const { Text } = Typography;
+
+interface DepartmentTreeProps {
+  departments: DepartmentDto[];
+  loading: boolean;
+  moving: boolean;
+  onEdit: (record: DepartmentDto) => void;
+  onAddChild: (record: DepartmentDto) => void;
+  onDelete: (record: DepartmentDto) => void;
+  onMove: (record: DepartmentDto, nextParentId: string | null) => void;
+  onRejectMove: (record: DepartmentDto) => void;
+}
+
+interface DepartmentDataNode extends TreeDataNode {
+  key: string;
+  department: DepartmentDto;
+  children: DepartmentDataNode[];
+}
+
+const toDataNodes = (nodes: DepartmentTreeNode[]): DepartmentDataNode[] =>
+  nodes.map((node) => ({
+    key: node.key,
+    department: node.department,
+    children: toDataNodes(node.children),
+  }));
+
+export default function DepartmentTree({
+  departments,
+  loading,
+  moving,
+  onEdit,
+  onAddChild,
+  onDelete,
+  onMove,
+  onRejectMove,
+}: DepartmentTreeProps) {
+  const treeData = useMemo(
+    () => toDataNodes(buildDepartmentTree(departments)),
+    [departments],
+  );
+
+  // Dropping on a node nests under it, dropping in a gap makes a sibling.
+  const resolveNextParentId = (dropNode: DepartmentDataNode, toGap: boolean) =>
+    toGap ? (dropNode.department.parentId ?? null) : dropNode.key;
+
+  const allowDrop: TreeProps<DepartmentDataNode>["allowDrop"] = ({
+    dragNode,
+    dropNode,
+    dropPosition,
+  }) =>
+    !wouldCreateCycle(
+      departments,
+      dragNode.key,
+      resolveNextParentId(dropNode, dropPosition !== 0),
+    );
+
+  const handleDrop: TreeProps<DepartmentDataNode>["onDrop"] = (info) => {
+    const dragged = info.dragNode.department;
+    const nextParentId = resolveNextParentId(info.node, info.dropToGap);
+
+    if (wouldCreateCycle(departments, info.dragNode.key, nextParentId)) {
+      onRejectMove(dragged);
+      return;
+    }
+
+    if ((dragged.parentId ?? null) === nextParentId) {
+      return;
+    }
+
+    onMove(dragged, nextParentId);
+  };
+
+  // Mount the tree only once data exists so `defaultExpandAll` applies.
+  if (treeData.length === 0) {
+    return (
+      <Spin spinning={loading}>
+        <Empty description="No departments yet" />
+      </Spin>
+    );
+  }
+
+  return (
+    <Spin spinning={loading || moving}>
+      <Tree<DepartmentDataNode>
+        treeData={treeData}
+        draggable={{ icon: false }}
+        blockNode
+        showLine
+        defaultExpandAll
+        allowDrop={allowDrop}
+        onDrop={handleDrop}
+        titleRender={(node) => (
+          <div className="flex items-center justify-between gap-4 py-1">
+            <div className="min-w-0">
+              <Text className="font-medium">
+                {node.department.name || "-"}
+              </Text>
+              {node.department.description && (
+                <Text type="secondary" className="ml-2 text-xs">
+                  {node.department.description}
+                </Text>
+              )}
+              {node.children.length > 0 && (
+                <Text type="secondary" className="ml-2 text-xs">
+                  ({node.children.length})
+                </Text>
+              )}
+            </div>
+            <div
+              className="flex gap-1"
+              onClick={(event) => event.stopPropagation()}
+            >
+              <Tooltip title="Add sub-department">
+                <Button
+                  type="link"
+                  size="small"
+                  onClick={() => onAddChild(node.department)}
+                  className="text-green-600 hover:text-green-700"
+                >
+                  <FolderPlus className="w-4 h-4" />
+                </Button>
+              </Tooltip>
+              <Tooltip title="Edit department">
+                <Button
+                  type="link"
+                  size="small"
+                  onClick={() => onEdit(node.department)}
+                  className="text-blue-600 hover:text-blue-700"
+                >
+                  <SquarePen className="w-4 h-4" />
+                </Button>
+              </Tooltip>
+              <Can permission={Permissions.Departments.Delete}>
+                <Tooltip title="Delete department">
+                  <Button
+                    type="link"
+                    size="small"
+                    danger
+                    onClick={() => onDelete(node.department)}
+                  >
+                    <Trash className="w-4 h-4" />
+                  </Button>
+                </Tooltip>
+              </Can>
+            </div>
+          </div>
+        )}
+      />
+    </Spin>
+  );
+}
@@ -0,0 +1,87 @@
+import type { DepartmentDto } from "#src/openapi";
+
+export interface DepartmentTreeNode {
+  key: string;
+  department: DepartmentDto;
+  children: DepartmentTreeNode[];
+}
+
+/**
+ * Builds the department hierarchy from the flat list returned by the API.
+ * Departments whose parent is missing from the list are treated as roots.
+ */
+export function buildDepartmentTree(
+  departments: DepartmentDto[],
+): DepartmentTreeNode[] {
+  const nodes = new Map<string, DepartmentTreeNode>();
+
+  departments.forEach((department) => {
+    if (department.id) {
+      nodes.set(department.id, {
+        key: department.id,
+        department,
+        children: [],
+      });
+    }
+  });
+
+  const roots: DepartmentTreeNode[] = [];
+
+  nodes.forEach((node) => {
+    const parentId = node.department.parentId;
+    const parent = parentId ? nodes.get(parentId) : undefined;
+
+    if (parent && parentId !== node.key) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+export function getChildDepartments(
+  departments: DepartmentDto[],
+  id: string,
+): DepartmentDto[] {
+  return departments.filter((department) => department.parentId === id);
+}
+
+/**
+ * Returns the ids of every department below `id`, walking the parent links.
+ */
+export function collectDescendantIds(
+  departments: DepartmentDto[],
+  id: string,
+): Set<string> {
+  const descendants = new Set<string>();
+  const queue = [id];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+
+    getChildDepartments(departments, current).forEach((child) => {
+      if (child.id && !descendants.has(child.id)) {
+        descendants.add(child.id);
+        queue.push(child.id);
+      }
+    });
+  }
+
+  return descendants;
+}
+
+/**
+ * A department cannot be moved under itself or any of its descendants.
+ */
+export function wouldCreateCycle(
+  departments: DepartmentDto[],
+  id: string,
+  nextParentId: string | null,
+): boolean {
+  if (!nextParentId) return false;
+  if (nextParentId === id) return true;
+
+  return collectDescendantIds(departments, id).has(nextParentId);
+}
@@ -0,0 +1,3 @@
+export { default as DepartmentTree } from "./DepartmentTree";
+export { default as DepartmentFormModal } from "./DepartmentFormModal";
+export { default as DepartmentDeleteModal } from "./DepartmentDeleteModal";
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Badge, Button, Modal } from "antd";
+import { SlidersHorizontal } from "lucide-react";
+import type { Filter } from "#src/openapi";
+import FilterBuilder from "./FilterBuilder";
+import { buildFilter, countConditions, parseFilter } from "./filterTree";
+import type { FilterFieldDefinition, FilterGroupNode } from "./filterTree";
+
+interface AdvancedFilterButtonProps {
+  fields: FilterFieldDefinition[];
+  value: Filter | undefined;
+  onChange: (filter: Filter | undefined) => void;
+  title?: string;
+}
+
+/**
+ * Button showing how many conditions are active. Opens the filter builder
+ * on a draft copy of `value`; nothing is emitted until "Apply".
+ *
+ * @example
+ * ```tsx
+ * <AdvancedFilterButton
+ *   fields={warehouseFilterFields}
+ *   value={crud.filter}
+ *   onChange={crud.setFilter}
+ * />
+ * ```
+ */
+export default function AdvancedFilterButton({
+  fields,
+  value,
+  onChange,
+  title = "Advanced filters",
+}: AdvancedFilterButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<FilterGroupNode>(() => parseFilter(value));
+  const activeCount = countConditions(value);
+
+  const handleOpen = () => {
+    setDraft(parseFilter(value));
+    setOpen(true);
+  };
+
+  const handleApply = () => {
+    onChange(buildFilter(draft, fields));
+    setOpen(false);
+  };
+
+  const handleClear = () => {
+    onChange(undefined);
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Badge count={activeCount} size="small">
+        <Button
+          icon={<SlidersHorizontal className="w-4 h-4" />}
+          onClick={handleOpen}
+          className="w-full"
+        >
+          {title}
+        </Button>
+      </Badge>
+
+      <Modal
+        title={<span className="text-xl font-semibold">{title}</span>}
+        open={open}
+        onCancel={() => setOpen(false)}
+        width={860}
+        destroyOnHidden
+        footer={[
+          <Button key="clear" onClick={handleClear}>
+            Clear
+          </Button>,
+          <Button key="cancel" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>,
+          <Button key="apply" type="primary" onClick={handleApply}>
+            Apply
+          </Button>,
+        ]}
+      >
+        <div className="mt-4">
+          <FilterBuilder fields={fields} value={draft} onChange={setDraft} />
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,285 @@
+import { Button, Input, InputNumber, Segmented, Select } from "antd";
+import { Plus, Trash, ListPlus } from "lucide-react";
+import {
+  changeConditionField,
+  changeConditionOperator,
+  createCondition,
+  createGroup,
+  operatorLabels,
+  operatorsByType,
+  updateNode,
+} from "./filterTree";
+import type {
+  FilterConditionNode,
+  FilterFieldDefinition,
+  FilterGroupNode,
+  FilterLogic,
+  FilterNode,
+  FilterRangeBound,
+  FilterValue,
+} from "./filterTree";
+
+/** Root group plus two levels of nested groups */
+const MAX_GROUP_DEPTH = 2;
+
+interface FilterBuilderProps {
+  fields: FilterFieldDefinition[];
+  value: FilterGroupNode;
+  onChange: (value: FilterGroupNode) => void;
+}
+
+interface ValueInputProps {
+  field: FilterFieldDefinition | undefined;
+  condition: FilterConditionNode;
+  onChange: (value: FilterValue) => void;
+}
+
+const toRange = (value: FilterValue): [FilterRangeBound, FilterRangeBound] =>
+  Array.isArray(value) ? value : [null, null];
+
+function ValueInput({ field, condition, onChange }: ValueInputProps) {
+  const { operator, value } = condition;
+
+  if (!field) {
+    return <Input disabled placeholder="Value" />;
+  }
+
+  if (operator === "between") {
+    const [min, max] = toRange(value);
+
+    if (field.type === "date") {
+      return (
+        <div className="flex gap-2">
+          <Input
+            type="date"
+            value={(min as string | null) ?? ""}
+            onChange={(event) => onChange([event.target.value || null, max])}
+          />
+          <Input
+            type="date"
+            value={(max as string | null) ?? ""}
+            onChange={(event) => onChange([min, event.target.value || null])}
+          />
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex gap-2">
+        <InputNumber
+          placeholder="Min"
+          value={min as number | null}
+          onChange={(next) => onChange([next, max])}
+          className="w-full!"
+        />
+        <InputNumber
+          placeholder="Max"
+          value={max as number | null}
+          onChange={(next) => onChange([min, next])}
+          className="w-full!"
+        />
+      </div>
+    );
+  }
+
+  switch (field.type) {
+    case "number":
+      return (
+        <InputNumber
+          placeholder="Value"
+          value={value as number | null}
+          onChange={(next) => onChange(next)}
+          className="w-full!"
+        />
+      );
+    case "boolean":
+      return (
+        <Select
+          value={value as boolean}
+          onChange={(next: boolean) => onChange(next)}
+          options={[
+            { label: "Yes", value: true },
+            { label: "No", value: false },
+          ]}
+        />
+      );
+    case "enum":
+      return (
+        <Select
+          placeholder="Select a value"
+          value={value as string | number | null}
+          onChange={(next: string | number) => onChange(next)}
+          options={field.options}
+          showSearch={{ optionFilterProp: "label" }}
+        />
+      );
+    case "date":
+      return (
+        <Input
+          type="date"
+          value={(value as string | null) ?? ""}
+          onChange={(event) => onChange(event.target.value || null)}
+        />
+      );
+    default:
+      return (
+        <Input
+          placeholder="Value"
+          value={(value as string | null) ?? ""}
+          onChange={(event) => onChange(event.target.value)}
+        />
+      );
+  }
+}
+
+/**
+ * Nested AND/OR editor for a `Filter` tree. Controlled: the parent keeps
+ * the tree and turns it into a `Filter` with `buildFilter` when applying.
+ */
+export default function FilterBuilder({
+  fields,
+  value,
+  onChange,
+}: FilterBuilderProps) {
+  const findField = (name: string) =>
+    fields.find((field) => field.name === name);
+
+  const update = (id: string, next: (node: FilterNode) => FilterNode | null) =>
+    onChange(updateNode(value, id, next));
+
+  const addChild = (group: FilterGroupNode, child: FilterNode) =>
+    update(group.id, (node) =>
+      node.kind === "group"
+        ? { ...node, children: [...node.children, child] }
+        : node,
+    );
+
+  const renderCondition = (condition: FilterConditionNode) => {
+    const field = findField(condition.field);
+    const operators = field ? operatorsByType[field.type] : [];
+
+    return (
+      <div key={condition.id} className="grid grid-cols-12 gap-2 items-start">
+        <Select
+          className="col-span-4"
+          placeholder="Field"
+          value={field ? condition.field : undefined}
+          onChange={(name: string) =>
+            update(condition.id, (node) =>
+              node.kind === "condition"
+                ? changeConditionField(node, findField(name)!, field)
+                : node,
+            )
+          }
+          options={fields.map((option) => ({
+            label: option.label,
+            value: option.name,
+          }))}
+        />
+        <Select
+          className="col-span-3"
+          value={condition.operator}
+          disabled={!field}
+          onChange={(operator) =>
+            update(condition.id, (node) =>
+              node.kind === "condition"
+                ? changeConditionOperator(node, operator)
+                : node,
+            )
+          }
+          options={operators.map((operator) => ({
+            label: operatorLabels[operator],
+            value: operator,
+          }))}
+        />
+        <div className="col-span-4">
+          <ValueInput
+            field={field}
+            condition={condition}
+            onChange={(next) =>
+              update(condition.id, (node) => ({ ...node, value: next }))
+            }
+          />
+        </div>
+        <Button
+          type="link"
+          danger
+          className="col-span-1"
+          aria-label="Remove condition"
+          onClick={() => update(condition.id, () => null)}
+        >
+          <Trash className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  };
+
+  const renderGroup = (group: FilterGroupNode, depth: number) => (
+    <div
+      key={group.id}
+      className={`flex flex-col gap-3${
+        depth > 0 ? " border-l-2 border-blue-200 pl-3 py-1" : ""
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <Segmented<FilterLogic>
+          size="small"
+          value={group.logic}
+          onChange={(logic) =>
+            update(group.id, (node) => ({ ...node, logic }) as FilterNode)
+          }
+          options={[
+            { label: "Match all (AND)", value: "and" },
+            { label: "Match any (OR)", value: "or" },
+          ]}
+        />
+        {depth > 0 && (
+          <Button
+            type="link"
+            danger
+            size="small"
+            onClick={() => update(group.id, () => null)}
+          >
+            Remove group
+          </Button>
+        )}
+      </div>
+
+      {group.children.length === 0 && (
+        <p className="text-sm text-gray-500">
+          No conditions yet. Add one below.
+        </p>
+      )}
+
+      {group.children.map((child) =>
+        child.kind === "group"
+          ? renderGroup(child, depth + 1)
+          : renderCondition(child),
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          size="small"
+          icon={<Plus className="w-4 h-4" />}
+          disabled={fields.length === 0}
+          onClick={() => addChild(group, createCondition(fields[0]))}
+        >
+          Add condition
+        </Button>
+        {depth < MAX_GROUP_DEPTH && (
+          <Button
+            size="small"
+            icon={<ListPlus className="w-4 h-4" />}
+            onClick={() =>
+              addChild(group, createGroup(group.logic === "and" ? "or" : "and"))
+            }
+          >
+            Add group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return renderGroup(value, 0);
+}
@@ -0,0 +1,333 @@
+import type { Filter } from "#src/openapi";
+
+export type FilterFieldType = "number" | "string" | "boolean" | "enum" | "date";
+
+export type FilterLogic = "and" | "or";
+
+/**
+ * Operators understood by the backend, plus `between` which the builder
+ * expands into a `gte` + `lte` pair before sending.
+ */
+export type FilterOperator =
+  | "eq"
+  | "neq"
+  | "lt"
+  | "lte"
+  | "gt"
+  | "gte"
+  | "contains"
+  | "startswith"
+  | "endswith"
+  | "between";
+
+/**
+ * One filterable property of an entity
+ */
+export interface FilterFieldDefinition {
+  /** Property name as the API expects it, e.g. "retailPrice" */
+  name: string;
+  label: string;
+  type: FilterFieldType;
+  /** Enum fields only */
+  options?: { label: string; value: string | number }[];
+}
+
+/** Numbers for number ranges, `YYYY-MM-DD` strings for date ranges */
+export type FilterRangeBound = number | string | null;
+
+export type FilterValue =
+  | string
+  | number
+  | boolean
+  | [FilterRangeBound, FilterRangeBound]
+  | null;
+
+export interface FilterConditionNode {
+  id: string;
+  kind: "condition";
+  field: string;
+  operator: FilterOperator;
+  value: FilterValue;
+}
+
+export interface FilterGroupNode {
+  id: string;
+  kind: "group";
+  logic: FilterLogic;
+  children: FilterNode[];
+}
+
+export type FilterNode = FilterConditionNode | FilterGroupNode;
+
+export const operatorLabels: Record<FilterOperator, string> = {
+  eq: "equals",
+  neq: "does not equal",
+  lt: "less than",
+  lte: "at most",
+  gt: "greater than",
+  gte: "at least",
+  contains: "contains",
+  startswith: "starts with",
+  endswith: "ends with",
+  between: "between",
+};
+
+export const operatorsByType: Record<FilterFieldType, FilterOperator[]> = {
+  number: ["between", "eq", "neq", "gt", "gte", "lt", "lte"],
+  string: ["contains", "eq", "neq", "startswith", "endswith"],
+  boolean: ["eq"],
+  enum: ["eq", "neq"],
+  date: ["between", "eq", "gt", "gte", "lt", "lte"],
+};
+
+let nodeSequence = 0;
+
+const nextNodeId = () => `filter-node-${++nodeSequence}`;
+
+const defaultValue = (type: FilterFieldType | undefined): FilterValue =>
+  type === "boolean" ? true : null;
+
+export function createGroup(logic: FilterLogic = "and"): FilterGroupNode {
+  return { id: nextNodeId(), kind: "group", logic, children: [] };
+}
+
+export function createCondition(
+  field: FilterFieldDefinition,
+): FilterConditionNode {
+  return {
+    id: nextNodeId(),
+    kind: "condition",
+    field: field.name,
+    operator: operatorsByType[field.type][0],
+    value: defaultValue(field.type),
+  };
+}
+
+/**
+ * Resets the operator and value when a condition moves to a field of a
+ * different type, so a number range never ends up on a string field.
+ */
+export function changeConditionField(
+  condition: FilterConditionNode,
+  field: FilterFieldDefinition,
+  previous: FilterFieldDefinition | undefined,
+): FilterConditionNode {
+  if (previous?.type === field.type) {
+    return { ...condition, field: field.name };
+  }
+
+  return { ...createCondition(field), id: condition.id };
+}
+
+export function changeConditionOperator(
+  condition: FilterConditionNode,
+  operator: FilterOperator,
+): FilterConditionNode {
+  const wasRange = condition.operator === "between";
+  const isRange = operator === "between";
+
+  return {
+    ...condition,
+    operator,
+    value: wasRange === isRange ? condition.value : null,
+  };
+}
+
+/**
+ * Returns a copy of `root` with the node `id` replaced by `update(node)`.
+ * Returning `null` from `update` removes the node.
+ */
+export function updateNode(
+  root: FilterGroupNode,
+  id: string,
+  update: (node: FilterNode) => FilterNode | null,
+): FilterGroupNode {
+  const visit = (node: FilterNode): FilterNode | null => {
+    if (node.id === id) {
+      return update(node);
+    }
+    if (node.kind === "group") {
+      return {
+        ...node,
+        children: node.children
+          .map(visit)
+          .filter((child): child is FilterNode => child !== null),
+      };
+    }
+    return node;
+  };
+
+  return (visit(root) as FilterGroupNode | null) ?? createGroup(root.logic);
+}
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || value === "";
+
+const buildCondition = (
+  condition: FilterConditionNode,
+  fields: FilterFieldDefinition[],
+): Filter | undefined => {
+  const definition = fields.find((field) => field.name === condition.field);
+  if (!definition) {
+    return undefined;
+  }
+
+  if (condition.operator === "between") {
+    const [min, max] = Array.isArray(condition.value)
+      ? condition.value
+      : [null, null];
+    const bounds: Filter[] = [];
+
+    if (!isBlank(min)) {
+      bounds.push({ field: condition.field, operator: "gte", value: min });
+    }
+    if (!isBlank(max)) {
+      bounds.push({ field: condition.field, operator: "lte", value: max });
+    }
+
+    if (bounds.length === 0) {
+      return undefined;
+    }
+    return bounds.length === 1 ? bounds[0] : { logic: "and", filters: bounds };
+  }
+
+  if (isBlank(condition.value) || Array.isArray(condition.value)) {
+    return undefined;
+  }
+
+  return {
+    field: condition.field,
+    operator: condition.operator,
+    value: condition.value,
+  };
+};
+
+/**
+ * Turns the builder tree into the `advanceFilter` of a `Search*Request`.
+ * Incomplete conditions and empty groups are dropped and single-child
+ * groups are flattened; returns `undefined` when nothing is left.
+ */
+export function buildFilter(
+  node: FilterNode,
+  fields: FilterFieldDefinition[],
+): Filter | undefined {
+  if (node.kind === "condition") {
+    return buildCondition(node, fields);
+  }
+
+  const filters = node.children
+    .map((child) => buildFilter(child, fields))
+    .filter((filter): filter is Filter => filter !== undefined);
+
+  if (filters.length === 0) {
+    return undefined;
+  }
+  if (filters.length === 1) {
+    return filters[0];
+  }
+  return { logic: node.logic, filters };
+}
+
+const toLogic = (logic: string | null | undefined): FilterLogic =>
+  logic?.toLowerCase() === "or" ? "or" : "and";
+
+const toOperator = (operator: string | null | undefined): FilterOperator => {
+  const normalized = operator?.toLowerCase();
+  return normalized && normalized in operatorLabels
+    ? (normalized as FilterOperator)
+    : "eq";
+};
+
+/**
+ * `[min, max]` when `filter` is the `and` of a `gte` and an `lte` on one
+ * field, which is how `buildCondition` sends a two-sided `between`
+ */
+const parseRange = (
+  filter: Filter,
+): { field: string; value: [FilterRangeBound, FilterRangeBound] } | null => {
+  const [first, second] = filter.filters ?? [];
+  if (
+    toLogic(filter.logic) !== "and" ||
+    filter.filters?.length !== 2 ||
+    !first.field ||
+    first.field !== second.field
+  ) {
+    return null;
+  }
+
+  const operators = [toOperator(first.operator), toOperator(second.operator)];
+  const min = operators.indexOf("gte");
+  const max = operators.indexOf("lte");
+  if (min === -1 || max === -1) {
+    return null;
+  }
+
+  const bounds = [first, second].map(
+    (bound) => (bound.value ?? null) as FilterRangeBound,
+  );
+  return { field: first.field, value: [bounds[min], bounds[max]] };
+};
+
+const parseNode = (filter: Filter): FilterNode => {
+  const range = parseRange(filter);
+  if (range) {
+    return {
+      id: nextNodeId(),
+      kind: "condition",
+      field: range.field,
+      operator: "between",
+      value: range.value,
+    };
+  }
+
+  if (filter.filters?.length) {
+    return {
+      ...createGroup(toLogic(filter.logic)),
+      children: filter.filters.map(parseNode),
+    };
+  }
+
+  return {
+    id: nextNodeId(),
+    kind: "condition",
+    field: filter.field ?? "",
+    operator: toOperator(filter.operator),
+    value: (filter.value ?? null) as FilterValue,
+  };
+};
+
+/**
+ * Loads an existing `Filter` back into an editable tree, turning `gte` +
+ * `lte` pairs back into `between` so `buildFilter` gives the same filter.
+ * The root is always a group so the builder has somewhere to add
+ * conditions.
+ */
+export function parseFilter(
+  filter: Filter | null | undefined,
+): FilterGroupNode {
+  if (!filter) {
+    return createGroup();
+  }
+
+  const node = parseNode(filter);
+  if (node.kind === "group") {
+    return node;
+  }
+  return { ...createGroup(), children: [node] };
+}
+
+/**
+ * Number of conditions that will actually be sent
+ */
+export function countConditions(filter: Filter | null | undefined): number {
+  if (!filter) {
+    return 0;
+  }
+  if (filter.filters?.length) {
+    return filter.filters.reduce(
+      (total, child) => total + countConditions(child),
+      0,
+    );
+  }
+  return filter.field ? 1 : 0;
+}
@@ -0,0 +1,10 @@
+export { default as FilterBuilder } from "./FilterBuilder";
+export { default as AdvancedFilterButton } from "./AdvancedFilterButton";
+export {
+  buildFilter,
+  parseFilter,
+  countConditions,
+  type FilterFieldDefinition,
+  type FilterFieldType,
+  type FilterGroupNode,
+} from "./filterTree";
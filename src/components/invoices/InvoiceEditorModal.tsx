@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import { Button, Form, Input, InputNumber, Modal, Select } from "antd";
+import { Plus, Trash } from "lucide-react";
+import type {
+  CreateInvoiceItemRequest,
+  CreateInvoiceRequest,
+  ProductDto,
+} from "#src/openapi";
+import { CustomerSelect } from "#src/components/customers";
+import { useProductQuery } from "#src/hooks/product";
+import { useApplyFieldErrors } from "#src/utils/api";
+
+export interface InvoiceEditorValues {
+  invoice: CreateInvoiceRequest;
+  items: Omit<CreateInvoiceItemRequest, "invoiceId">[];
+}
+
+interface InvoiceEditorModalProps {
+  open: boolean;
+  onCancel: () => void;
+  onSubmit: (values: InvoiceEditorValues) => Promise<void>;
+  loading: boolean;
+}
+
+interface InvoiceLineValues {
+  productId?: string;
+  quantity?: number;
+  unitPrice?: number;
+}
+
+interface FormValues {
+  customerId?: string;
+  saleDate?: string;
+  taxRate?: number;
+  items?: InvoiceLineValues[];
+}
+
+const DEFAULT_TAX_RATE = 10;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const todayDateInput = () => new Date().toISOString().slice(0, 10);
+
+const calculateTotals = (
+  items: InvoiceLineValues[] | undefined,
+  taxRate: number | undefined,
+) => {
+  const subtotal = roundMoney(
+    (items ?? []).reduce(
+      (sum, item) => sum + (item?.quantity ?? 0) * (item?.unitPrice ?? 0),
+      0,
+    ),
+  );
+  const taxAmount = roundMoney((subtotal * (taxRate ?? 0)) / 100);
+
+  return {
+    subtotal,
+    taxAmount,
+    totalAmount: roundMoney(subtotal + taxAmount),
+  };
+};
+
+export default function InvoiceEditorModal({
+  open,
+  onCancel,
+  onSubmit,
+  loading,
+}: InvoiceEditorModalProps) {
+  const [form] = Form.useForm<FormValues>();
+  const applyFieldErrors = useApplyFieldErrors();
+  const [productKeyword, setProductKeyword] = useState("");
+  const [pickedProducts, setPickedProducts] = useState<
+    Record<string, ProductDto>
+  >({});
+
+  const trimmedKeyword = productKeyword.trim();
+  const { data: productsResult, isLoading: isLoadingProducts } =
+    useProductQuery({
+      pageNumber: 1,
+      pageSize: 20,
+      advanceSearches: trimmedKeyword
+        ? { fields: ["partNumber", "name"], keyword: trimmedKeyword }
+        : undefined,
+    });
+
+  const watchedItems = Form.useWatch("items", form);
+  const watchedTaxRate = Form.useWatch("taxRate", form);
+  const totals = calculateTotals(watchedItems, watchedTaxRate);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+    }
+  }, [open, form]);
+
+  // Keep already-picked products selectable even when they drop out of the
+  // current search results.
+  const productOptions = [
+    ...Object.values(pickedProducts),
+    ...(productsResult?.data ?? []).filter(
+      (product) => !product.id || !pickedProducts[product.id],
+    ),
+  ].map((product) => ({
+    value: product.id,
+    label: `${product.partNumber ?? "-"} — ${product.name ?? ""}`,
+  }));
+
+  const handleProductChange = (lineIndex: number, productId: string) => {
+    const product =
+      pickedProducts[productId] ??
+      productsResult?.data?.find((item) => item.id === productId);
+
+    if (!product) {
+      return;
+    }
+
+    setPickedProducts((prev) => ({ ...prev, [productId]: product }));
+    form.setFieldValue(
+      ["items", lineIndex, "unitPrice"],
+      product.retailPrice ?? product.unitCost ?? 0,
+    );
+  };
+
+  const handleSubmit = async () => {
+    try {
+      const values = await form.validateFields();
+      const { taxAmount, totalAmount } = calculateTotals(
+        values.items,
+        values.taxRate,
+      );
+
+      await onSubmit({
+        invoice: {
+          customerId: values.customerId,
+          saleDate: values.saleDate
+            ? new Date(values.saleDate).toISOString()
+            : null,
+          taxAmount,
+          totalAmount,
+        },
+        items: (values.items ?? []).map((item) => ({
+          productId: item.productId,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+        })),
+      });
+      form.resetFields();
+    } catch (error) {
+      if (!applyFieldErrors(form, error)) {
+        console.error("Form validation failed:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title={<span className="text-xl font-semibold">Create Invoice</span>}
+      open={open}
+      onOk={handleSubmit}
+      onCancel={handleCancel}
+      okText="Create"
+      cancelText="Cancel"
+      confirmLoading={loading}
+      width={900}
+      destroyOnHidden
+    >
+      <Form
+        form={form}
+        layout="vertical"
+        className="mt-4"
+        initialValues={{
+          saleDate: todayDateInput(),
+          taxRate: DEFAULT_TAX_RATE,
+          items: [{ quantity: 1 }],
+        }}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Form.Item
+            label={
+              <label className="text-sm font-medium text-gray-700">
+                Customer
+              </label>
+            }
+            name="customerId"
+            rules={[{ required: true, message: "Customer is required" }]}
+          >
+            <CustomerSelect
+              size="large"
+              placeholder="Search by name, email or phone"
+            />
+          </Form.Item>
+
+          <Form.Item
+            label={
+              <label className="text-sm font-medium text-gray-700">
+                Sale Date
+              </label>
+            }
+            name="saleDate"
+            rules={[{ required: true, message: "Sale date is required" }]}
+          >
+            <Input type="date" size="large" className="rounded" />
+          </Form.Item>
+
+          <Form.Item
+            label={
+              <label className="text-sm font-medium text-gray-700">
+                Tax Rate (%)
+              </label>
+            }
+            name="taxRate"
+            rules={[
+              {
+                type: "number",
+                min: 0,
+                max: 100,
+                message: "Tax rate must be between 0 and 100",
+              },
+            ]}
+          >
+            <InputNumber
+              size="large"
+              min={0}
+              max={100}
+              precision={2}
+              className="w-full rounded"
+            />
+          </Form.Item>
+        </div>
+
+        <Form.List
+          name="items"
+          rules={[
+            {
+              validator: async (_, items?: InvoiceLineValues[]) => {
+                if (!items || items.length === 0) {
+                  return Promise.reject(
+                    new Error("Add at least one line item"),
+                  );
+                }
+              },
+            },
+          ]}
+        >
+          {(fields, { add, remove }, { errors }) => (
+            <div className="flex flex-col gap-2">
+              <div className="grid grid-cols-12 gap-2 text-sm font-medium text-gray-700">
+                <span className="col-span-6">Product</span>
+                <span className="col-span-2">Quantity</span>
+                <span className="col-span-3">Unit Price</span>
+              </div>
+
+              {fields.map(({ key, name }) => (
+                <div key={key} className="grid grid-cols-12 gap-2 items-start">
+                  <Form.Item
+                    name={[name, "productId"]}
+                    className="col-span-6 mb-0!"
+                    rules={[{ required: true, message: "Pick a product" }]}
+                  >
+                    <Select
+                      placeholder="Search by part number or name"
+                      options={productOptions}
+                      showSearch
+                      filterOption={false}
+                      onSearch={setProductKeyword}
+                      onChange={(productId: string) =>
+                        handleProductChange(name, productId)
+                      }
+                      loading={isLoadingProducts}
+                    />
+                  </Form.Item>
+
+                  <Form.Item
+                    name={[name, "quantity"]}
+                    className="col-span-2 mb-0!"
+                    rules={[
+                      { required: true, message: "Required" },
+                      { type: "number", min: 1, message: "At least 1" },
+                    ]}
+                  >
+                    <InputNumber min={1} precision={0} className="w-full" />
+                  </Form.Item>
+
+                  <Form.Item
+                    name={[name, "unitPrice"]}
+                    className="col-span-3 mb-0!"
+                    rules={[
+                      { required: true, message: "Required" },
+                      { type: "number", min: 0, message: "At least 0" },
+                    ]}
+                  >
+                    <InputNumber min={0} precision={2} className="w-full" />
+                  </Form.Item>
+
+                  <Button
+                    type="link"
+                    danger
+                    className="col-span-1"
+                    onClick={() => remove(name)}
+                    disabled={fields.length === 1}
+                  >
+                    <Trash className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <Form.ErrorList errors={errors} />
+
+              <Button
+                type="dashed"
+                onClick={() => add({ quantity: 1 })}
+                icon={<Plus className="w-4 h-4" />}
+              >
+                Add line item
+              </Button>
+            </div>
+          )}
+        </Form.List>
+
+        <div className="mt-6 ml-auto w-64 flex flex-col gap-1 text-sm">
+          <div className="flex justify-between text-gray-600">
+            <span>Subtotal</span>
+            <span>${totals.subtotal.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between text-gray-600">
+            <span>Tax</span>
+            <span>${totals.taxAmount.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between font-semibold text-gray-900 border-t pt-1">
+            <span>Total</span>
+            <span>${totals.totalAmount.toFixed(2)}</span>
+          </div>
+        </div>
+      </Form>
+    </Modal>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { Button, Popconfirm, Table, Typography } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { Trash } from "lucide-react";
+import type { InvoiceDto, InvoiceItemDto, ProductDto } from "#src/openapi";
+import { useCustomersByIds } from "#src/hooks/customers";
+import { useInvoiceItemsByInvoice } from "#src/hooks/invoices";
+import { useProductsByIds } from "#src/hooks/product";
+import { Can } from "#src/components/auth";
+import { Permissions } from "#src/utils/permissions";
+
+const { Text } = Typography;
+
+interface InvoiceTableProps {
+  data: InvoiceDto[];
+  loading: boolean;
+  onDelete: (id: string) => void;
+  deleting: boolean;
+  currentPage: number;
+  pageSize: number;
+  total: number;
+  onPaginationChange: (page: number, pageSize: number) => void;
+}
+
+const formatMoney = (value: number | null | undefined) =>
+  `$${(value ?? 0).toFixed(2)}`;
+
+const formatDate = (value: string | null | undefined) => {
+  if (!value) return "-";
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString();
+};
+
+function ProductCell({
+  product,
+  isLoading,
+}: {
+  product: ProductDto | undefined;
+  isLoading: boolean;
+}) {
+  if (isLoading) {
+    return <Text type="secondary">Loading...</Text>;
+  }
+
+  return (
+    <span>
+      <Text className="font-mono text-sm">{product?.partNumber || "-"}</Text>{" "}
+      <Text className="text-gray-600">{product?.name || ""}</Text>
+    </span>
+  );
+}
+
+function ExpandedItemsTable({ invoiceId }: { invoiceId: string }) {
+  const { data: itemsResult, isLoading } = useInvoiceItemsByInvoice(invoiceId);
+  const items = itemsResult?.data || [];
+  // One lookup for every product on the invoice instead of one per line
+  const { data: products, isLoading: loadingProducts } = useProductsByIds(
+    items.flatMap((item) => (item.productId ? [item.productId] : [])),
+  );
+
+  // Show loader while line items are in flight for the expanded row.
+  if (isLoading) {
+    return (
+      <div className="p-4 text-center text-gray-500">
+        Loading invoice items...
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="p-4 text-center text-gray-500">
+        No items found on this invoice
+      </div>
+    );
+  }
+
+  const columns: ColumnsType<InvoiceItemDto> = [
+    {
+      title: "Product",
+      dataIndex: "productId",
+      key: "productId",
+      render: (productId: string | undefined) =>
+        productId ? (
+          <ProductCell
+            product={products?.get(productId)}
+            isLoading={loadingProducts}
+          />
+        ) : (
+          "-"
+        ),
+    },
+    {
+      title: "Quantity",
+      dataIndex: "quantity",
+      key: "quantity",
+      width: 100,
+      align: "right",
+      render: (value: number | undefined) => <Text>{value ?? 0}</Text>,
+    },
+    {
+      title: "Unit Price",
+      dataIndex: "unitPrice",
+      key: "unitPrice",
+      width: 120,
+      align: "right",
+      render: (value: number | undefined) => (
+        <span className="text-gray-700">{formatMoney(value)}</span>
+      ),
+    },
+    {
+      title: "Line Total",
+      key: "lineTotal",
+      width: 120,
+      align: "right",
+      render: (_, record) => (
+        <span className="font-semibold text-gray-700">
+          {formatMoney((record.quantity ?? 0) * (record.unitPrice ?? 0))}
+        </span>
+      ),
+    },
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={items}
+      rowKey="id"
+      pagination={false}
+      size="small"
+      className="ml-8"
+    />
+  );
+}
+
+export default function InvoiceTable({
+  data,
+  loading,
+  onDelete,
+  deleting,
+  currentPage,
+  pageSize,
+  total,
+  onPaginationChange,
+}: InvoiceTableProps) {
+  const [expandedRowKeys, setExpandedRowKeys] = useState<string[]>([]);
+  // Names for the customers on this page only
+  const { data: customers, isLoading: loadingCustomers } = useCustomersByIds(
+    data.flatMap((invoice) => (invoice.customerId ? [invoice.customerId] : [])),
+  );
+
+  const expandedRowRender = (record: InvoiceDto) => {
+    if (!record.id) {
+      return null;
+    }
+
+    return <ExpandedItemsTable invoiceId={record.id} />;
+  };
+
+  const columns: ColumnsType<InvoiceDto> = [
+    {
+      title: "Sale Date",
+      dataIndex: "saleDate",
+      key: "saleDate",
+      width: 140,
+      render: (value: string | null | undefined) => (
+        <Text>{formatDate(value)}</Text>
+      ),
+    },
+    {
+      title: "Customer",
+      dataIndex: "customerId",
+      key: "customerId",
+      width: 220,
+      render: (customerId: string | undefined) => {
+        if (customerId && loadingCustomers) {
+          return <Text type="secondary">Loading...</Text>;
+        }
+
+        const customer = customerId ? customers?.get(customerId) : undefined;
+        return <Text className="font-medium">{customer?.name || "-"}</Text>;
+      },
+    },
+    {
+      title: "Tax",
+      dataIndex: "taxAmount",
+      key: "taxAmount",
+      width: 120,
+      align: "right",
+      render: (value: number | null | undefined) => (
+        <span className="text-gray-700">{formatMoney(value)}</span>
+      ),
+    },
+    {
+      title: "Total",
+      dataIndex: "totalAmount",
+      key: "totalAmount",
+      width: 140,
+      align: "right",
+      render: (value: number | null | undefined) => (
+        <span className="font-semibold text-gray-700">
+          {formatMoney(value)}
+        </span>
+      ),
+    },
+    {
+      title: "Actions",
+      key: "actions",
+      width: 100,
+      fixed: "right",
+      render: (_, record) => (
+        <Can permission={Permissions.Invoices.Delete}>
+          <Popconfirm
+            title="Delete Invoice"
+            description="Are you sure you want to delete this invoice?"
+            onConfirm={() => onDelete(record.id!)}
+            okText="Yes"
+            cancelText="No"
+            okButtonProps={{ danger: true, loading: deleting }}
+          >
+            <Button type="link" danger loading={deleting}>
+              <Trash className="w-4 h-4" />
+            </Button>
+          </Popconfirm>
+        </Can>
+      ),
+    },
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={data}
+      rowKey="id"
+      loading={loading}
+      expandable={{
+        expandedRowRender,
+        expandedRowKeys,
+        onExpandedRowsChange: (keys) => setExpandedRowKeys(keys as string[]),
+      }}
+      pagination={{
+        current: currentPage,
+        pageSize,
+        total,
+        showSizeChanger: true,
+        onChange: onPaginationChange,
+        showTotal: (count, range) =>
+          `${range[0]}-${range[1]} of ${count} items`,
+      }}
+      className="bg-white rounded-lg shadow"
+      scroll={{ x: 800 }}
+    />
+  );
+}
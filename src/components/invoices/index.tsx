@@ -0,0 +1,3 @@
+export { default as InvoiceTable } from "./InvoiceTable";
+export { default as InvoiceEditorModal } from "./InvoiceEditorModal";
+export type { InvoiceEditorValues } from "./InvoiceEditorModal";
@@ -0,0 +1,179 @@
+import { Modal, Form, Input, InputNumber, Select } from "antd";
+import { useEffect } from "react";
+import type { JobPosition } from "#src/apis/jobpositios";
+import type {
+  AccessLevel,
+  CreateJobPositionRequest,
+  UpdateJobPositionRequest,
+} from "#src/openapi";
+import { accessLevelOptions } from "#src/utils/enums";
+import { useApplyFieldErrors } from "#src/utils/api";
+
+interface JobPositionFormModalProps {
+  open: boolean;
+  onCancel: () => void;
+  onSubmit: (
+    values: CreateJobPositionRequest | UpdateJobPositionRequest,
+  ) => Promise<void>;
+  editingJobPosition: JobPosition | null;
+  loading: boolean;
+}
+
+interface FormValues {
+  title?: string;
+  description?: string;
+  salary?: number;
+  accessLevel?: AccessLevel;
+}
+
+export default function JobPositionFormModal({
+  open,
+  onCancel,
+  onSubmit,
+  editingJobPosition,
+  loading,
+}: JobPositionFormModalProps) {
+  const [form] = Form.useForm<FormValues>();
+  const applyFieldErrors = useApplyFieldErrors();
+  const isEditing = !!editingJobPosition;
+
+  useEffect(() => {
+    if (open) {
+      if (editingJobPosition) {
+        form.setFieldsValue({
+          title:
+            editingJobPosition.title || editingJobPosition.name || undefined,
+          description: editingJobPosition.description || undefined,
+          salary: editingJobPosition.salary ?? undefined,
+          accessLevel: editingJobPosition.accessLevel,
+        });
+      } else {
+        form.resetFields();
+      }
+    }
+  }, [open, editingJobPosition, form]);
+
+  const handleSubmit = async () => {
+    try {
+      const values = await form.validateFields();
+
+      const submitData: CreateJobPositionRequest | UpdateJobPositionRequest = {
+        title: values.title || null,
+        description: values.description || null,
+        salary: values.salary,
+        accessLevel: values.accessLevel,
+      };
+
+      await onSubmit(submitData);
+      form.resetFields();
+    } catch (error) {
+      if (!applyFieldErrors(form, error)) {
+        console.error("Form validation failed:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title={
+        <span className="text-xl font-semibold">
+          {isEditing ? "Edit Job Position" : "Create Job Position"}
+        </span>
+      }
+      open={open}
+      onOk={handleSubmit}
+      onCancel={handleCancel}
+      okText={isEditing ? "Update" : "Create"}
+      cancelText="Cancel"
+      confirmLoading={loading}
+      width={640}
+      destroyOnHidden
+    >
+      <Form form={form} layout="vertical" className="mt-4">
+        <Form.Item
+          label={
+            <label className="text-sm font-medium text-gray-700">Title</label>
+          }
+          name="title"
+          rules={[
+            { required: true, message: "Title is required" },
+            { max: 100, message: "Title must not exceed 100 characters" },
+          ]}
+        >
+          <Input
+            placeholder="e.g., Senior Mechanic"
+            size="large"
+            className="rounded"
+          />
+        </Form.Item>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Form.Item
+            label={
+              <label className="text-sm font-medium text-gray-700">
+                Salary
+              </label>
+            }
+            name="salary"
+            rules={[
+              { required: true, message: "Salary is required" },
+              {
+                type: "number",
+                min: 0,
+                message: "Salary must be a positive number",
+              },
+            ]}
+          >
+            <InputNumber
+              placeholder="0.00"
+              size="large"
+              min={0}
+              precision={2}
+              prefix="$"
+              className="w-full rounded"
+            />
+          </Form.Item>
+
+          <Form.Item
+            label={
+              <label className="text-sm font-medium text-gray-700">
+                Access Level
+              </label>
+            }
+            name="accessLevel"
+            rules={[{ required: true, message: "Access level is required" }]}
+          >
+            <Select
+              size="large"
+              placeholder="Select access level"
+              options={accessLevelOptions}
+            />
+          </Form.Item>
+        </div>
+
+        <Form.Item
+          label={
+            <label className="text-sm font-medium text-gray-700">
+              Description
+            </label>
+          }
+          name="description"
+          rules={[
+            { max: 500, message: "Description must not exceed 500 characters" },
+          ]}
+        >
+          <Input.TextArea
+            placeholder="Responsibilities of this position"
+            rows={3}
+            className="rounded"
+          />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+}
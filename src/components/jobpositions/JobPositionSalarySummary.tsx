@@ -0,0 +1,130 @@
+import { useMemo } from "react";
+import { Card, Table, Tag, Typography } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import type { JobPosition } from "#src/apis/jobpositios";
+import { AccessLevel } from "#src/openapi";
+import { accessLevelColors, getAccessLevelLabel } from "#src/utils/enums";
+
+const { Text } = Typography;
+
+interface JobPositionSalarySummaryProps {
+  data: JobPosition[];
+  loading: boolean;
+}
+
+interface SalaryBand {
+  accessLevel: AccessLevel;
+  count: number;
+  min: number | null;
+  max: number | null;
+  average: number | null;
+}
+
+const formatSalary = (value: number | null) =>
+  value === null ? (
+    <Text type="secondary">-</Text>
+  ) : (
+    <span className="font-semibold text-gray-700">${value.toFixed(2)}</span>
+  );
+
+/**
+ * Salary min/max/average per access level for the positions on the
+ * current page only; positions without a salary are skipped. There is no
+ * server-side aggregate, so this is labelled as a page summary rather
+ * than a total.
+ */
+export default function JobPositionSalarySummary({
+  data,
+  loading,
+}: JobPositionSalarySummaryProps) {
+  const bands = useMemo<SalaryBand[]>(
+    () =>
+      (Object.values(AccessLevel) as AccessLevel[]).map((accessLevel) => {
+        const salaries = data
+          .filter((position) => position.accessLevel === accessLevel)
+          .map((position) => position.salary)
+          .filter((salary): salary is number => typeof salary === "number");
+
+        if (salaries.length === 0) {
+          return {
+            accessLevel,
+            count: 0,
+            min: null,
+            max: null,
+            average: null,
+          };
+        }
+
+        return {
+          accessLevel,
+          count: salaries.length,
+          min: Math.min(...salaries),
+          max: Math.max(...salaries),
+          average:
+            salaries.reduce((sum, salary) => sum + salary, 0) / salaries.length,
+        };
+      }),
+    [data],
+  );
+
+  const columns: ColumnsType<SalaryBand> = [
+    {
+      title: "Access Level",
+      dataIndex: "accessLevel",
+      key: "accessLevel",
+      render: (value: AccessLevel) => (
+        <Tag color={accessLevelColors[value]}>
+          {getAccessLevelLabel(value)}
+        </Tag>
+      ),
+    },
+    {
+      title: "Positions",
+      dataIndex: "count",
+      key: "count",
+      align: "right",
+    },
+    {
+      title: "Min",
+      dataIndex: "min",
+      key: "min",
+      align: "right",
+      render: formatSalary,
+    },
+    {
+      title: "Max",
+      dataIndex: "max",
+      key: "max",
+      align: "right",
+      render: formatSalary,
+    },
+    {
+      title: "Average",
+      dataIndex: "average",
+      key: "average",
+      align: "right",
+      render: formatSalary,
+    },
+  ];
+
+  return (
+    <Card
+      title="Salary bands by access level (this page)"
+      className="mb-6! shadow-sm"
+      size="small"
+    >
+      <Table
+        columns={columns}
+        dataSource={bands}
+        rowKey="accessLevel"
+        loading={loading}
+        pagination={false}
+        size="small"
+      />
+      <Text type="secondary" className="text-xs">
+        Covers only the {data.length} position
+        {data.length === 1 ? "" : "s"} on this page, not every job position.
+      </Text>
+    </Card>
+  );
+}
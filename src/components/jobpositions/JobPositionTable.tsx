@@ -0,0 +1,160 @@
+import { Button, Popconfirm, Table, Tag, Tooltip, Typography } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { SquarePen, Trash } from "lucide-react";
+import type { JobPosition } from "#src/apis/jobpositios";
+import type { AccessLevel } from "#src/openapi";
+import { accessLevelColors, getAccessLevelLabel } from "#src/utils/enums";
+import { Can } from "#src/components/auth";
+import { Permissions } from "#src/utils/permissions";
+
+const { Text } = Typography;
+
+interface JobPositionTableProps {
+  data: JobPosition[];
+  loading: boolean;
+  onEdit: (record: JobPosition) => void;
+  onDelete: (id: string) => void;
+  deleting: boolean;
+  currentPage: number;
+  pageSize: number;
+  total: number;
+  onPaginationChange: (page: number, pageSize: number) => void;
+}
+
+const truncateText = (
+  text: string | null | undefined,
+  maxLength: number = 80,
+) => {
+  if (!text) return "-";
+  if (text.length <= maxLength) return text;
+  return `${text.substring(0, maxLength)}...`;
+};
+
+export default function JobPositionTable({
+  data,
+  loading,
+  onEdit,
+  onDelete,
+  deleting,
+  currentPage,
+  pageSize,
+  total,
+  onPaginationChange,
+}: JobPositionTableProps) {
+  const columns: ColumnsType<JobPosition> = [
+    {
+      title: "Title",
+      key: "title",
+      width: 220,
+      render: (_, record) => (
+        <Text className="font-medium">
+          {record.title || record.name || "-"}
+        </Text>
+      ),
+    },
+    {
+      title: "Description",
+      dataIndex: "description",
+      key: "description",
+      render: (text: string | null | undefined) => (
+        <Tooltip title={text}>
+          <Text>{truncateText(text)}</Text>
+        </Tooltip>
+      ),
+    },
+    {
+      title: "Salary",
+      dataIndex: "salary",
+      key: "salary",
+      width: 140,
+      align: "right",
+      render: (value: number | null | undefined) =>
+        typeof value === "number" ? (
+          <span className="font-semibold text-gray-700">
+            ${value.toFixed(2)}
+          </span>
+        ) : (
+          <Text type="secondary">-</Text>
+        ),
+    },
+    {
+      title: "Access Level",
+      dataIndex: "accessLevel",
+      key: "accessLevel",
+      width: 160,
+      render: (value: number | null | undefined) =>
+        typeof value === "number" ? (
+          <Tag color={accessLevelColors[value as AccessLevel] ?? "default"}>
+            {getAccessLevelLabel(value)}
+          </Tag>
+        ) : (
+          <Text type="secondary">-</Text>
+        ),
+    },
+    {
+      title: "Actions",
+      key: "actions",
+      width: 120,
+      fixed: "right",
+      render: (_, record) => {
+        const hasId = !!record.id;
+
+        return (
+          <div className="flex gap-1">
+            <Tooltip title="Edit job position">
+              <Button
+                type="link"
+                onClick={() => onEdit(record)}
+                disabled={!hasId}
+                className="text-blue-600 hover:text-blue-700"
+              >
+                <SquarePen className="w-4 h-4" />
+              </Button>
+            </Tooltip>
+
+            <Can permission={Permissions.JobPositions.Delete}>
+              <Popconfirm
+                title="Delete Job Position"
+                description="Are you sure you want to delete this job position?"
+                onConfirm={() => {
+                  if (record.id) {
+                    onDelete(record.id);
+                  }
+                }}
+                okText="Yes"
+                cancelText="No"
+                okButtonProps={{ danger: true, loading: deleting }}
+                disabled={!hasId}
+              >
+                <Tooltip title="Delete job position">
+                  <Button type="link" danger loading={deleting} disabled={!hasId}>
+                    <Trash className="w-4 h-4" />
+                  </Button>
+                </Tooltip>
+              </Popconfirm>
+            </Can>
+          </div>
+        );
+      },
+    },
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={data}
+      rowKey="id"
+      loading={loading}
+      pagination={{
+        current: currentPage,
+        pageSize,
+        total,
+        showSizeChanger: true,
+        onChange: onPaginationChange,
+        showTotal: (count, range) => `${range[0]}-${range[1]} of ${count} items`,
+      }}
+      className="bg-white rounded-lg shadow"
+      scroll={{ x: 900 }}
+    />
+  );
+}
@@ -0,0 +1,3 @@
+export { default as JobPositionTable } from "./JobPositionTable";
+export { default as JobPositionFormModal } from "./JobPositionFormModal";
+export { default as JobPositionSalarySummary } from "./JobPositionSalarySummary";
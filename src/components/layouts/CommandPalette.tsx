@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useState } from "react";
+import type { KeyboardEvent, ReactNode } from "react";
+import { useNavigate } from "react-router";
+import { Input, Modal, Spin } from "antd";
+import { CornerDownLeft, Search } from "lucide-react";
+import type { DashboardNavItem } from "#src/config/dashboardNav";
+import { useDebouncedValue, useGlobalSearch } from "#src/hooks/search";
+
+interface CommandPaletteProps {
+  /** Sidebar items the user can see; each link becomes a "Go to" command */
+  navItems: DashboardNavItem[];
+}
+
+interface PaletteItem {
+  key: string;
+  title: string;
+  description?: string;
+  icon?: ReactNode;
+  href: string;
+}
+
+interface PaletteSection {
+  key: string;
+  label: string;
+  items: PaletteItem[];
+  isLoading?: boolean;
+}
+
+const flattenNavItems = (
+  items: DashboardNavItem[],
+  parents: string[] = [],
+): PaletteItem[] =>
+  items.flatMap((item) => {
+    const self: PaletteItem[] = item.href
+      ? [
+          {
+            key: `nav:${item.href}`,
+            title: `Go to ${item.label}`,
+            description: parents.length ? parents.join(" / ") : undefined,
+            icon: item.icon,
+            href: item.href,
+          },
+        ]
+      : [];
+
+    return [
+      ...self,
+      ...flattenNavItems(item.children ?? [], [...parents, item.label]),
+    ];
+  });
+
+const isPaletteShortcut = (event: globalThis.KeyboardEvent) =>
+  (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k";
+
+/**
+ * Top bar search. Ctrl+K (Cmd+K on macOS) or clicking the box opens a
+ * palette with navigation commands and records matching the keyword
+ * across products, warehouse locations, categories and customers.
+ */
+export default function CommandPalette({ navItems }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [keyword, setKeyword] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const debouncedKeyword = useDebouncedValue(keyword);
+  const searchGroups = useGlobalSearch(open ? debouncedKeyword : "");
+
+  useEffect(() => {
+    const handleKeyDown = (event: globalThis.KeyboardEvent) => {
+      if (isPaletteShortcut(event)) {
+        event.preventDefault();
+        setOpen(true);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const navCommands = useMemo(() => flattenNavItems(navItems), [navItems]);
+
+  const sections: PaletteSection[] = useMemo(() => {
+    const needle = keyword.trim().toLowerCase();
+    const matchingCommands = navCommands.filter(
+      (command) =>
+        !needle ||
+        command.title.toLowerCase().includes(needle) ||
+        command.description?.toLowerCase().includes(needle),
+    );
+
+    const allSections: PaletteSection[] = [
+      { key: "navigation", label: "Navigation", items: matchingCommands },
+      ...searchGroups.map((group) => ({
+        key: group.key,
+        label: group.label,
+        items: group.results,
+        isLoading: group.isLoading,
+      })),
+    ];
+
+    return allSections.filter(
+      (section) => section.items.length > 0 || section.isLoading,
+    );
+  }, [keyword, navCommands, searchGroups]);
+
+  const items = sections.flatMap((section) => section.items);
+  const selectedIndex = Math.min(activeIndex, Math.max(items.length - 1, 0));
+
+  const close = () => {
+    setOpen(false);
+    setKeyword("");
+    setActiveIndex(0);
+  };
+
+  const select = (item: PaletteItem | undefined) => {
+    if (!item) {
+      return;
+    }
+    close();
+    navigate(item.href);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((selectedIndex + 1) % Math.max(items.length, 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex(
+        (selectedIndex - 1 + items.length) % Math.max(items.length, 1),
+      );
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      select(items[selectedIndex]);
+    }
+  };
+
+  const isSearching =
+    keyword.trim() !== debouncedKeyword.trim() ||
+    searchGroups.some((group) => group.isLoading);
+
+  return (
+    <>
+      <input
+        type="text"
+        className="search-input"
+        placeholder="Search... (Ctrl+K)"
+        aria-label="Search"
+        readOnly
+        onFocus={(event) => {
+          event.currentTarget.blur();
+          setOpen(true);
+        }}
+      />
+
+      <Modal
+        open={open}
+        onCancel={close}
+        footer={null}
+        closable={false}
+        width={640}
+        destroyOnHidden
+      >
+        <Input
+          autoFocus
+          size="large"
+          value={keyword}
+          prefix={<Search className="w-4 h-4 text-gray-400" />}
+          suffix={isSearching ? <Spin size="small" /> : null}
+          placeholder="Search products, locations, categories, customers..."
+          onChange={(event) => {
+            setKeyword(event.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+        />
+
+        <div className="mt-3 max-h-96 overflow-y-auto" role="listbox">
+          {items.length === 0 && !isSearching && (
+            <p className="py-6 text-center text-sm text-gray-500">
+              No results
+            </p>
+          )}
+
+          {sections.map((section) => (
+            <div key={section.key} className="mb-2">
+              <div className="px-2 py-1 text-xs font-semibold uppercase text-gray-500">
+                {section.label}
+              </div>
+              {section.items.map((item) => {
+                const index = items.indexOf(item);
+                const isActive = index === selectedIndex;
+
+                return (
+                  <div
+                    key={item.key}
+                    role="option"
+                    aria-selected={isActive}
+                    className={`flex items-center gap-3 p-2 rounded cursor-pointer${
+                      isActive ? " bg-blue-50" : ""
+                    }`}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => select(item)}
+                  >
+                    {item.icon && (
+                      <span className="text-gray-500">{item.icon}</span>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate text-sm font-medium">
+                        {item.title}
+                      </div>
+                      {item.description && (
+                        <div className="truncate text-xs text-gray-500">
+                          {item.description}
+                        </div>
+                      )}
+                    </div>
+                    {isActive && (
+                      <CornerDownLeft className="w-4 h-4 text-gray-400" />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </Modal>
+    </>
+  );
+}
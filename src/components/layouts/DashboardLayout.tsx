@@ -1,10 +1,15 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Outlet, NavLink, useLocation } from "react-router";
 import { ChevronDown } from "lucide-react";
 import {
   dashboardNavItems,
   type DashboardNavItem,
 } from "#src/config/dashboardNav";
+import { RoutePermissionGuard } from "#src/components/auth";
+import { usePermissions } from "#src/hooks/auth";
+import type { PermissionRequirement } from "#src/utils/permissions";
+import CommandPalette from "./CommandPalette";
+import UserMenu from "./UserMenu";
 
 const MAX_NAV_LEVELS = 3;
 const MAX_CHILD_DEPTH = MAX_NAV_LEVELS - 1;
@@ -65,18 +70,48 @@ const buildInitialExpandedState = (
     return acc;
   }, {});
 
+const filterNavItems = (
+  items: DashboardNavItem[],
+  can: (required: PermissionRequirement | undefined) => boolean,
+): DashboardNavItem[] =>
+  items.reduce<DashboardNavItem[]>((acc, item) => {
+    if (!can(item.permissions)) {
+      return acc;
+    }
+
+    if (!item.children?.length) {
+      acc.push(item);
+      return acc;
+    }
+
+    const children = filterNavItems(item.children, can);
+
+    // Drop groups that only exist to hold children the user cannot see.
+    if (children.length > 0 || item.href) {
+      acc.push({ ...item, children });
+    }
+
+    return acc;
+  }, []);
+
 /**
  * Dashboard Layout
  *
  * Sidebar navigation is driven entirely by `dashboardNavItems` in
  * src/config/dashboardNav.tsx — edit that file to add, remove, or
  * reorder sidebar entries. Each entry carries its own icon so no
- * mapping logic is needed here.
+ * mapping logic is needed here. Entries the user lacks permissions
+ * for are filtered out before rendering.
  */
 export default function DashboardLayout() {
   const location = useLocation();
+  const { can } = usePermissions();
+  const navItems = useMemo(
+    () => filterNavItems(dashboardNavItems, can),
+    [can],
+  );
   const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>(
-    () => buildInitialExpandedState(dashboardNavItems, location.pathname),
+    () => buildInitialExpandedState(navItems, location.pathname),
   );
 
   const toggleGroup = (key: string) => {
@@ -167,12 +202,8 @@ export default function DashboardLayout() {
           <div className="logo-placeholder">Logo</div>
         </div>
         <div className="dashboard-top-right">
-          <input
-            type="text"
-            className="search-input"
-            placeholder="Search..."
-            aria-label="Search"
-          />
+          <CommandPalette navItems={navItems} />
+          <UserMenu />
         </div>
       </nav>
 
@@ -180,12 +211,14 @@ export default function DashboardLayout() {
       <div className="dashboard-main">
         {/* Sidebar */}
         <aside className="dashboard-sidebar">
-          <nav className="sidebar-nav">{renderNavItems(dashboardNavItems)}</nav>
+          <nav className="sidebar-nav">{renderNavItems(navItems)}</nav>
         </aside>
 
         {/* Page content */}
         <div className="dashboard-content">
-          <Outlet />
+          <RoutePermissionGuard>
+            <Outlet />
+          </RoutePermissionGuard>
         </div>
       </div>
     </div>
@@ -2,24 +2,39 @@
  * Protected Dashboard Layout
  *
  * Wrapper component that ensures the user is authenticated
- * before rendering the dashboard layout
+ * before rendering the dashboard layout, and keeps the session
+ * alive while it is mounted
  */
 
 import { useAuthContext } from "#src/contexts";
-import { Navigate } from "react-router";
+import { Navigate, useLocation } from "react-router";
+import { buildLoginPath } from "#src/hooks/auth";
+import { SessionExpiryModal } from "#src/components/auth";
 import DashboardLayout from "./DashboardLayout";
 
 /**
  * ProtectedDashboardLayout component
  * Checks if user is authenticated before rendering dashboard
- * Redirects to login if user is not authenticated
+ * Redirects to login if user is not authenticated, remembering the
+ * requested page so login can return to it
  */
 export default function ProtectedDashboardLayout() {
   const { isAuthenticated } = useAuthContext();
+  const location = useLocation();
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    return (
+      <Navigate
+        to={buildLoginPath(`${location.pathname}${location.search}`)}
+        replace
+      />
+    );
   }
 
-  return <DashboardLayout />;
+  return (
+    <>
+      <DashboardLayout />
+      <SessionExpiryModal />
+    </>
+  );
 }
@@ -1,10 +1,41 @@
-import { Outlet } from "react-router";
+import { useEffect } from "react";
+import { useDispatch } from "react-redux";
+import { Outlet, useLocation, useNavigate } from "react-router";
+import { buildLoginPath, useSessionSync } from "#src/hooks/auth";
+import type { AppDispatch } from "#src/store";
+import { clearCredentials } from "#src/store/userSlice";
+import { subscribeSessionEvents } from "#src/utils/api";
 
 /**
  * Root Layout Component
- * This wraps the basic routes in the application
+ * This wraps the basic routes in the application, keeps the
+ * session in sync with other tabs and sends the user to the login
+ * page when the session expires
  */
 export default function RootLayout() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const dispatch = useDispatch<AppDispatch>();
+
+  useSessionSync();
+
+  // Route to login in-app so the store, query cache and unsaved
+  // form state survive until the user signs back in.
+  useEffect(
+    () =>
+      subscribeSessionEvents((event) => {
+        if (event.type !== "expired") {
+          return;
+        }
+
+        dispatch(clearCredentials());
+        navigate(buildLoginPath(`${location.pathname}${location.search}`), {
+          replace: true,
+        });
+      }),
+    [dispatch, navigate, location.pathname, location.search],
+  );
+
   return (
     <div className="app-container">
       <main className="app-main">
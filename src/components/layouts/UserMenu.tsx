@@ -0,0 +1,81 @@
+import { Dropdown } from "antd";
+import type { MenuProps } from "antd";
+import { ChevronDown, LogOut, UserRound } from "lucide-react";
+import { useNavigate } from "react-router";
+import { useQueryClient } from "@tanstack/react-query";
+import { useLogout } from "#src/hooks/auth";
+import { useMeQuery } from "#src/hooks/users";
+import { useMessage } from "#src/utils/message";
+import { UserAvatar } from "#src/components/users";
+
+/**
+ * Top bar user menu with the signed-in user's name, a link to the
+ * profile page and logout.
+ */
+export default function UserMenu() {
+  const navigate = useNavigate();
+  const message = useMessage();
+  const queryClient = useQueryClient();
+  const { data: me } = useMeQuery();
+
+  const { mutate: logout, isPending: isLoggingOut } = useLogout({
+    onSuccess: () => {
+      queryClient.clear();
+      navigate("/login", { replace: true });
+    },
+    onError: () => {
+      message.error("Failed to log out");
+    },
+  });
+
+  const fullName =
+    [me?.firstName, me?.lastName].filter(Boolean).join(" ") ||
+    me?.userName ||
+    "Account";
+
+  const items: MenuProps["items"] = [
+    {
+      key: "header",
+      type: "group",
+      label: (
+        <div className="flex flex-col">
+          <span className="font-medium text-gray-800">{fullName}</span>
+          {me?.email && (
+            <span className="text-xs text-gray-500">{me.email}</span>
+          )}
+        </div>
+      ),
+    },
+    { type: "divider" },
+    {
+      key: "profile",
+      label: "Profile",
+      icon: <UserRound size={16} />,
+      onClick: () => navigate("/dashboard/profile"),
+    },
+    {
+      key: "logout",
+      label: isLoggingOut ? "Logging out..." : "Logout",
+      icon: <LogOut size={16} />,
+      danger: true,
+      disabled: isLoggingOut,
+      onClick: () => logout(),
+    },
+  ];
+
+  return (
+    <Dropdown menu={{ items }} trigger={["click"]} placement="bottomRight">
+      <button
+        type="button"
+        className="flex items-center gap-2 rounded-lg px-2 py-1 hover:bg-slate-100 transition-colors cursor-pointer"
+        aria-label="User menu"
+      >
+        <UserAvatar user={me} />
+        <span className="hidden md:inline text-sm font-medium text-gray-700">
+          {fullName}
+        </span>
+        <ChevronDown size={16} className="text-gray-500" aria-hidden="true" />
+      </button>
+    </Dropdown>
+  );
+}
@@ -0,0 +1,66 @@
+import { Form, InputNumber, Modal } from "antd";
+import { useApplyFieldErrors } from "#src/utils/api";
+import type { ProductStockRow } from "./ProductStockTable";
+
+interface AdjustStockModalProps {
+  /** Row being adjusted; the modal is open while it is set */
+  stock: ProductStockRow | null;
+  onCancel: () => void;
+  onSubmit: (quantity: number) => Promise<void>;
+  loading: boolean;
+}
+
+interface FormValues {
+  quantityAtLocation: number;
+}
+
+/**
+ * Sets the counted quantity of a product at one location
+ */
+export default function AdjustStockModal({
+  stock,
+  onCancel,
+  onSubmit,
+  loading,
+}: AdjustStockModalProps) {
+  const [form] = Form.useForm<FormValues>();
+  const applyFieldErrors = useApplyFieldErrors();
+
+  const handleSubmit = async () => {
+    try {
+      const values = await form.validateFields();
+      await onSubmit(values.quantityAtLocation);
+    } catch (error) {
+      if (!applyFieldErrors(form, error)) {
+        console.error("Form validation failed:", error);
+      }
+    }
+  };
+
+  return (
+    <Modal
+      title={<span className="text-xl font-semibold">Adjust Quantity</span>}
+      open={!!stock}
+      onOk={handleSubmit}
+      onCancel={onCancel}
+      confirmLoading={loading}
+      okText="Save"
+      destroyOnHidden
+    >
+      <Form
+        form={form}
+        layout="vertical"
+        className="mt-4"
+        initialValues={{ quantityAtLocation: stock?.quantity ?? 0 }}
+      >
+        <Form.Item
+          label="Quantity at Location"
+          name="quantityAtLocation"
+          rules={[{ required: true, message: "Please enter a quantity" }]}
+        >
+          <InputNumber min={0} precision={0} className="w-full" />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+}
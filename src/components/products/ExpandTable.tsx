@@ -0,0 +1,88 @@
+import { Table, Typography } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import type { WarehouseStockDto } from "#src/openapi";
+import { useProductById } from "#src/hooks/product";
+
+const { Text } = Typography;
+
+/**
+ * Warehouse stock panel shown when a product row is expanded
+ */
+export default function ExpandTable({ productId }: { productId: string }) {
+  const { data: detailData, isLoading } = useProductById(productId);
+
+  // Show loader while details query is in flight for the expanded row.
+  if (isLoading) {
+    return (
+      <div className="p-4 text-center text-gray-500">
+        Loading product stock...
+      </div>
+    );
+  }
+
+  const stock = detailData?.warehouseStocks || [];
+
+  if (stock.length === 0) {
+    return (
+      <div className="p-4 text-center text-gray-500">
+        No stock found of this product
+      </div>
+    );
+  }
+
+  const columns: ColumnsType<WarehouseStockDto> = [
+    {
+      title: "Zone Code",
+      dataIndex: "zoneCode",
+      key: "zoneCode",
+      width: 80,
+      render: (text) => (
+        <Text className="font-mono text-sm">{text || "-"}</Text>
+      ),
+    },
+    {
+      title: "Aisle",
+      dataIndex: "aisle",
+      key: "aisle",
+      width: 80,
+      align: "center",
+      render: (value: number | null) => <Text>{value ?? "-"}</Text>,
+    },
+    {
+      title: "Shelf",
+      dataIndex: "shelf",
+      key: "shelf",
+      width: 80,
+      align: "center",
+      render: (value: number | null) => <Text>{value ?? "-"}</Text>,
+    },
+    {
+      title: "Bin",
+      dataIndex: "bin",
+      key: "bin",
+      width: 100,
+      render: (text) => <Text>{text || "-"}</Text>,
+    },
+    {
+      title: "Quantity",
+      dataIndex: "quantity",
+      key: "quantity",
+      width: 120,
+      align: "right",
+      render: (value: number | null) => (
+        <span className="font-semibold text-gray-700">{value ?? 0}</span>
+      ),
+    },
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={stock}
+      rowKey="id"
+      pagination={false}
+      size="small"
+      className="ml-8"
+    />
+  );
+}
@@ -0,0 +1,31 @@
+import { Tag, Tooltip } from "antd";
+import type { MarkupDeviation } from "#src/utils/pricing";
+
+/**
+ * Warns when a product's markup is outside its category default's
+ * tolerance; renders nothing otherwise
+ */
+export default function MarkupDeviationTag({
+  deviation,
+}: {
+  deviation: MarkupDeviation | undefined;
+}) {
+  if (!deviation?.exceedsTolerance) {
+    return null;
+  }
+
+  const sign = deviation.difference > 0 ? "+" : "";
+
+  return (
+    <Tooltip
+      title={`Markup ${deviation.actual.toFixed(1)}% vs category default ${
+        deviation.expected
+      }%`}
+    >
+      <Tag color={deviation.difference > 0 ? "orange" : "red"} className="ml-2">
+        {sign}
+        {deviation.difference.toFixed(1)} pts
+      </Tag>
+    </Tooltip>
+  );
+}
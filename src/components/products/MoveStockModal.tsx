@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Form, InputNumber, Modal, Select } from "antd";
+import type { WarehouseLocationDto } from "#src/openapi";
+import { useWarehousesQuery } from "#src/hooks/warehouses";
+import { useDebouncedValue } from "#src/hooks/search";
+import { useApplyFieldErrors } from "#src/utils/api";
+import type { ProductStockRow } from "./ProductStockTable";
+
+const LOCATION_OPTIONS_LIMIT = 20;
+
+interface MoveStockModalProps {
+  /** Row stock is moved out of; the modal is open while it is set */
+  stock: ProductStockRow | null;
+  onCancel: () => void;
+  onSubmit: (values: MoveStockValues) => Promise<void>;
+  loading: boolean;
+}
+
+export interface MoveStockValues {
+  warehouseLocationId: string;
+  quantity: number;
+}
+
+const formatLocation = (
+  location: Pick<WarehouseLocationDto, "zoneCode" | "aisle" | "shelf" | "bin">,
+) =>
+  [location.zoneCode, location.aisle, location.shelf, location.bin]
+    .filter((part) => part !== null && part !== undefined)
+    .join("-");
+
+/**
+ * Moves part or all of a product's stock at one location to another
+ */
+export default function MoveStockModal({
+  stock,
+  onCancel,
+  onSubmit,
+  loading,
+}: MoveStockModalProps) {
+  const [form] = Form.useForm<MoveStockValues>();
+  const applyFieldErrors = useApplyFieldErrors();
+  const [keyword, setKeyword] = useState("");
+  const debouncedKeyword = useDebouncedValue(keyword);
+
+  const { data: locations, isFetching } = useWarehousesQuery({
+    pageNumber: 1,
+    pageSize: LOCATION_OPTIONS_LIMIT,
+    advanceSearches: debouncedKeyword
+      ? { keyword: debouncedKeyword, fields: ["zoneCode", "bin"] }
+      : undefined,
+  });
+
+  const available = stock?.quantity ?? 0;
+  const sourceLocationId = stock?.partLocation?.warehouseLocationId;
+  const locationOptions = (locations?.data ?? [])
+    .filter((location) => location.id !== sourceLocationId)
+    .map((location) => ({
+      label: formatLocation(location),
+      value: location.id!,
+    }));
+
+  const handleSubmit = async () => {
+    try {
+      const values = await form.validateFields();
+      await onSubmit(values);
+    } catch (error) {
+      if (!applyFieldErrors(form, error)) {
+        console.error("Form validation failed:", error);
+      }
+    }
+  };
+
+  return (
+    <Modal
+      title={<span className="text-xl font-semibold">Move Stock</span>}
+      open={!!stock}
+      onOk={handleSubmit}
+      onCancel={onCancel}
+      afterClose={() => setKeyword("")}
+      confirmLoading={loading}
+      okText="Move"
+      destroyOnHidden
+    >
+      <p className="text-sm text-gray-500">
+        From {stock ? formatLocation(stock) : "-"} ({available} on hand)
+      </p>
+      <Form
+        form={form}
+        layout="vertical"
+        className="mt-4"
+        initialValues={{ quantity: available }}
+      >
+        <Form.Item
+          label="Destination"
+          name="warehouseLocationId"
+          rules={[{ required: true, message: "Please select a location" }]}
+        >
+          <Select
+            showSearch
+            filterOption={false}
+            onSearch={setKeyword}
+            loading={isFetching}
+            options={locationOptions}
+            placeholder="Search by zone code or bin"
+          />
+        </Form.Item>
+        <Form.Item
+          label="Quantity"
+          name="quantity"
+          rules={[{ required: true, message: "Please enter a quantity" }]}
+        >
+          <InputNumber
+            min={1}
+            max={available}
+            precision={0}
+            className="w-full"
+          />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+}
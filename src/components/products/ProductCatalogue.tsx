@@ -0,0 +1,108 @@
+import { useMemo } from "react";
+import type { UIEvent } from "react";
+import { Spin, Table } from "antd";
+import type {
+  CategoryNameDto,
+  ProductDto,
+  SearchProductRequest,
+  Sort,
+} from "#src/openapi";
+import { useInfiniteProducts } from "#src/hooks/product";
+import { useTableSort } from "#src/hooks/search";
+import { extractApiResponseMeta } from "#src/utils/queries";
+import ExpandTable from "./ExpandTable";
+import { buildProductColumns } from "./productColumns";
+
+/** Visible height of the scrolling body */
+const CATALOGUE_HEIGHT = 600;
+/** Fetch the next page once the user is this close to the bottom */
+const LOAD_MORE_THRESHOLD = 400;
+
+interface ProductCatalogueProps {
+  payload: Omit<SearchProductRequest, "pageNumber">;
+  categoryMap: CategoryNameDto[];
+  /** Default markup per category id; flags prices outside tolerance */
+  categoryMarkups?: Record<string, number>;
+  onEdit: (record: ProductDto) => void;
+  onDelete: (id: string) => void;
+  deleting: boolean;
+  sort?: Sort;
+  onSortChange?: (sort: Sort | undefined) => void;
+}
+
+/**
+ * Virtualized, infinitely scrolling product list for browsing the full
+ * catalogue. Only the rows in view are rendered; expanded rows still show
+ * the warehouse stock panel.
+ */
+export default function ProductCatalogue({
+  payload,
+  categoryMap,
+  categoryMarkups,
+  onEdit,
+  onDelete,
+  deleting,
+  sort,
+  onSortChange,
+}: ProductCatalogueProps) {
+  const { sortable, onChange } = useTableSort<ProductDto>(sort, onSortChange);
+  const { data, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage } =
+    useInfiniteProducts(payload);
+
+  const rows = useMemo(
+    () => data?.pages.flatMap((page) => page.data ?? []) ?? [],
+    [data],
+  );
+  const total = extractApiResponseMeta(data?.pages[0]?.meta).totalCount;
+
+  const handleScroll = (event: UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = event.currentTarget;
+    const nearBottom =
+      scrollHeight - scrollTop - clientHeight < LOAD_MORE_THRESHOLD;
+
+    if (nearBottom && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
+
+  const columns = buildProductColumns({
+    categoryMap,
+    categoryMarkups,
+    onEdit,
+    onDelete,
+    deleting,
+    sortable,
+  });
+
+  return (
+    <Table
+      virtual
+      columns={columns}
+      dataSource={rows}
+      onChange={onChange}
+      onScroll={handleScroll}
+      rowKey="id"
+      loading={isLoading}
+      pagination={false}
+      expandable={{
+        expandedRowRender: (record) =>
+          record.id ? <ExpandTable productId={record.id} /> : null,
+        rowExpandable: (record) => !!record.id,
+      }}
+      footer={() => (
+        <div className="flex justify-between items-center text-sm text-gray-600">
+          <span>
+            Loaded {rows.length} of {total} products
+          </span>
+          {isFetchingNextPage ? (
+            <Spin size="small" />
+          ) : (
+            !hasNextPage && rows.length > 0 && <span>End of catalogue</span>
+          )}
+        </div>
+      )}
+      className="bg-white rounded-lg shadow"
+      scroll={{ x: 1200, y: CATALOGUE_HEIGHT }}
+    />
+  );
+}
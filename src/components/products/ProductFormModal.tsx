@@ -1,4 +1,4 @@
-import { Modal, Form, Input, InputNumber, Select } from "antd";
+import { Modal, Form, Input, InputNumber, Select, Button } from "antd";
 import { useEffect } from "react";
 import type {
   CategoryNameDto,
@@ -6,6 +6,10 @@ import type {
   ProductDto,
   UpdateProductRequest,
 } from "#src/openapi";
+import { useApplyFieldErrors } from "#src/utils/api";
+import { useCategoryById } from "#src/hooks/categories";
+import { getMarkupDeviation, suggestRetailPrice } from "#src/utils/pricing";
+import MarkupDeviationTag from "./MarkupDeviationTag";
 
 interface ProductFormModalProps {
   open: boolean;
@@ -36,8 +40,17 @@ export default function ProductFormModal({
   categoryMap,
 }: ProductFormModalProps) {
   const [form] = Form.useForm<FormValues>();
+  const applyFieldErrors = useApplyFieldErrors();
   const isEditing = !!editingProduct;
 
+  // Suggest a retail price from the selected category's default markup
+  const unitCost = Form.useWatch("unitCost", form);
+  const retailPrice = Form.useWatch("retailPrice", form);
+  const categoryId = Form.useWatch("categoryId", form);
+  const { data: category } = useCategoryById(categoryId);
+  const markup = category?.defaultMarkupPercentage;
+  const suggestedPrice = suggestRetailPrice(unitCost, markup);
+
   useEffect(() => {
     if (open) {
       if (editingProduct) {
@@ -71,7 +84,9 @@ export default function ProductFormModal({
       await onSubmit(submitData);
       form.resetFields();
     } catch (error) {
-      console.error("Form validation failed:", error);
+      if (!applyFieldErrors(form, error)) {
+        console.error("Form validation failed:", error);
+      }
     }
   };
 
@@ -179,6 +194,30 @@ export default function ProductFormModal({
               </label>
             }
             name="retailPrice"
+            extra={
+              suggestedPrice !== undefined && (
+                <span>
+                  Suggested ${suggestedPrice.toFixed(2)} at {markup}% markup
+                  {suggestedPrice !== retailPrice && (
+                    <Button
+                      type="link"
+                      size="small"
+                      onClick={() =>
+                        form.setFieldValue("retailPrice", suggestedPrice)
+                      }
+                    >
+                      Use
+                    </Button>
+                  )}
+                  <MarkupDeviationTag
+                    deviation={getMarkupDeviation(
+                      { unitCost, retailPrice },
+                      markup,
+                    )}
+                  />
+                </span>
+              )
+            }
             rules={[
               {
                 type: "number",
@@ -0,0 +1,436 @@
+import { useMemo, useState } from "react";
+import {
+  Alert,
+  Button,
+  Modal,
+  Progress,
+  Segmented,
+  Select,
+  Space,
+  Steps,
+  Table,
+  Tag,
+  Typography,
+  Upload,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { Download, FileSpreadsheet } from "lucide-react";
+import type { CategoryNameDto } from "#src/openapi";
+import {
+  autoMapColumns,
+  findExistingPartNumbers,
+  productImportFields,
+  useProductImport,
+  validateProductRows,
+} from "#src/hooks/product";
+import type {
+  ProductImportMapping,
+  ProductImportRow,
+  ProductImportStatus,
+} from "#src/hooks/product";
+import { handleApiError } from "#src/utils/api";
+import { useMessage } from "#src/utils/message";
+import {
+  downloadCsv,
+  readSpreadsheet,
+  SPREADSHEET_ACCEPT,
+} from "#src/utils/spreadsheet";
+
+const { Text } = Typography;
+
+interface ProductImportWizardProps {
+  open: boolean;
+  onClose: () => void;
+  categoryMap: CategoryNameDto[];
+}
+
+type WizardStep = 0 | 1 | 2 | 3;
+type PreviewFilter = "all" | "valid" | "errors";
+
+const statusColors: Record<ProductImportStatus, string> = {
+  valid: "green",
+  invalid: "red",
+  duplicate: "orange",
+  imported: "blue",
+  failed: "red",
+};
+
+const hasProblem = (row: ProductImportRow) =>
+  row.status !== "valid" && row.status !== "imported";
+
+/**
+ * Upload, map, preview and import products from a CSV or XLSX file
+ */
+export default function ProductImportWizard({
+  open,
+  onClose,
+  categoryMap,
+}: ProductImportWizardProps) {
+  const message = useMessage();
+  const importer = useProductImport();
+
+  const [step, setStep] = useState<WizardStep>(0);
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [fileRows, setFileRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ProductImportMapping>({});
+  const [rows, setRows] = useState<ProductImportRow[]>([]);
+  const [filter, setFilter] = useState<PreviewFilter>("all");
+  const [isValidating, setIsValidating] = useState(false);
+
+  const counts = useMemo(() => {
+    const byStatus = (status: ProductImportStatus) =>
+      rows.filter((row) => row.status === status).length;
+
+    return {
+      valid: byStatus("valid"),
+      imported: byStatus("imported"),
+      failed: byStatus("failed"),
+      problems: rows.filter(hasProblem).length,
+    };
+  }, [rows]);
+
+  const visibleRows = rows.filter((row) =>
+    filter === "all"
+      ? true
+      : filter === "valid"
+        ? !hasProblem(row)
+        : hasProblem(row),
+  );
+
+  const remaining = importer.progress.total - importer.progress.done;
+
+  const missingFields = productImportFields.filter(
+    (field) => field.required && mapping[field.key] === undefined,
+  );
+
+  const reset = () => {
+    setStep(0);
+    setFileName("");
+    setHeaders([]);
+    setFileRows([]);
+    setMapping({});
+    setRows([]);
+    setFilter("all");
+  };
+
+  const handleClose = () => {
+    importer.cancel();
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const [headerRow = [], ...dataRows] = await readSpreadsheet(file);
+      if (dataRows.length === 0) {
+        message.error("The file has no rows to import");
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setFileRows(dataRows);
+      setMapping(autoMapColumns(headerRow));
+      setStep(1);
+    } catch (error) {
+      console.error("Failed to read file:", error);
+      message.error("Could not read the file");
+    }
+  };
+
+  const handleValidate = async () => {
+    setIsValidating(true);
+    try {
+      const column = mapping.partNumber;
+      const partNumbers = fileRows
+        .map((cells) => (column === undefined ? "" : cells[column]?.trim()))
+        .filter((partNumber): partNumber is string => !!partNumber);
+      const existing = await findExistingPartNumbers(partNumbers);
+
+      setRows(validateProductRows(fileRows, mapping, categoryMap, existing));
+      setFilter("all");
+      setStep(2);
+    } catch (error) {
+      message.error(handleApiError(error).message);
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const updateRow = (updated: ProductImportRow) =>
+    setRows((current) =>
+      current.map((row) =>
+        row.rowNumber === updated.rowNumber ? updated : row,
+      ),
+    );
+
+  const startImport = async (status: ProductImportStatus) => {
+    setStep(3);
+    try {
+      await importer.run(
+        rows.filter((row) => row.status === status),
+        updateRow,
+      );
+    } catch (error) {
+      message.error(handleApiError(error).message);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    downloadCsv(
+      `${fileName.replace(/\.[^.]+$/, "") || "products"}-errors.csv`,
+      [
+        ["Row", ...headers, "Errors"],
+        ...rows
+          .filter(hasProblem)
+          .map((row) => [
+            String(row.rowNumber),
+            ...headers.map((_, index) => row.cells[index] ?? ""),
+            row.errors.join("; "),
+          ]),
+      ],
+    );
+  };
+
+  const columns: ColumnsType<ProductImportRow> = [
+    {
+      title: "Row",
+      dataIndex: "rowNumber",
+      key: "rowNumber",
+      width: 70,
+    },
+    ...productImportFields.map((field) => ({
+      title: field.label,
+      key: field.key,
+      ellipsis: true,
+      render: (_: unknown, row: ProductImportRow) => {
+        const column = mapping[field.key];
+        return column === undefined ? "-" : row.cells[column] || "-";
+      },
+    })),
+    {
+      title: "Status",
+      dataIndex: "status",
+      key: "status",
+      width: 100,
+      render: (status: ProductImportStatus) => (
+        <Tag color={statusColors[status]} className="capitalize">
+          {status}
+        </Tag>
+      ),
+    },
+    {
+      title: "Errors",
+      dataIndex: "errors",
+      key: "errors",
+      width: 260,
+      render: (errors: string[]) =>
+        errors.length > 0 ? (
+          <Text type="danger" className="text-xs">
+            {errors.join("; ")}
+          </Text>
+        ) : (
+          "-"
+        ),
+    },
+  ];
+
+  const previewTable = (
+    <>
+      <div className="flex justify-between items-center">
+        <Segmented<PreviewFilter>
+          value={filter}
+          onChange={setFilter}
+          options={[
+            { label: `All (${rows.length})`, value: "all" },
+            {
+              label: `Valid (${rows.length - counts.problems})`,
+              value: "valid",
+            },
+            { label: `Errors (${counts.problems})`, value: "errors" },
+          ]}
+        />
+        <Button
+          icon={<Download className="w-4 h-4" />}
+          disabled={counts.problems === 0}
+          onClick={downloadErrorReport}
+        >
+          Error Report
+        </Button>
+      </div>
+      <Table
+        columns={columns}
+        dataSource={visibleRows}
+        rowKey="rowNumber"
+        size="small"
+        pagination={{ pageSize: 20, showSizeChanger: false }}
+        scroll={{ x: 1100 }}
+      />
+    </>
+  );
+
+  const footer = [
+    step === 0 && (
+      <Button key="cancel" onClick={handleClose}>
+        Cancel
+      </Button>
+    ),
+    step === 1 && (
+      <Space key="mapping">
+        <Button onClick={reset}>Back</Button>
+        <Button
+          type="primary"
+          disabled={missingFields.length > 0}
+          loading={isValidating}
+          onClick={handleValidate}
+        >
+          Validate
+        </Button>
+      </Space>
+    ),
+    step === 2 && (
+      <Space key="preview">
+        <Button onClick={() => setStep(1)}>Back</Button>
+        <Button
+          type="primary"
+          disabled={counts.valid === 0}
+          onClick={() => startImport("valid")}
+        >
+          Import {counts.valid} products
+        </Button>
+      </Space>
+    ),
+    step === 3 && (
+      <Space key="import">
+        {importer.isRunning ? (
+          <Button onClick={importer.cancel}>Stop</Button>
+        ) : (
+          <>
+            <Button
+              disabled={counts.failed === 0}
+              onClick={() => startImport("failed")}
+            >
+              Retry failed ({counts.failed})
+            </Button>
+            <Button type="primary" onClick={handleClose}>
+              Done
+            </Button>
+          </>
+        )}
+      </Space>
+    ),
+  ];
+
+  return (
+    <Modal
+      title={<span className="text-xl font-semibold">Import Products</span>}
+      open={open}
+      onCancel={handleClose}
+      afterClose={reset}
+      footer={footer}
+      width={1100}
+      maskClosable={!importer.isRunning}
+      closable={!importer.isRunning}
+      destroyOnHidden
+    >
+      <Steps
+        current={step}
+        size="small"
+        className="my-4"
+        items={[
+          { title: "Upload" },
+          { title: "Map Columns" },
+          { title: "Preview" },
+          { title: "Import" },
+        ]}
+      />
+
+      {step === 0 && (
+        <Upload.Dragger
+          accept={SPREADSHEET_ACCEPT}
+          showUploadList={false}
+          beforeUpload={(file) => {
+            handleFile(file);
+            return Upload.LIST_IGNORE;
+          }}
+        >
+          <div className="flex flex-col items-center gap-2 py-6">
+            <FileSpreadsheet className="w-10 h-10 text-gray-400" />
+            <p>Click or drag a CSV or XLSX file here</p>
+            <p className="text-xs text-gray-500">
+              The first row must hold the column headers
+            </p>
+          </div>
+        </Upload.Dragger>
+      )}
+
+      {step === 1 && (
+        <div className="flex flex-col gap-3">
+          <Text type="secondary">
+            {fileName}: {fileRows.length} rows. Choose the column that holds
+            each field; categories may be given by name or id.
+          </Text>
+          {productImportFields.map((field) => (
+            <div key={field.key} className="grid grid-cols-3 items-center">
+              <Text>
+                {field.label}
+                {field.required && <Text type="danger"> *</Text>}
+              </Text>
+              <Select
+                className="col-span-2"
+                value={mapping[field.key]}
+                onChange={(column?: number) =>
+                  setMapping((current) => ({ ...current, [field.key]: column }))
+                }
+                options={headers.map((header, index) => ({
+                  label: header || `Column ${index + 1}`,
+                  value: index,
+                }))}
+                placeholder="Not imported"
+                allowClear
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {step === 2 && (
+        <div className="flex flex-col gap-3">
+          {counts.problems > 0 && (
+            <Alert
+              type="warning"
+              title={`${counts.problems} rows have problems and will be skipped`}
+            />
+          )}
+          {previewTable}
+        </div>
+      )}
+
+      {step === 3 && (
+        <div className="flex flex-col gap-3">
+          <Progress
+            percent={
+              importer.progress.total
+                ? Math.round(
+                    (importer.progress.done / importer.progress.total) * 100,
+                  )
+                : 0
+            }
+            status={
+              importer.isRunning
+                ? "active"
+                : counts.failed > 0
+                  ? "exception"
+                  : "success"
+            }
+          />
+          <Text>
+            {counts.imported} imported, {counts.failed} failed
+            {importer.isRunning && `, ${remaining} remaining`}
+          </Text>
+          {previewTable}
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,139 @@
+import { Button, Space, Table, Typography } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import type { PartLocationDto, WarehouseStockDto } from "#src/openapi";
+
+const { Text } = Typography;
+
+export interface ProductStockRow extends WarehouseStockDto {
+  /** Part location backing this row; needed to change its quantity */
+  partLocation?: PartLocationDto;
+}
+
+interface ProductStockTableProps {
+  stocks: WarehouseStockDto[];
+  partLocations: PartLocationDto[];
+  loading: boolean;
+  onAdjust: (row: ProductStockRow) => void;
+  onMove: (row: ProductStockRow) => void;
+}
+
+/**
+ * `WarehouseStockDto.id` is not documented as either the part location or
+ * the warehouse location id, so both are tried.
+ */
+const findPartLocation = (
+  stock: WarehouseStockDto,
+  partLocations: PartLocationDto[],
+) =>
+  partLocations.find((partLocation) => partLocation.id === stock.id) ??
+  partLocations.find(
+    (partLocation) => partLocation.warehouseLocationId === stock.id,
+  );
+
+/**
+ * Stock of a single product per warehouse location, with a total on hand
+ */
+export default function ProductStockTable({
+  stocks,
+  partLocations,
+  loading,
+  onAdjust,
+  onMove,
+}: ProductStockTableProps) {
+  const rows: ProductStockRow[] = stocks.map((stock) => ({
+    ...stock,
+    partLocation: findPartLocation(stock, partLocations),
+  }));
+  const totalOnHand = rows.reduce((sum, row) => sum + (row.quantity ?? 0), 0);
+
+  const columns: ColumnsType<ProductStockRow> = [
+    {
+      title: "Zone Code",
+      dataIndex: "zoneCode",
+      key: "zoneCode",
+      width: 100,
+      render: (text) => (
+        <Text className="font-mono text-sm">{text || "-"}</Text>
+      ),
+    },
+    {
+      title: "Aisle",
+      dataIndex: "aisle",
+      key: "aisle",
+      width: 80,
+      align: "center",
+      render: (value: number | null) => <Text>{value ?? "-"}</Text>,
+    },
+    {
+      title: "Shelf",
+      dataIndex: "shelf",
+      key: "shelf",
+      width: 80,
+      align: "center",
+      render: (value: number | null) => <Text>{value ?? "-"}</Text>,
+    },
+    {
+      title: "Bin",
+      dataIndex: "bin",
+      key: "bin",
+      width: 100,
+      render: (text) => <Text>{text || "-"}</Text>,
+    },
+    {
+      title: "Quantity",
+      dataIndex: "quantity",
+      key: "quantity",
+      width: 120,
+      align: "right",
+      render: (value: number | null) => (
+        <span className="font-semibold text-gray-700">{value ?? 0}</span>
+      ),
+    },
+    {
+      title: "Actions",
+      key: "actions",
+      width: 200,
+      render: (_, record) => (
+        <Space size="small">
+          <Button
+            type="link"
+            disabled={!record.partLocation}
+            onClick={() => onAdjust(record)}
+          >
+            Adjust
+          </Button>
+          <Button
+            type="link"
+            disabled={!record.partLocation || !record.quantity}
+            onClick={() => onMove(record)}
+          >
+            Move
+          </Button>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={rows}
+      rowKey="id"
+      loading={loading}
+      pagination={false}
+      size="small"
+      locale={{ emptyText: "No stock found of this product" }}
+      summary={() => (
+        <Table.Summary.Row>
+          <Table.Summary.Cell index={0} colSpan={4}>
+            <Text strong>Total on hand</Text>
+          </Table.Summary.Cell>
+          <Table.Summary.Cell index={4} align="right">
+            <Text strong>{totalOnHand}</Text>
+          </Table.Summary.Cell>
+          <Table.Summary.Cell index={5} />
+        </Table.Summary.Row>
+      )}
+    />
+  );
+}
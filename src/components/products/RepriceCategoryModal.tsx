@@ -0,0 +1,194 @@
+import { useMemo, useState } from "react";
+import { Alert, Checkbox, Modal, Select, Table, Typography } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import type { CategoryNameDto } from "#src/openapi";
+import { useCategoryById } from "#src/hooks/categories";
+import { useCategoryProducts, useRepriceProducts } from "#src/hooks/product";
+import type { RepriceResult } from "#src/hooks/product";
+import { buildRepricePlan, MARKUP_TOLERANCE } from "#src/utils/pricing";
+import type { RepriceChange } from "#src/utils/pricing";
+
+const { Text } = Typography;
+
+interface RepriceCategoryModalProps {
+  open: boolean;
+  onClose: () => void;
+  categoryMap: CategoryNameDto[];
+}
+
+const formatMoney = (value: number | null | undefined) =>
+  `$${(value ?? 0).toFixed(2)}`;
+
+/**
+ * Previews every product in a category repriced at the category's default
+ * markup, then applies the new retail prices
+ */
+export default function RepriceCategoryModal({
+  open,
+  onClose,
+  categoryMap,
+}: RepriceCategoryModalProps) {
+  const [categoryId, setCategoryId] = useState<string>();
+  const [onlyOutsideTolerance, setOnlyOutsideTolerance] = useState(true);
+  const [result, setResult] = useState<RepriceResult>();
+
+  const { data: category, isLoading: loadingCategory } =
+    useCategoryById(categoryId);
+  const {
+    data: products,
+    error: productsError,
+    isLoading: loadingProducts,
+  } = useCategoryProducts(categoryId);
+  const reprice = useRepriceProducts();
+
+  const markup = category?.defaultMarkupPercentage;
+  const plan = useMemo(
+    () =>
+      typeof markup === "number"
+        ? buildRepricePlan(products?.data ?? [], markup, {
+            onlyOutsideTolerance,
+          })
+        : [],
+    [products, markup, onlyOutsideTolerance],
+  );
+
+  const handleApply = async () => {
+    const outcome = await reprice.mutateAsync(plan);
+    if (outcome.failed.length === 0) {
+      onClose();
+    } else {
+      setResult(outcome);
+    }
+  };
+
+  const handleAfterClose = () => {
+    setCategoryId(undefined);
+    setOnlyOutsideTolerance(true);
+    setResult(undefined);
+  };
+
+  const columns: ColumnsType<RepriceChange> = [
+    {
+      title: "Part Number",
+      key: "partNumber",
+      render: (_, { product }) => (
+        <Text className="font-mono text-sm">{product.partNumber || "-"}</Text>
+      ),
+    },
+    {
+      title: "Product Name",
+      key: "name",
+      render: (_, { product }) => product.name || "-",
+    },
+    {
+      title: "Unit Cost",
+      key: "unitCost",
+      align: "right",
+      render: (_, { product }) => formatMoney(product.unitCost),
+    },
+    {
+      title: "Current Price",
+      dataIndex: "currentPrice",
+      key: "currentPrice",
+      align: "right",
+      render: (value: number | undefined) => formatMoney(value),
+    },
+    {
+      title: "New Price",
+      dataIndex: "suggestedPrice",
+      key: "suggestedPrice",
+      align: "right",
+      render: (value: number, { currentPrice }) => (
+        <Text
+          strong
+          type={value < (currentPrice ?? 0) ? "danger" : "success"}
+        >
+          {formatMoney(value)}
+        </Text>
+      ),
+    },
+  ];
+
+  return (
+    <Modal
+      title={<span className="text-xl font-semibold">Reprice Category</span>}
+      open={open}
+      onOk={handleApply}
+      onCancel={onClose}
+      afterClose={handleAfterClose}
+      okText={`Apply to ${plan.length} products`}
+      okButtonProps={{ disabled: plan.length === 0 || !!productsError }}
+      confirmLoading={reprice.isPending}
+      width={900}
+      destroyOnHidden
+    >
+      <div className="flex flex-col gap-4 mt-4">
+        <Select
+          value={categoryId}
+          onChange={(value) => {
+            setCategoryId(value);
+            setResult(undefined);
+          }}
+          placeholder="Select category"
+          options={categoryMap.map((item) => ({
+            value: item.id,
+            label: item.name,
+          }))}
+          showSearch
+          optionFilterProp="label"
+        />
+
+        {categoryId && !loadingCategory && typeof markup !== "number" && (
+          <Alert type="warning" title="This category has no default markup" />
+        )}
+
+        {typeof markup === "number" && (
+          <div className="flex justify-between items-center">
+            <Text>
+              New price = unit cost × {(1 + markup / 100).toFixed(2)} (
+              {markup}% markup)
+            </Text>
+            <Checkbox
+              checked={onlyOutsideTolerance}
+              onChange={(event) =>
+                setOnlyOutsideTolerance(event.target.checked)
+              }
+            >
+              Only products off by more than {MARKUP_TOLERANCE} pts
+            </Checkbox>
+          </div>
+        )}
+
+        {productsError && (
+          <Alert
+            type="error"
+            title="Could not load every product in this category"
+            description={productsError.message}
+          />
+        )}
+
+        {result && (
+          <Alert
+            type="error"
+            title={`${result.failed.length} products could not be updated`}
+            description={result.failed
+              .map((product) => product.partNumber || product.name)
+              .join(", ")}
+          />
+        )}
+
+        {categoryId && (
+          <Table
+            columns={columns}
+            dataSource={plan}
+            rowKey={({ product }) => product.id ?? ""}
+            loading={loadingCategory || loadingProducts}
+            size="small"
+            pagination={{ pageSize: 10, hideOnSinglePage: true }}
+            locale={{ emptyText: "No products need repricing" }}
+          />
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -1,2 +1,11 @@
 export { default as ProductTable } from "./ProductTable";
 export { default as ProductFormModal } from "./ProductFormModal";
+export { default as ProductCatalogue } from "./ProductCatalogue";
+export { default as ProductStockTable } from "./ProductStockTable";
+export type { ProductStockRow } from "./ProductStockTable";
+export { default as AdjustStockModal } from "./AdjustStockModal";
+export { default as MoveStockModal } from "./MoveStockModal";
+export type { MoveStockValues } from "./MoveStockModal";
+export { default as MarkupDeviationTag } from "./MarkupDeviationTag";
+export { default as RepriceCategoryModal } from "./RepriceCategoryModal";
+export { default as ProductImportWizard } from "./ProductImportWizard";
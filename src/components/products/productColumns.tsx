@@ -0,0 +1,150 @@
+import { Link } from "react-router";
+import { Button, Popconfirm, Space, Typography } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import type { CategoryNameDto, ProductDto } from "#src/openapi";
+import type { SortableColumn } from "#src/hooks/search";
+import { Can } from "#src/components/auth";
+import { Permissions } from "#src/utils/permissions";
+import { getMarkupDeviation } from "#src/utils/pricing";
+import MarkupDeviationTag from "./MarkupDeviationTag";
+
+const { Text } = Typography;
+
+const truncateText = (
+  text: string | null | undefined,
+  maxLength: number = 50,
+) => {
+  if (!text) return "-";
+  if (text.length <= maxLength) return text;
+  return text.substring(0, maxLength) + "...";
+};
+
+interface ProductColumnOptions {
+  categoryMap: CategoryNameDto[];
+  categoryMarkups?: Record<string, number>;
+  onEdit: (record: ProductDto) => void;
+  onDelete: (id: string) => void;
+  deleting: boolean;
+  /** `sortable` from `useTableSort` */
+  sortable: (column: string) => SortableColumn<ProductDto>;
+}
+
+/**
+ * Columns shared by the paged product table and the catalogue view
+ */
+export function buildProductColumns({
+  categoryMap,
+  categoryMarkups,
+  onEdit,
+  onDelete,
+  deleting,
+  sortable,
+}: ProductColumnOptions): ColumnsType<ProductDto> {
+  return [
+    {
+      title: "Part Number",
+      dataIndex: "partNumber",
+      ...sortable("partNumber"),
+      width: 120,
+      render: (text, record) => (
+        <Link
+          to={`/dashboard/products/${record.id}`}
+          className="font-mono text-sm font-medium"
+        >
+          {text || "-"}
+        </Link>
+      ),
+    },
+    {
+      title: "Product Name",
+      dataIndex: "name",
+      ...sortable("name"),
+      width: 200,
+      render: (text) => <Text className="font-medium">{text || "-"}</Text>,
+    },
+    {
+      title: "Description",
+      dataIndex: "description",
+      key: "description",
+      width: 250,
+      render: (text) => (
+        <Text className="text-gray-600 text-xs">{truncateText(text, 50)}</Text>
+      ),
+    },
+    {
+      title: "Category",
+      dataIndex: "categoryId",
+      key: "categoryId",
+      width: 150,
+      render: (categoryId: string) => {
+        const category = categoryMap.find((ct) => ct.id === categoryId);
+        return <Text>{category?.name || "-"}</Text>;
+      },
+    },
+    {
+      title: "Unit Cost",
+      dataIndex: "unitCost",
+      ...sortable("unitCost"),
+      width: 120,
+      align: "right",
+      render: (value: number) => (
+        <span className="font-semibold text-gray-700">
+          ${value?.toFixed(2) ?? "0.00"}
+        </span>
+      ),
+    },
+    {
+      title: "Retail Price",
+      dataIndex: "retailPrice",
+      ...sortable("retailPrice"),
+      width: 160,
+      align: "right",
+      render: (value: number | null, record) => (
+        <>
+          <span className="font-semibold text-gray-700">
+            ${value?.toFixed(2) ?? "0.00"}
+          </span>
+          <MarkupDeviationTag
+            deviation={getMarkupDeviation(
+              record,
+              record.categoryId
+                ? categoryMarkups?.[record.categoryId]
+                : undefined,
+            )}
+          />
+        </>
+      ),
+    },
+    {
+      title: "Actions",
+      key: "actions",
+      width: 150,
+      fixed: "right",
+      render: (_, record) => (
+        <Space size="small">
+          <Button
+            type="link"
+            onClick={() => onEdit(record)}
+            className="text-blue-600 hover:text-blue-700"
+          >
+            Edit
+          </Button>
+          <Can permission={Permissions.Products.Delete}>
+            <Popconfirm
+              title="Delete Product?"
+              description="Are you sure you want to delete this warehouse location?"
+              onConfirm={() => onDelete(record.id!)}
+              okText="Yes"
+              cancelText="No"
+              okButtonProps={{ danger: true, loading: deleting }}
+            >
+              <Button type="link" danger loading={deleting}>
+                Delete
+              </Button>
+            </Popconfirm>
+          </Can>
+        </Space>
+      ),
+    },
+  ];
+}
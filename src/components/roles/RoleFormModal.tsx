@@ -0,0 +1,194 @@
+import { Modal, Form, Input, Select, Switch } from "antd";
+import { useEffect } from "react";
+import type {
+  CreateRoleRequest,
+  PermissionDto,
+  RoleDto,
+  UpdateRoleRequest,
+} from "#src/openapi";
+import { accessLevelOptions } from "#src/utils/enums";
+import { useApplyFieldErrors } from "#src/utils/api";
+
+interface RoleFormModalProps {
+  open: boolean;
+  onCancel: () => void;
+  onSubmit: (values: CreateRoleRequest | UpdateRoleRequest) => Promise<void>;
+  editingRole: RoleDto | null;
+  loading: boolean;
+  permissions: PermissionDto[];
+}
+
+interface FormValues {
+  name?: string;
+  description?: string;
+  accessLevel?: number;
+  isSystemRole?: boolean;
+  permissionIds?: string[];
+}
+
+export default function RoleFormModal({
+  open,
+  onCancel,
+  onSubmit,
+  editingRole,
+  loading,
+  permissions,
+}: RoleFormModalProps) {
+  const [form] = Form.useForm<FormValues>();
+  const applyFieldErrors = useApplyFieldErrors();
+  const isEditing = !!editingRole;
+
+  useEffect(() => {
+    if (open) {
+      if (editingRole) {
+        form.setFieldsValue({
+          name: editingRole.name || undefined,
+          description: editingRole.description || undefined,
+          accessLevel: editingRole.accessLevel ?? undefined,
+          isSystemRole: editingRole.isSystemRole ?? false,
+        });
+      } else {
+        form.resetFields();
+      }
+    }
+  }, [open, editingRole, form]);
+
+  const handleSubmit = async () => {
+    try {
+      const values = await form.validateFields();
+
+      const submitData: CreateRoleRequest | UpdateRoleRequest = isEditing
+        ? {
+            name: values.name || null,
+            description: values.description || null,
+            accessLevel: values.accessLevel ?? null,
+            isSystemRole: values.isSystemRole ?? false,
+          }
+        : {
+            name: values.name || null,
+            description: values.description || null,
+            accessLevel: values.accessLevel ?? null,
+            isSystemRole: values.isSystemRole ?? false,
+            permissionIds: values.permissionIds ?? [],
+          };
+
+      await onSubmit(submitData);
+      form.resetFields();
+    } catch (error) {
+      if (!applyFieldErrors(form, error)) {
+        console.error("Form validation failed:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title={
+        <span className="text-xl font-semibold">
+          {isEditing ? "Edit Role" : "Create Role"}
+        </span>
+      }
+      open={open}
+      onOk={handleSubmit}
+      onCancel={handleCancel}
+      okText={isEditing ? "Update" : "Create"}
+      cancelText="Cancel"
+      confirmLoading={loading}
+      width={700}
+      destroyOnHidden
+    >
+      <Form
+        form={form}
+        layout="vertical"
+        className="mt-4"
+        initialValues={{ isSystemRole: false }}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Form.Item
+            label={
+              <label className="text-sm font-medium text-gray-700">Name</label>
+            }
+            name="name"
+            rules={[{ required: true, message: "Role name is required" }]}
+          >
+            <Input
+              placeholder="e.g., Warehouse Manager"
+              size="large"
+              className="rounded"
+            />
+          </Form.Item>
+
+          <Form.Item
+            label={
+              <label className="text-sm font-medium text-gray-700">
+                Access Level
+              </label>
+            }
+            name="accessLevel"
+            rules={[{ required: true, message: "Access level is required" }]}
+          >
+            <Select
+              size="large"
+              placeholder="Select access level"
+              options={accessLevelOptions}
+            />
+          </Form.Item>
+        </div>
+
+        <Form.Item
+          label={
+            <label className="text-sm font-medium text-gray-700">
+              Description
+            </label>
+          }
+          name="description"
+        >
+          <Input.TextArea
+            placeholder="Describe what this role is for"
+            rows={3}
+            className="rounded"
+          />
+        </Form.Item>
+
+        {!isEditing && (
+          <Form.Item
+            label={
+              <label className="text-sm font-medium text-gray-700">
+                Permissions
+              </label>
+            }
+            name="permissionIds"
+          >
+            <Select
+              mode="multiple"
+              size="large"
+              placeholder="Select initial permissions"
+              options={permissions.map((permission) => ({
+                value: permission.id,
+                label: permission.name,
+              }))}
+              optionFilterProp="label"
+            />
+          </Form.Item>
+        )}
+
+        <Form.Item
+          label={
+            <label className="text-sm font-medium text-gray-700">
+              System Role
+            </label>
+          }
+          name="isSystemRole"
+          valuePropName="checked"
+        >
+          <Switch />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Modal, Transfer, Typography } from "antd";
+import type { PermissionDto, RoleDto } from "#src/openapi";
+
+const { Text } = Typography;
+
+interface RolePermissionModalProps {
+  open: boolean;
+  role: RoleDto | null;
+  permissions: PermissionDto[];
+  loading: boolean;
+  onCancel: () => void;
+  onSubmit: (payload: { current: string[]; next: string[] }) => Promise<void>;
+}
+
+interface PermissionItem {
+  key: string;
+  title: string;
+  description: string;
+}
+
+/**
+ * Dual-list permission assigner.
+ * Render with `key={role.id}` so the selection is re-seeded per role.
+ */
+export default function RolePermissionModal({
+  open,
+  role,
+  permissions,
+  loading,
+  onCancel,
+  onSubmit,
+}: RolePermissionModalProps) {
+  const currentIds = (role?.permissions ?? [])
+    .map((permission) => permission.id)
+    .filter((id): id is string => !!id);
+  const [targetKeys, setTargetKeys] = useState<string[]>(currentIds);
+
+  // Permissions already on the role may be missing from the loaded list,
+  // so merge them in to keep them visible on the right-hand side.
+  const dataSource: PermissionItem[] = [
+    ...permissions,
+    ...(role?.permissions ?? []).filter(
+      (assigned) => !permissions.some((item) => item.id === assigned.id),
+    ),
+  ]
+    .filter((permission) => !!permission.id)
+    .map((permission) => ({
+      key: permission.id!,
+      title: permission.name || "-",
+      description: permission.description || "",
+    }));
+
+  const changeCount =
+    targetKeys.filter((id) => !currentIds.includes(id)).length +
+    currentIds.filter((id) => !targetKeys.includes(id)).length;
+
+  const handleSubmit = async () => {
+    try {
+      await onSubmit({ current: currentIds, next: targetKeys });
+    } catch (error) {
+      console.error("Permission update failed:", error);
+    }
+  };
+
+  return (
+    <Modal
+      title={
+        <span className="text-xl font-semibold">
+          Permissions — {role?.name || "Role"}
+        </span>
+      }
+      open={open}
+      onOk={handleSubmit}
+      onCancel={onCancel}
+      okText="Save"
+      cancelText="Cancel"
+      okButtonProps={{ disabled: changeCount === 0 }}
+      confirmLoading={loading}
+      width={800}
+      destroyOnHidden
+    >
+      <div className="mt-4 flex flex-col gap-3">
+        <Transfer<PermissionItem>
+          dataSource={dataSource}
+          targetKeys={targetKeys}
+          onChange={(keys) => setTargetKeys(keys as string[])}
+          titles={["Available", "Assigned"]}
+          render={(item) => item.title}
+          showSearch
+          filterOption={(input, item) =>
+            `${item.title} ${item.description}`
+              .toLowerCase()
+              .includes(input.toLowerCase())
+          }
+          styles={{ section: { width: 340, height: 360 } }}
+        />
+        <Text type="secondary" className="text-xs">
+          {changeCount === 0
+            ? "No changes"
+            : `${changeCount} pending change${changeCount === 1 ? "" : "s"}`}
+        </Text>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,174 @@
+import { Button, Popconfirm, Table, Tag, Tooltip, Typography } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { KeyRound, SquarePen, Trash } from "lucide-react";
+import type { AccessLevel, RoleDto } from "#src/openapi";
+import { accessLevelColors, getAccessLevelLabel } from "#src/utils/enums";
+import { Can } from "#src/components/auth";
+import { Permissions } from "#src/utils/permissions";
+
+const { Text } = Typography;
+
+interface RoleTableProps {
+  data: RoleDto[];
+  loading: boolean;
+  onEdit: (record: RoleDto) => void;
+  onEditPermissions: (record: RoleDto) => void;
+  onDelete: (id: string) => void;
+  deleting: boolean;
+  currentPage: number;
+  pageSize: number;
+  total: number;
+  onPaginationChange: (page: number, pageSize: number) => void;
+}
+
+export default function RoleTable({
+  data,
+  loading,
+  onEdit,
+  onEditPermissions,
+  onDelete,
+  deleting,
+  currentPage,
+  pageSize,
+  total,
+  onPaginationChange,
+}: RoleTableProps) {
+  const columns: ColumnsType<RoleDto> = [
+    {
+      title: "Name",
+      dataIndex: "name",
+      key: "name",
+      width: 200,
+      render: (text: string | null | undefined, record) => (
+        <span className="flex items-center gap-2">
+          <Text className="font-medium">{text || "-"}</Text>
+          {record.isSystemRole && <Tag color="gold">System</Tag>}
+        </span>
+      ),
+    },
+    {
+      title: "Description",
+      dataIndex: "description",
+      key: "description",
+      width: 280,
+      render: (text: string | null | undefined) => (
+        <Text className="text-gray-600 text-xs">{text || "-"}</Text>
+      ),
+    },
+    {
+      title: "Access Level",
+      dataIndex: "accessLevel",
+      key: "accessLevel",
+      width: 160,
+      render: (value: number | null | undefined) =>
+        typeof value === "number" ? (
+          <Tag color={accessLevelColors[value as AccessLevel] ?? "default"}>
+            {getAccessLevelLabel(value)}
+          </Tag>
+        ) : (
+          <Text type="secondary">-</Text>
+        ),
+    },
+    {
+      title: "Permissions",
+      dataIndex: "permissions",
+      key: "permissions",
+      width: 120,
+      align: "right",
+      render: (permissions: RoleDto["permissions"]) => (
+        <span className="font-semibold text-gray-700">
+          {permissions?.length ?? 0}
+        </span>
+      ),
+    },
+    {
+      title: "Actions",
+      key: "actions",
+      width: 160,
+      fixed: "right",
+      render: (_, record) => {
+        const hasId = !!record.id;
+        const isProtected = !!record.isSystemRole;
+
+        return (
+          <div className="flex gap-1">
+            <Tooltip title="Edit role">
+              <Button
+                type="link"
+                onClick={() => onEdit(record)}
+                disabled={!hasId}
+                className="text-blue-600 hover:text-blue-700"
+              >
+                <SquarePen className="w-4 h-4" />
+              </Button>
+            </Tooltip>
+
+            <Tooltip title="Manage permissions">
+              <Button
+                type="link"
+                onClick={() => onEditPermissions(record)}
+                disabled={!hasId}
+                className="text-slate-600 hover:text-slate-700"
+              >
+                <KeyRound className="w-4 h-4" />
+              </Button>
+            </Tooltip>
+
+            <Can permission={Permissions.Roles.Delete}>
+              <Popconfirm
+                title="Delete Role"
+                description="Are you sure you want to delete this role?"
+                onConfirm={() => {
+                  if (record.id) {
+                    onDelete(record.id);
+                  }
+                }}
+                okText="Yes"
+                cancelText="No"
+                okButtonProps={{ danger: true, loading: deleting }}
+                disabled={!hasId || isProtected}
+              >
+                <Tooltip
+                  title={
+                    isProtected
+                      ? "System roles cannot be deleted"
+                      : "Delete role"
+                  }
+                >
+                  <Button
+                    type="link"
+                    danger
+                    loading={deleting}
+                    disabled={!hasId || isProtected}
+                  >
+                    <Trash className="w-4 h-4" />
+                  </Button>
+                </Tooltip>
+              </Popconfirm>
+            </Can>
+          </div>
+        );
+      },
+    },
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={data}
+      rowKey="id"
+      loading={loading}
+      pagination={{
+        current: currentPage,
+        pageSize,
+        total,
+        showSizeChanger: true,
+        onChange: onPaginationChange,
+        showTotal: (count, range) =>
+          `${range[0]}-${range[1]} of ${count} items`,
+      }}
+      className="bg-white rounded-lg shadow"
+      scroll={{ x: 950 }}
+    />
+  );
+}
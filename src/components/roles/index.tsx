@@ -0,0 +1,3 @@
+export { default as RoleTable } from "./RoleTable";
+export { default as RoleFormModal } from "./RoleFormModal";
+export { default as RolePermissionModal } from "./RolePermissionModal";
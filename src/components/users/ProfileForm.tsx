@@ -0,0 +1,180 @@
+import { Button, Form, Input, Select } from "antd";
+import type { UpdateUserRequest, UserDetailDto } from "#src/openapi";
+import { genderOptions } from "#src/utils/enums";
+import { useApplyFieldErrors } from "#src/utils/api";
+
+interface ProfileFormProps {
+  user: UserDetailDto;
+  loading: boolean;
+  onSubmit: (values: UpdateUserRequest) => Promise<void>;
+}
+
+interface FormValues {
+  firstName: string;
+  lastName: string;
+  phoneNumber?: string;
+  gender?: string;
+  dob?: string;
+}
+
+const NAME_PATTERN = /^[\p{L}][\p{L}\s'.-]*$/u;
+
+const toDateInput = (value: string | null | undefined) =>
+  value ? value.slice(0, 10) : undefined;
+
+/**
+ * Edits the signed-in user's own details.
+ * Render with `key={user.id}` so the fields are seeded from the loaded user.
+ */
+export default function ProfileForm({
+  user,
+  loading,
+  onSubmit,
+}: ProfileFormProps) {
+  const [form] = Form.useForm<FormValues>();
+  const applyFieldErrors = useApplyFieldErrors();
+
+  const handleFinish = async (values: FormValues) => {
+    try {
+      await onSubmit({
+        id: user.id ?? undefined,
+        email: user.email,
+        firstName: values.firstName.trim(),
+        lastName: values.lastName.trim(),
+        phoneNumber: values.phoneNumber?.trim() || null,
+        gender: values.gender || null,
+        dob: values.dob ? new Date(values.dob).toISOString() : null,
+      });
+    } catch (error) {
+      if (!applyFieldErrors(form, error)) {
+        console.error("Profile update failed:", error);
+      }
+    }
+  };
+
+  const label = (text: string) => (
+    <label className="text-sm font-medium text-gray-700">{text}</label>
+  );
+
+  return (
+    <Form
+      form={form}
+      layout="vertical"
+      onFinish={handleFinish}
+      initialValues={{
+        firstName: user.firstName ?? "",
+        lastName: user.lastName ?? "",
+        phoneNumber: user.phoneNumber ?? undefined,
+        gender: user.gender ?? undefined,
+        dob: toDateInput(user.dateOfBirth),
+      }}
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Form.Item
+          label={label("First Name")}
+          name="firstName"
+          rules={[
+            {
+              required: true,
+              whitespace: true,
+              message: "First name is required",
+            },
+            { max: 50, message: "First name must not exceed 50 characters" },
+            {
+              pattern: NAME_PATTERN,
+              message: "First name can only contain letters",
+            },
+          ]}
+        >
+          <Input size="large" className="rounded" />
+        </Form.Item>
+
+        <Form.Item
+          label={label("Last Name")}
+          name="lastName"
+          rules={[
+            {
+              required: true,
+              whitespace: true,
+              message: "Last name is required",
+            },
+            { max: 50, message: "Last name must not exceed 50 characters" },
+            {
+              pattern: NAME_PATTERN,
+              message: "Last name can only contain letters",
+            },
+          ]}
+        >
+          <Input size="large" className="rounded" />
+        </Form.Item>
+
+        <Form.Item
+          label={label("Phone Number")}
+          name="phoneNumber"
+          rules={[
+            {
+              pattern: /^\+?[0-9\s()-]{8,20}$/,
+              message: "Please enter a valid phone number",
+            },
+          ]}
+        >
+          <Input
+            placeholder="e.g., 0901 234 567"
+            size="large"
+            className="rounded"
+          />
+        </Form.Item>
+
+        <Form.Item label={label("Gender")} name="gender">
+          <Select
+            size="large"
+            placeholder="Select gender"
+            options={genderOptions}
+            allowClear
+          />
+        </Form.Item>
+
+        <Form.Item
+          label={label("Date of Birth")}
+          name="dob"
+          rules={[
+            {
+              validator: (_, value?: string) => {
+                if (!value) {
+                  return Promise.resolve();
+                }
+
+                const date = new Date(value);
+                if (Number.isNaN(date.getTime())) {
+                  return Promise.reject(new Error("Please enter a valid date"));
+                }
+                if (date > new Date()) {
+                  return Promise.reject(
+                    new Error("Date of birth cannot be in the future"),
+                  );
+                }
+                if (date.getFullYear() < 1900) {
+                  return Promise.reject(
+                    new Error("Date of birth must be after 1900"),
+                  );
+                }
+                return Promise.resolve();
+              },
+            },
+          ]}
+        >
+          <Input type="date" size="large" className="rounded" />
+        </Form.Item>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button onClick={() => form.resetFields()} disabled={loading}>
+          Reset
+        </Button>
+        <Button type="primary" htmlType="submit" loading={loading}>
+          Save Changes
+        </Button>
+      </div>
+    </Form>
+  );
+}
@@ -0,0 +1,17 @@
+import { Avatar } from "antd";
+import type { UserDetailDto } from "#src/openapi";
+
+interface UserAvatarProps {
+  user: UserDetailDto | undefined;
+  size?: number;
+}
+
+export default function UserAvatar({ user, size = 32 }: UserAvatarProps) {
+  const initials = `${user?.firstName?.[0] ?? ""}${user?.lastName?.[0] ?? ""}`;
+
+  return (
+    <Avatar size={size} className="bg-blue-500! shrink-0">
+      {initials.toUpperCase() || user?.userName?.[0]?.toUpperCase() || "?"}
+    </Avatar>
+  );
+}
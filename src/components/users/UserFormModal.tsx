@@ -0,0 +1,331 @@
+import { Modal, Form, Input, InputNumber, Select } from "antd";
+import { useEffect } from "react";
+import type {
+  CreateUserByAdminRequest,
+  DepartmentDto,
+  JobPositionDto,
+  UpdateUserByManagerRequest,
+  UserDetailDto,
+} from "#src/openapi";
+import { genderOptions } from "#src/utils/enums";
+import { useApplyFieldErrors } from "#src/utils/api";
+
+interface UserFormModalProps {
+  open: boolean;
+  mode: "create" | "edit";
+  onCancel: () => void;
+  onSubmit: (
+    values: CreateUserByAdminRequest | UpdateUserByManagerRequest,
+  ) => Promise<void>;
+  editingUser: UserDetailDto | null;
+  loading: boolean;
+  departments: DepartmentDto[];
+  jobPositions: JobPositionDto[];
+}
+
+interface FormValues {
+  id?: string;
+  firstName?: string;
+  lastName?: string;
+  userName?: string;
+  email?: string;
+  password?: string;
+  confirmPassword?: string;
+  phoneNumber?: string;
+  gender?: string;
+  dateOfBirth?: string;
+  addressLocationId?: number;
+  departmentId?: string;
+  jobPositionId?: string;
+}
+
+// The admin request contracts declare department/job position ids as numbers
+// while their DTOs expose string ids, so only numeric ids can be forwarded.
+const toNumericId = (value: string | undefined): number | null => {
+  if (!value) return null;
+
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : null;
+};
+
+const toDateInput = (value: string | null | undefined) =>
+  value ? value.slice(0, 10) : undefined;
+
+export default function UserFormModal({
+  open,
+  mode,
+  onCancel,
+  onSubmit,
+  editingUser,
+  loading,
+  departments,
+  jobPositions,
+}: UserFormModalProps) {
+  const [form] = Form.useForm<FormValues>();
+  const applyFieldErrors = useApplyFieldErrors();
+  const isEditing = mode === "edit";
+
+  useEffect(() => {
+    if (open) {
+      if (editingUser) {
+        form.setFieldsValue({
+          id: editingUser.id || undefined,
+          firstName: editingUser.firstName || undefined,
+          lastName: editingUser.lastName || undefined,
+          userName: editingUser.userName || undefined,
+          email: editingUser.email || undefined,
+          phoneNumber: editingUser.phoneNumber || undefined,
+          gender: editingUser.gender || undefined,
+          dateOfBirth: toDateInput(editingUser.dateOfBirth),
+          departmentId: editingUser.departmentId || undefined,
+          jobPositionId: editingUser.jobPositionId || undefined,
+        });
+      } else {
+        form.resetFields();
+      }
+    }
+  }, [open, editingUser, form]);
+
+  const handleSubmit = async () => {
+    try {
+      const values = await form.validateFields();
+
+      const sharedData = {
+        firstName: values.firstName || null,
+        lastName: values.lastName || null,
+        email: values.email || null,
+        userName: values.userName || null,
+        password: values.password || null,
+        confirmPassword: values.confirmPassword || null,
+        phoneNumber: values.phoneNumber || null,
+        gender: values.gender || null,
+        dateOfBirth: values.dateOfBirth
+          ? new Date(values.dateOfBirth).toISOString()
+          : undefined,
+        addressLocationId: values.addressLocationId ?? null,
+        departmentId: toNumericId(values.departmentId),
+        jobPositionId: toNumericId(values.jobPositionId),
+      };
+
+      const submitData: CreateUserByAdminRequest | UpdateUserByManagerRequest =
+        isEditing ? { id: values.id, ...sharedData } : sharedData;
+
+      await onSubmit(submitData);
+      form.resetFields();
+    } catch (error) {
+      if (!applyFieldErrors(form, error)) {
+        console.error("Form validation failed:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    onCancel();
+  };
+
+  const label = (text: string) => (
+    <label className="text-sm font-medium text-gray-700">{text}</label>
+  );
+
+  return (
+    <Modal
+      title={
+        <span className="text-xl font-semibold">
+          {isEditing ? "Edit User" : "Create User"}
+        </span>
+      }
+      open={open}
+      onOk={handleSubmit}
+      onCancel={handleCancel}
+      okText={isEditing ? "Update" : "Create"}
+      cancelText="Cancel"
+      confirmLoading={loading}
+      width={800}
+      destroyOnHidden
+    >
+      <Form form={form} layout="vertical" className="mt-4">
+        {isEditing && (
+          <Form.Item
+            label={label("User ID")}
+            name="id"
+            rules={[{ required: true, message: "User ID is required" }]}
+          >
+            <Input
+              placeholder="User ID"
+              size="large"
+              className="rounded font-mono"
+              disabled={!!editingUser?.id}
+            />
+          </Form.Item>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Form.Item
+            label={label("First Name")}
+            name="firstName"
+            rules={[{ required: true, message: "First name is required" }]}
+          >
+            <Input placeholder="e.g., Minh" size="large" className="rounded" />
+          </Form.Item>
+
+          <Form.Item
+            label={label("Last Name")}
+            name="lastName"
+            rules={[{ required: true, message: "Last name is required" }]}
+          >
+            <Input placeholder="e.g., Tran" size="large" className="rounded" />
+          </Form.Item>
+
+          <Form.Item
+            label={label("Username")}
+            name="userName"
+            rules={[
+              { required: true, message: "Username is required" },
+              { min: 3, message: "Username must be at least 3 characters" },
+            ]}
+          >
+            <Input
+              placeholder="e.g., mtran"
+              size="large"
+              className="rounded font-mono"
+            />
+          </Form.Item>
+
+          <Form.Item
+            label={label("Email")}
+            name="email"
+            rules={[
+              { required: true, message: "Email is required" },
+              { type: "email", message: "Please enter a valid email" },
+            ]}
+          >
+            <Input
+              placeholder="e.g., mtran@autopart.vn"
+              size="large"
+              className="rounded"
+            />
+          </Form.Item>
+
+          <Form.Item
+            label={label(isEditing ? "New Password" : "Password")}
+            name="password"
+            rules={[
+              { required: !isEditing, message: "Password is required" },
+              { min: 6, message: "Password must be at least 6 characters" },
+            ]}
+          >
+            <Input.Password
+              placeholder={
+                isEditing ? "Leave blank to keep current" : "Initial password"
+              }
+              size="large"
+              className="rounded"
+            />
+          </Form.Item>
+
+          <Form.Item
+            label={label("Confirm Password")}
+            name="confirmPassword"
+            dependencies={["password"]}
+            rules={[
+              ({ getFieldValue }) => ({
+                validator(_, value) {
+                  const password = getFieldValue("password");
+                  if (!password && !value) {
+                    return Promise.resolve();
+                  }
+                  if (password === value) {
+                    return Promise.resolve();
+                  }
+                  return Promise.reject(new Error("Passwords do not match"));
+                },
+              }),
+            ]}
+          >
+            <Input.Password
+              placeholder="Repeat the password"
+              size="large"
+              className="rounded"
+            />
+          </Form.Item>
+
+          <Form.Item
+            label={label("Phone Number")}
+            name="phoneNumber"
+            rules={[
+              {
+                pattern: /^[0-9+\-\s()]*$/,
+                message: "Phone number can only contain digits and + - ( )",
+              },
+            ]}
+          >
+            <Input
+              placeholder="e.g., 0901 234 567"
+              size="large"
+              className="rounded"
+            />
+          </Form.Item>
+
+          <Form.Item label={label("Gender")} name="gender">
+            <Select
+              size="large"
+              placeholder="Select gender"
+              options={genderOptions}
+              allowClear
+            />
+          </Form.Item>
+
+          <Form.Item
+            label={label("Date of Birth")}
+            name="dateOfBirth"
+            rules={[{ required: true, message: "Date of birth is required" }]}
+          >
+            <Input type="date" size="large" className="rounded" />
+          </Form.Item>
+
+          <Form.Item
+            label={label("Address Location ID")}
+            name="addressLocationId"
+          >
+            <InputNumber
+              placeholder="e.g., 12"
+              size="large"
+              min={0}
+              precision={0}
+              className="w-full rounded"
+            />
+          </Form.Item>
+
+          <Form.Item label={label("Department")} name="departmentId">
+            <Select
+              size="large"
+              placeholder="Select department"
+              options={departments.map((department) => ({
+                value: department.id,
+                label: department.name,
+              }))}
+              allowClear
+              showSearch
+              optionFilterProp="label"
+            />
+          </Form.Item>
+
+          <Form.Item label={label("Job Position")} name="jobPositionId">
+            <Select
+              size="large"
+              placeholder="Select job position"
+              options={jobPositions.map((position) => ({
+                value: position.id,
+                label: position.name,
+              }))}
+              allowClear
+              showSearch
+              optionFilterProp="label"
+            />
+          </Form.Item>
+        </div>
+      </Form>
+    </Modal>
+  );
+}
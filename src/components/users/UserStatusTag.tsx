@@ -0,0 +1,17 @@
+import { Tag } from "antd";
+
+interface UserStatusTagProps {
+  isActive?: boolean;
+}
+
+export default function UserStatusTag({ isActive }: UserStatusTagProps) {
+  if (isActive === undefined) {
+    return <Tag>Unknown</Tag>;
+  }
+
+  return (
+    <Tag color={isActive ? "green" : "red"}>
+      {isActive ? "Active" : "Inactive"}
+    </Tag>
+  );
+}
@@ -0,0 +1,134 @@
+import { Button, Table, Tooltip, Typography } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { SquarePen } from "lucide-react";
+import type {
+  DepartmentDto,
+  JobPositionDto,
+  UserDetailDto,
+} from "#src/openapi";
+import UserStatusTag from "./UserStatusTag";
+
+const { Text } = Typography;
+
+interface UserTableProps {
+  data: UserDetailDto[];
+  loading: boolean;
+  departments: DepartmentDto[];
+  jobPositions: JobPositionDto[];
+  onEdit: (record: UserDetailDto) => void;
+}
+
+const formatDate = (value: string | null | undefined) => {
+  if (!value) return "-";
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString();
+};
+
+export default function UserTable({
+  data,
+  loading,
+  departments,
+  jobPositions,
+  onEdit,
+}: UserTableProps) {
+  const columns: ColumnsType<UserDetailDto> = [
+    {
+      title: "Name",
+      key: "name",
+      width: 200,
+      render: (_, record) => (
+        <Text className="font-medium">
+          {[record.firstName, record.lastName].filter(Boolean).join(" ") ||
+            "-"}
+        </Text>
+      ),
+    },
+    {
+      title: "Username",
+      dataIndex: "userName",
+      key: "userName",
+      width: 160,
+      render: (text: string | null | undefined) => (
+        <Text className="font-mono text-sm">{text || "-"}</Text>
+      ),
+    },
+    {
+      title: "Email",
+      dataIndex: "email",
+      key: "email",
+      width: 220,
+      render: (text: string | null | undefined) => <Text>{text || "-"}</Text>,
+    },
+    {
+      title: "Department",
+      dataIndex: "departmentId",
+      key: "departmentId",
+      width: 160,
+      render: (departmentId: string | null | undefined) => (
+        <Text>
+          {departments.find((item) => item.id === departmentId)?.name || "-"}
+        </Text>
+      ),
+    },
+    {
+      title: "Job Position",
+      dataIndex: "jobPositionId",
+      key: "jobPositionId",
+      width: 160,
+      render: (jobPositionId: string | null | undefined) => (
+        <Text>
+          {jobPositions.find((item) => item.id === jobPositionId)?.name || "-"}
+        </Text>
+      ),
+    },
+    {
+      title: "Date of Birth",
+      dataIndex: "dateOfBirth",
+      key: "dateOfBirth",
+      width: 130,
+      render: (value: string | null | undefined) => (
+        <Text>{formatDate(value)}</Text>
+      ),
+    },
+    {
+      title: "Status",
+      dataIndex: "isActive",
+      key: "isActive",
+      width: 110,
+      render: (value: boolean | undefined) => (
+        <UserStatusTag isActive={value} />
+      ),
+    },
+    {
+      title: "Actions",
+      key: "actions",
+      width: 90,
+      fixed: "right",
+      render: (_, record) => (
+        <Tooltip title="Edit user">
+          <Button
+            type="link"
+            onClick={() => onEdit(record)}
+            disabled={!record.id}
+            className="text-blue-600 hover:text-blue-700"
+          >
+            <SquarePen className="w-4 h-4" />
+          </Button>
+        </Tooltip>
+      ),
+    },
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={data}
+      rowKey="id"
+      loading={loading}
+      pagination={false}
+      className="bg-white rounded-lg shadow"
+      scroll={{ x: 1200 }}
+    />
+  );
+}
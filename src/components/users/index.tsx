@@ -0,0 +1,5 @@
+export { default as UserTable } from "./UserTable";
+export { default as UserFormModal } from "./UserFormModal";
+export { default as UserStatusTag } from "./UserStatusTag";
+export { default as ProfileForm } from "./ProfileForm";
+export { default as UserAvatar } from "./UserAvatar";
@@ -5,6 +5,7 @@ import type {
 } from "#src/openapi";
 import { Modal, Form, Input, InputNumber } from "antd";
 import { useEffect } from "react";
+import { useApplyFieldErrors } from "#src/utils/api";
 
 interface PartLocationFormModalProps {
   open: boolean;
@@ -30,6 +31,7 @@ export default function PartLocationFormModal({
   loading,
 }: PartLocationFormModalProps) {
   const [form] = Form.useForm<FormValues>();
+  const applyFieldErrors = useApplyFieldErrors();
   const isEditing = !!editingPartLocation;
 
   useEffect(() => {
@@ -73,7 +75,9 @@ export default function PartLocationFormModal({
       await onSubmit(submitData);
       form.resetFields();
     } catch (error) {
-      console.error("Form validation failed:", error);
+      if (!applyFieldErrors(form, error)) {
+        console.error("Form validation failed:", error);
+      }
     }
   };
 
@@ -1,6 +1,8 @@
 import type { PartLocationDto } from "#src/openapi";
 import { Table, Button, Space, Popconfirm, Typography } from "antd";
 import type { ColumnsType } from "antd/es/table";
+import { Can } from "#src/components/auth";
+import { Permissions } from "#src/utils/permissions";
 
 const { Text } = Typography;
 
@@ -55,18 +57,20 @@ export default function PartLocationTable({
           >
             Edit
           </Button>
-          <Popconfirm
-            title="Delete Part Location"
-            description="Are you sure you want to delete this part location?"
-            onConfirm={() => onDelete(record.id!)}
-            okText="Yes"
-            cancelText="No"
-            okButtonProps={{ danger: true, loading: deleting }}
-          >
-            <Button type="link" danger loading={deleting}>
-              Delete
-            </Button>
-          </Popconfirm>
+          <Can permission={Permissions.PartLocations.Delete}>
+            <Popconfirm
+              title="Delete Part Location"
+              description="Are you sure you want to delete this part location?"
+              onConfirm={() => onDelete(record.id!)}
+              okText="Yes"
+              cancelText="No"
+              okButtonProps={{ danger: true, loading: deleting }}
+            >
+              <Button type="link" danger loading={deleting}>
+                Delete
+              </Button>
+            </Popconfirm>
+          </Can>
         </Space>
       ),
     },
@@ -5,6 +5,7 @@ import type {
 } from "#src/openapi";
 import { Modal, Form, Input, InputNumber, Switch } from "antd";
 import { useEffect } from "react";
+import { useApplyFieldErrors } from "#src/utils/api";
 interface WarehouseFormModalProps {
   open: boolean;
   onCancel: () => void;
@@ -31,6 +32,7 @@ export default function WarehouseFormModal({
   loading,
 }: WarehouseFormModalProps) {
   const [form] = Form.useForm<FormValues>();
+  const applyFieldErrors = useApplyFieldErrors();
   const isEditing = !!editingWarehouse;
 
   useEffect(() => {
@@ -81,7 +83,9 @@ export default function WarehouseFormModal({
       await onSubmit(submitData);
       form.resetFields();
     } catch (error) {
-      console.error("Form validation failed:", error);
+      if (!applyFieldErrors(form, error)) {
+        console.error("Form validation failed:", error);
+      }
     }
   };
 
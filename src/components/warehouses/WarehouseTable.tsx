@@ -3,8 +3,11 @@ import { Table, Button, Popconfirm, Typography } from "antd";
 import type { ColumnsType } from "antd/es/table";
 import type {} from "#src/apis/warehouses";
 import { useWarehouseById } from "#src/hooks/warehouses";
-import type { ExistingPart, WarehouseLocationDto } from "#src/openapi";
+import { useTableSort } from "#src/hooks/search";
+import type { ExistingPart, Sort, WarehouseLocationDto } from "#src/openapi";
 import { SquarePen, Trash } from "lucide-react";
+import { Can } from "#src/components/auth";
+import { Permissions } from "#src/utils/permissions";
 
 const { Text } = Typography;
 
@@ -18,6 +21,8 @@ interface WarehouseTableProps {
   pageSize: number;
   total: number;
   onPaginationChange: (page: number, pageSize: number) => void;
+  sort?: Sort;
+  onSortChange?: (sort: Sort | undefined) => void;
 }
 
 function ExpandedPartsTable({ warehouseId }: { warehouseId: string }) {
@@ -91,7 +96,13 @@ export default function WarehouseTable({
   pageSize,
   total,
   onPaginationChange,
+  sort,
+  onSortChange,
 }: WarehouseTableProps) {
+  const { sortable, onChange } = useTableSort<WarehouseLocationDto>(
+    sort,
+    onSortChange,
+  );
   const [expandedRowKeys, setExpandedRowKeys] = useState<string[]>([]);
   const handleExpand = (expanded: boolean, record: WarehouseLocationDto) => {
     if (!record.id) {
@@ -117,28 +128,28 @@ export default function WarehouseTable({
     {
       title: "Zone Code",
       dataIndex: "zoneCode",
-      key: "zoneCode",
+      ...sortable("zoneCode"),
       render: (text) => <Text>{text || "-"}</Text>,
       width: 150,
     },
     {
       title: "Aisle",
       dataIndex: "aisle",
-      key: "aisle",
+      ...sortable("aisle"),
       width: 100,
       render: (text) => <Text>{text}</Text>,
     },
     {
       title: "Shelf",
       dataIndex: "shelf",
-      key: "shelf",
+      ...sortable("shelf"),
       width: 100,
       render: (text) => <Text>{text}</Text>,
     },
     {
       title: "Bin",
       dataIndex: "bin",
-      key: "bin",
+      ...sortable("bin"),
       width: 100,
       render: (text) => <Text>{text || "-"}</Text>,
     },
@@ -171,18 +182,20 @@ export default function WarehouseTable({
           >
             <SquarePen className="w-4 h-4" />
           </Button>
-          <Popconfirm
-            title="Delete Warehouse"
-            description="Are you sure you want to delete this warehouse location?"
-            onConfirm={() => onDelete(record.id!)}
-            okText="Yes"
-            cancelText="No"
-            okButtonProps={{ danger: true, loading: deleting }}
-          >
-            <Button type="link" danger loading={deleting}>
-              <Trash className="w-4 h-4" />
-            </Button>
-          </Popconfirm>
+          <Can permission={Permissions.Warehouses.Delete}>
+            <Popconfirm
+              title="Delete Warehouse"
+              description="Are you sure you want to delete this warehouse location?"
+              onConfirm={() => onDelete(record.id!)}
+              okText="Yes"
+              cancelText="No"
+              okButtonProps={{ danger: true, loading: deleting }}
+            >
+              <Button type="link" danger loading={deleting}>
+                <Trash className="w-4 h-4" />
+              </Button>
+            </Popconfirm>
+          </Can>
         </div>
       ),
     },
@@ -192,6 +205,7 @@ export default function WarehouseTable({
     <Table
       columns={columns}
       dataSource={data}
+      onChange={onChange}
       rowKey="id"
       loading={loading}
       expandable={{
@@ -6,14 +6,22 @@ import {
   Cog,
   ShieldCog,
   Users,
+  Receipt,
+  Contact,
+  Network,
+  BriefcaseBusiness,
 } from "lucide-react";
 import type { ReactElement } from "react";
+import { Permissions } from "#src/utils/permissions";
 
 /**
  * Represents a single item in the dashboard sidebar.
  *
  * - `href`  — absolute route path (must match a route registered in src/routes/core/dashboard.ts)
  * - `label` — display text shown in the sidebar
+ * - `permissions` — optional permissions the user must hold; the item is
+ *              hidden otherwise, and a group is hidden when none of its
+ *              children remain visible
  * - `icon`  — optional icon element; accepts any React element so you can use
  *              Lucide icons, Ant Design icons, or raw font/svg icons:
  *
@@ -27,6 +35,7 @@ export interface DashboardNavItem {
   href: string;
   label: string;
   icon?: ReactElement;
+  permissions?: readonly string[];
   children?: DashboardNavItem[];
 }
 
@@ -47,31 +56,60 @@ export const dashboardNavItems: DashboardNavItem[] = [
     href: "/dashboard/warehouse",
     label: "Warehouse",
     icon: <Warehouse size={18} />,
+    permissions: [Permissions.Warehouses.View],
   },
   {
     href: "/dashboard/products",
     label: "Products",
     icon: <Package size={18} />,
+    permissions: [Permissions.Products.View],
   },
   {
     href: "/dashboard/categories",
     label: "Categories",
     icon: <FolderTree size={18} />,
+    permissions: [Permissions.Categories.View],
+  },
+  {
+    href: "/dashboard/invoices",
+    label: "Invoices",
+    icon: <Receipt size={18} />,
+    permissions: [Permissions.Invoices.View],
+  },
+  {
+    href: "/dashboard/customers",
+    label: "Customers",
+    icon: <Contact size={18} />,
+    permissions: [Permissions.Customers.View],
   },
   {
     href: "",
     label: "System Settings",
     icon: <Cog size={18} />,
     children: [
+      {
+        href: "/dashboard/departments",
+        label: "Departments",
+        icon: <Network size={18} />,
+        permissions: [Permissions.Departments.View],
+      },
+      {
+        href: "/dashboard/job-positions",
+        label: "Job Positions",
+        icon: <BriefcaseBusiness size={18} />,
+        permissions: [Permissions.JobPositions.View],
+      },
       {
         href: "/dashboard/roles",
         label: "Roles",
         icon: <ShieldCog size={18} />,
+        permissions: [Permissions.Roles.View],
       },
       {
         href: "/dashboard/users",
         label: "Manage users",
         icon: <Users size={18} />,
+        permissions: [Permissions.Users.View],
       },
     ],
   },
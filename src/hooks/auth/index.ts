@@ -5,15 +5,35 @@
  * and authentication state management with React hooks
  */
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { useSelector, useDispatch } from "react-redux";
 import type { ApiError, UseApiMutationOptions } from "#src/utils/api";
 import {
   tokenManager,
   handleApiError,
   useApiMutation,
+  useFetch,
   api,
+  decodeTokenClaims,
+  emitSessionEvent,
+  refreshSession,
+  subscribeSessionEvents,
 } from "#src/utils/api";
+import type { SessionEventType } from "#src/utils/api";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  getAccessFromProfile,
+  getPermissionsFromClaims,
+  getRolesFromClaims,
+  hasPermission,
+  hasPermissionIds,
+  isAdministrator,
+  resolvePermissionNames,
+  usesKnownPermissions,
+  type PermissionRequirement,
+} from "#src/utils/permissions";
+import { queryKeys } from "#src/utils/queries";
+import { useAllPermissions } from "./permissions";
 import * as authApi from "#src/apis/auth";
 import type { RefreshTokenRequest } from "#src/openapi";
 import type { RootState, AppDispatch } from "#src/store";
@@ -43,8 +63,12 @@ export type {
  * Helper function to store authentication tokens
  *
  * @param response - Login response containing tokens
+ * @param event - Session event announced to other tabs
  */
-const storeAuthTokens = (response: authApi.LoginResponse): void => {
+const storeAuthTokens = (
+  response: authApi.LoginResponse,
+  event: SessionEventType = "login",
+): void => {
   // TokenResponseApiResponse has tokens in response.data
   if (response.data?.token) {
     tokenManager.setToken(response.data.token);
@@ -52,7 +76,11 @@ const storeAuthTokens = (response: authApi.LoginResponse): void => {
   if (response.data?.refreshToken) {
     tokenManager.setRefreshToken(response.data.refreshToken);
   }
+  if (response.data?.refreshTokenExpiryTime) {
+    tokenManager.setRefreshTokenExpiry(response.data.refreshTokenExpiryTime);
+  }
   api.updateConfiguration();
+  emitSessionEvent(event);
 };
 
 /**
@@ -61,6 +89,7 @@ const storeAuthTokens = (response: authApi.LoginResponse): void => {
 const clearAuthTokens = (): void => {
   tokenManager.clearTokens();
   api.updateConfiguration();
+  emitSessionEvent("logout");
 };
 
 /**
@@ -79,6 +108,40 @@ export const isAuthenticated = (): boolean => {
   return tokenManager.hasToken();
 };
 
+const RETURN_TO_PARAM = "returnTo";
+
+/**
+ * Builds the login URL, remembering where to send the user afterwards
+ *
+ * @example
+ * ```ts
+ * navigate(buildLoginPath("/dashboard/products?page=2"));
+ * // -> /login?returnTo=%2Fdashboard%2Fproducts%3Fpage%3D2
+ * ```
+ */
+export const buildLoginPath = (returnTo?: string): string => {
+  if (!returnTo || returnTo.startsWith("/login")) {
+    return "/login";
+  }
+
+  return `/login?${new URLSearchParams({ [RETURN_TO_PARAM]: returnTo })}`;
+};
+
+/**
+ * Reads the `returnTo` parameter from the login URL. Only same-origin
+ * paths are accepted so the parameter cannot redirect off-site.
+ */
+export const resolveReturnTo = (searchParams: URLSearchParams): string => {
+  const returnTo = searchParams.get(RETURN_TO_PARAM);
+
+  // Reject "//host" and "/\host", which browsers treat as another origin.
+  if (!returnTo || !/^\/(?![/\\])/.test(returnTo)) {
+    return "/dashboard";
+  }
+
+  return returnTo;
+};
+
 // ===========================
 // React Hooks
 // ===========================
@@ -119,6 +182,7 @@ export function useLogin(
           setCredentials({
             token: response.data.token,
             refreshToken: response.data.refreshToken ?? undefined,
+            refreshTokenExpiresAt: response.data.refreshTokenExpiryTime,
           }),
         );
       }
@@ -168,8 +232,7 @@ export function useLogout(
  * @example
  * ```tsx
  * function SomeComponent() {
- *   const { mutate: refresh } = useRefreshToken();
- *
+ *  *
  *   // Manually trigger a token refresh
  *   refresh({ refreshToken: storedRefreshToken });
  * }
@@ -184,12 +247,13 @@ export function useRefreshToken(
     ...options,
     mutationFn: async (payload) => {
       const response = await authApi.refreshLogin(payload);
-      storeAuthTokens(response);
+      storeAuthTokens(response, "refresh");
       if (response.data?.token) {
         dispatch(
           setCredentials({
             token: response.data.token,
             refreshToken: response.data.refreshToken ?? undefined,
+            refreshTokenExpiresAt: response.data.refreshTokenExpiryTime,
           }),
         );
       }
@@ -198,6 +262,116 @@ export function useRefreshToken(
   });
 }
 
+// Refresh the access token this long before its `exp`.
+const ACCESS_TOKEN_REFRESH_LEAD_MS = 60 * 1000;
+// Warn the user this long before the refresh token itself expires.
+const SESSION_WARNING_LEAD_MS = 5 * 60 * 1000;
+// setTimeout fires immediately for delays above a signed 32-bit int.
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const scheduleAt = (timestamp: number, callback: () => void) => {
+  const delay = Math.max(timestamp - Date.now(), 0);
+
+  if (delay > MAX_TIMEOUT_MS) {
+    return undefined;
+  }
+
+  const timer = window.setTimeout(callback, delay);
+  return () => window.clearTimeout(timer);
+};
+
+/**
+ * Hook that keeps the session alive while the dashboard is open.
+ * Refreshes the access token shortly before its `exp` claim and flags
+ * when the refresh token is about to expire, so the user can
+ * re-authenticate without losing in-progress work.
+ *
+ * @example
+ * ```tsx
+ * function SessionWatcher() {
+ *   const { isSessionEnding, sessionEndsAt } = useSessionScheduler();
+ *
+ *   return isSessionEnding ? <p>Session ends at {sessionEndsAt}</p> : null;
+ * }
+ * ```
+ */
+export function useSessionScheduler() {
+  const { token, refreshToken, refreshTokenExpiresAt } = useSelector(
+    (state: RootState) => state.user,
+  );
+  const [warnedFor, setWarnedFor] = useState<string | null>(null);
+
+  const sessionEndsAt = useMemo(() => {
+    const timestamp = refreshTokenExpiresAt
+      ? Date.parse(refreshTokenExpiresAt)
+      : NaN;
+
+    return Number.isNaN(timestamp) ? null : timestamp;
+  }, [refreshTokenExpiresAt]);
+
+  useEffect(() => {
+    const exp = decodeTokenClaims(token)?.exp;
+
+    if (!token || !refreshToken || typeof exp !== "number") {
+      return;
+    }
+
+    const refreshAt = exp * 1000 - ACCESS_TOKEN_REFRESH_LEAD_MS;
+
+    // Past this point the refresh token is no longer accepted.
+    if (sessionEndsAt !== null && refreshAt >= sessionEndsAt) {
+      return;
+    }
+
+    // Failures are left to the 401 interceptor on the next request.
+    return scheduleAt(refreshAt, () => {
+      refreshSession().catch(() => undefined);
+    });
+  }, [token, refreshToken, sessionEndsAt]);
+
+  useEffect(() => {
+    if (sessionEndsAt === null || !refreshTokenExpiresAt) {
+      return;
+    }
+
+    return scheduleAt(sessionEndsAt - SESSION_WARNING_LEAD_MS, () =>
+      setWarnedFor(refreshTokenExpiresAt),
+    );
+  }, [sessionEndsAt, refreshTokenExpiresAt]);
+
+  return {
+    // Keyed on the expiry so a fresh login clears the warning.
+    isSessionEnding:
+      warnedFor !== null && warnedFor === refreshTokenExpiresAt,
+    sessionEndsAt,
+  };
+}
+
+/**
+ * Hook that keeps this tab in step with session changes made elsewhere.
+ * Login, logout and refresh events (from this tab's interceptor or from
+ * other tabs) re-sync the Redux user state and the API configuration;
+ * a login or logout in another tab also drops the react-query cache.
+ * Mount once near the root of the router.
+ */
+export function useSessionSync() {
+  const dispatch = useDispatch<AppDispatch>();
+  const queryClient = useQueryClient();
+
+  useEffect(
+    () =>
+      subscribeSessionEvents((event) => {
+        api.updateConfiguration();
+        dispatch(syncAuth());
+
+        if (event.origin === "remote" && event.type !== "refresh") {
+          queryClient.clear();
+        }
+      }),
+    [dispatch, queryClient],
+  );
+}
+
 /**
  * Hook for signup with React Query mutation
  *
@@ -269,6 +443,92 @@ export function useAuth() {
   };
 }
 
+/**
+ * Hook exposing the permissions and roles granted to the current user.
+ * They come from the token, or from the profile when the token carries
+ * none; permission ids are resolved to names through the permissions
+ * endpoint. Administrators pass every `can` check, and so does everyone
+ * while the user holds none of the names in `Permissions` (see
+ * `usesKnownPermissions`).
+ *
+ * @example
+ * ```tsx
+ * function DeleteButton() {
+ *   const { can } = usePermissions();
+ *
+ *   return can(Permissions.Products.Delete) ? <Button danger /> : null;
+ * }
+ * ```
+ */
+export function usePermissions() {
+  const token = useSelector((state: RootState) => state.user.token);
+
+  const fromToken = useMemo(() => {
+    const claims = decodeTokenClaims(token);
+
+    return {
+      permissions: getPermissionsFromClaims(claims),
+      roles: getRolesFromClaims(claims),
+    };
+  }, [token]);
+
+  const needsProfile =
+    !!token &&
+    fromToken.permissions.size === 0 &&
+    fromToken.roles.size === 0;
+
+  // Same key and shape as `useMeQuery`, so the profile is fetched once
+  const profileQuery = useFetch({
+    queryKey: queryKeys.users.me(),
+    queryFn: async () => {
+      const result = await authApi.getProfile();
+      return result?.data;
+    },
+    enabled: needsProfile,
+    staleTime: 1000 * 60,
+  });
+
+  const granted = useMemo(
+    () =>
+      needsProfile ? getAccessFromProfile(profileQuery.data) : fromToken,
+    [needsProfile, profileQuery.data, fromToken],
+  );
+
+  const needsCatalogue = hasPermissionIds(granted.permissions);
+  const catalogueQuery = useAllPermissions({ enabled: needsCatalogue });
+
+  const permissions = useMemo(
+    () =>
+      needsCatalogue
+        ? resolvePermissionNames(granted.permissions, catalogueQuery.data)
+        : granted.permissions,
+    [needsCatalogue, granted.permissions, catalogueQuery.data],
+  );
+  const { roles } = granted;
+  const isAdmin = useMemo(() => isAdministrator(roles), [roles]);
+  const isEnforced = useMemo(
+    () => usesKnownPermissions(permissions),
+    [permissions],
+  );
+
+  const can = useCallback(
+    (required: PermissionRequirement | undefined) =>
+      isAdmin || !isEnforced || hasPermission(permissions, required),
+    [isAdmin, isEnforced, permissions],
+  );
+
+  return {
+    permissions,
+    roles,
+    isAdmin,
+    isEnforced,
+    can,
+    isLoading:
+      (needsProfile && profileQuery.isLoading) ||
+      (needsCatalogue && catalogueQuery.isLoading),
+  };
+}
+
 /**
  * Hook for manual login with loading/error states
  * Alternative to useLogin mutation hook
@@ -311,6 +571,7 @@ export function useLoginManual() {
             setCredentials({
               token: response.data.token,
               refreshToken: response.data.refreshToken ?? undefined,
+              refreshTokenExpiresAt: response.data.refreshTokenExpiryTime,
             }),
           );
         }
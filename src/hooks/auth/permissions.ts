@@ -10,13 +10,21 @@ import type {
   SearchPermissionsRequest,
   UpdatePermissionRequest,
 } from "#src/openapi";
-import { useApiMutation, useFetch } from "#src/utils/api";
+import { useApiMutation, useFetch, hasFieldErrors } from "#src/utils/api";
 import { useQueryClient } from "@tanstack/react-query";
 import { useMessage } from "#src/utils/message";
+import {
+  fetchAllPages,
+  queryKeys,
+  invalidateDomain,
+} from "#src/utils/queries";
+
+/** Permissions requested per page by `useAllPermissions` */
+const ALL_PERMISSIONS_PAGE_SIZE = 100;
 
 export function usePermissionsQuery(payload?: SearchPermissionsRequest) {
   return useFetch({
-    queryKey: ["permissions", payload],
+    queryKey: queryKeys.permissions.list(payload),
     queryFn: async () => {
       const result = await searchPermission(payload);
       return result?.data;
@@ -25,9 +33,31 @@ export function usePermissionsQuery(payload?: SearchPermissionsRequest) {
   });
 }
 
+/**
+ * Every permission, read page by page, for pickers that must list them all
+ */
+export function useAllPermissions({
+  enabled = true,
+}: { enabled?: boolean } = {}) {
+  return useFetch({
+    queryKey: [...queryKeys.permissions.lists(), "all"],
+    queryFn: () =>
+      fetchAllPages(
+        (pageNumber) =>
+          searchPermission({
+            pageNumber,
+            pageSize: ALL_PERMISSIONS_PAGE_SIZE,
+          }),
+        ALL_PERMISSIONS_PAGE_SIZE,
+      ),
+    enabled,
+    staleTime: 1000 * 60,
+  });
+}
+
 export function usePermissionById(id: string) {
   return useFetch({
-    queryKey: ["permission", id],
+    queryKey: queryKeys.permissions.detail(id),
     queryFn: async () => {
       const result = await getPermission(id);
       return result?.data;
@@ -46,10 +76,12 @@ export function useCreatePermission() {
     },
     onSuccess: () => {
       message.success("Permission created successfully");
-      qc.invalidateQueries({ queryKey: ["permissions"] });
+      invalidateDomain(qc, "permissions");
     },
-    onError: () => {
-      message.error("Failed to create permission");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to create permission");
+      }
     },
   });
 }
@@ -63,13 +95,14 @@ export function useUpdatePermission() {
       const resp = await updatePermission(payload.id, payload.data);
       return resp?.data;
     },
-    onSuccess: (_data, variable) => {
+    onSuccess: () => {
       message.success("Permission has been updated");
-      qc.invalidateQueries({ queryKey: ["permissions"] });
-      qc.invalidateQueries({ queryKey: ["permission", variable.id] });
+      invalidateDomain(qc, "permissions");
     },
-    onError: () => {
-      message.error("Failed to update permission");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to update permission");
+      }
     },
   });
 }
@@ -85,7 +118,7 @@ export function useDeletePermission() {
     },
     onSuccess: () => {
       message.success("Permission has been deleted");
-      qc.invalidateQueries({ queryKey: ["permissions"] });
+      invalidateDomain(qc, "permissions");
     },
     onError: () => {
       message.error("Failed to delete permission");
@@ -14,16 +14,18 @@ import type {
   SearchRolesRequest,
   AssignPermissionsToRoleRequest,
 } from "#src/openapi";
-import { useApiMutation, useFetch } from "#src/utils/api";
+import { useApiMutation, useFetch, hasFieldErrors } from "#src/utils/api";
+import type { ApiError } from "#src/utils/api";
 import { useQueryClient } from "@tanstack/react-query";
 import { useMessage } from "#src/utils/message";
+import { queryKeys, invalidateDomain } from "#src/utils/queries";
 
 export function useRolesQuery(payload?: SearchRolesRequest) {
   return useFetch({
-    queryKey: ["roles", payload],
+    queryKey: queryKeys.roles.list(payload),
     queryFn: async () => {
       const result = await searchRole(payload);
-      return result?.data;
+      return result;
     },
     staleTime: 1000 * 60,
   });
@@ -31,7 +33,7 @@ export function useRolesQuery(payload?: SearchRolesRequest) {
 
 export function useRoleById(id: string) {
   return useFetch({
-    queryKey: ["role", id],
+    queryKey: queryKeys.roles.detail(id),
     queryFn: async () => {
       const result = await getRole(id);
       return result?.data;
@@ -50,10 +52,12 @@ export function useCreateRole() {
     },
     onSuccess: () => {
       message.success("Role created successfully");
-      qc.invalidateQueries({ queryKey: ["roles"] });
+      invalidateDomain(qc, "roles");
     },
-    onError: () => {
-      message.error("Failed to create role");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to create role");
+      }
     },
   });
 }
@@ -67,13 +71,14 @@ export function useUpdateRole() {
       const resp = await updateRole(payload.id, payload.data);
       return resp?.data;
     },
-    onSuccess: (_data, variable) => {
+    onSuccess: () => {
       message.success("Role has been updated");
-      qc.invalidateQueries({ queryKey: ["roles"] });
-      qc.invalidateQueries({ queryKey: ["role", variable.id] });
+      invalidateDomain(qc, "roles");
     },
-    onError: () => {
-      message.error("Failed to update role");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to update role");
+      }
     },
   });
 }
@@ -89,7 +94,7 @@ export function useDeleteRole() {
     },
     onSuccess: () => {
       message.success("Role has been deleted");
-      qc.invalidateQueries({ queryKey: ["roles"] });
+      invalidateDomain(qc, "roles");
     },
     onError: () => {
       message.error("Failed to delete role");
@@ -106,10 +111,9 @@ export function useAssignRolePermission() {
       const resp = await assignRolePermission(payload.id, payload.data);
       return resp?.data;
     },
-    onSuccess: (_data, variable) => {
+    onSuccess: () => {
       message.success("Permissions assigned to role");
-      qc.invalidateQueries({ queryKey: ["roles"] });
-      qc.invalidateQueries({ queryKey: ["role", variable.id] });
+      invalidateDomain(qc, "roles");
     },
     onError: () => {
       message.error("Failed to assign permissions to role");
@@ -126,10 +130,9 @@ export function useRemoveRolePermission() {
       const resp = await removeRolePermission(payload.id, payload.data);
       return resp?.data;
     },
-    onSuccess: (_data, variable) => {
+    onSuccess: () => {
       message.success("Permissions removed from role");
-      qc.invalidateQueries({ queryKey: ["roles"] });
-      qc.invalidateQueries({ queryKey: ["role", variable.id] });
+      invalidateDomain(qc, "roles");
     },
     onError: () => {
       message.error("Failed to remove permissions from role");
@@ -137,9 +140,80 @@ export function useRemoveRolePermission() {
   });
 }
 
+const PARTIAL_PERMISSION_SYNC = "PARTIAL_PERMISSION_SYNC";
+
+/**
+ * Sync a role's permissions to the given set.
+ * Only the difference against `current` is sent: newly picked ids are
+ * assigned and dropped ids are removed. If the removal fails, the
+ * assignment is undone; when that fails too, the error says the role was
+ * only partly updated.
+ */
+export function useSyncRolePermissions() {
+  const qc = useQueryClient();
+  const message = useMessage();
+
+  return useApiMutation({
+    mutationFn: async (payload: {
+      id: string;
+      current: string[];
+      next: string[];
+    }) => {
+      const currentIds = new Set(payload.current);
+      const nextIds = new Set(payload.next);
+      const added = payload.next.filter((id) => !currentIds.has(id));
+      const removed = payload.current.filter((id) => !nextIds.has(id));
+
+      if (added.length > 0) {
+        await assignRolePermission(payload.id, { permissionIds: added });
+      }
+      if (removed.length > 0) {
+        try {
+          await removeRolePermission(payload.id, { permissionIds: removed });
+        } catch (error) {
+          if (added.length === 0) {
+            throw error;
+          }
+
+          try {
+            await removeRolePermission(payload.id, { permissionIds: added });
+          } catch {
+            const partial: ApiError = {
+              message:
+                "New permissions were assigned but the removed ones are " +
+                "still on the role. Review the role and try again.",
+              code: PARTIAL_PERMISSION_SYNC,
+              fieldErrors: {},
+            };
+            throw partial;
+          }
+
+          throw error;
+        }
+      }
+
+      return { added, removed };
+    },
+    onSuccess: () => {
+      message.success("Role permissions have been updated");
+    },
+    onError: (error) => {
+      message.error(
+        error.code === PARTIAL_PERMISSION_SYNC
+          ? error.message
+          : "Failed to update role permissions",
+      );
+    },
+    // A failed rollback can leave the role partly updated
+    onSettled: () => {
+      invalidateDomain(qc, "roles");
+    },
+  });
+}
+
 export function useViewRolePermission(id: string) {
   return useFetch({
-    queryKey: ["role-permissions", id],
+    queryKey: queryKeys.roles.permissions(id),
     queryFn: async () => {
       const result = await viewRolePermission(id);
       return result?.data;
@@ -11,13 +11,14 @@ import type {
   SearchCategoryRequest,
   UpdateCategoryRequest,
 } from "#src/openapi";
-import { useApiMutation, useFetch } from "#src/utils/api";
+import { useApiMutation, useFetch, hasFieldErrors } from "#src/utils/api";
 import { useMessage } from "#src/utils/message";
+import { fetchAllPages, queryKeys, invalidateDomain } from "#src/utils/queries";
 import { useQueryClient } from "@tanstack/react-query";
 
 export function useCategoriesQuery(payload: SearchCategoryRequest) {
   return useFetch({
-    queryKey: ["categories", payload],
+    queryKey: queryKeys.categories.list(payload),
     queryFn: async () => {
       const result = await searchCategories(payload);
       return result;
@@ -28,7 +29,7 @@ export function useCategoriesQuery(payload: SearchCategoryRequest) {
 
 export function useCategoryMap() {
   return useFetch({
-    queryKey: ["categories-map"],
+    queryKey: queryKeys.categories.map(),
     queryFn: async () => {
       const result = await getCategoryMap();
       return result?.data;
@@ -37,11 +38,42 @@ export function useCategoryMap() {
   });
 }
 
+const CATEGORY_MARKUPS_PAGE_SIZE = 100;
+
+/**
+ * Default markup percentage per category id, for pricing products
+ * without loading each category
+ */
+export function useCategoryMarkups() {
+  return useFetch({
+    queryKey: queryKeys.categories.markups(),
+    queryFn: async () => {
+      const categories = await fetchAllPages(
+        (pageNumber) =>
+          searchCategories({
+            pageNumber,
+            pageSize: CATEGORY_MARKUPS_PAGE_SIZE,
+          }),
+        CATEGORY_MARKUPS_PAGE_SIZE,
+      );
+
+      return Object.fromEntries(
+        categories.flatMap((category) =>
+          category.id && typeof category.defaultMarkupPercentage === "number"
+            ? [[category.id, category.defaultMarkupPercentage]]
+            : [],
+        ),
+      ) as Record<string, number>;
+    },
+    staleTime: 1000 * 60,
+  });
+}
+
 export function useCategoryById(id: string | null | undefined) {
   const categoryId = id?.trim();
 
   return useFetch({
-    queryKey: ["categories", categoryId],
+    queryKey: queryKeys.categories.detail(categoryId),
     queryFn: async () => {
       if (!categoryId) {
         throw new Error("Category id is required");
@@ -67,10 +99,12 @@ export function useCreateCategory() {
     },
     onSuccess: () => {
       message.success("Category created successfully");
-      qc.invalidateQueries({ queryKey: ["categories"] });
+      invalidateDomain(qc, "categories");
     },
-    onError: () => {
-      message.error("Failed to create category");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to create category");
+      }
     },
   });
 }
@@ -88,13 +122,14 @@ export function useUpdateCategory() {
 
       return resp?.data;
     },
-    onSuccess: (_data, variable) => {
+    onSuccess: () => {
       message.success("Category has been updated");
-      qc.invalidateQueries({ queryKey: ["categories"] });
-      qc.invalidateQueries({ queryKey: ["categories", variable.id] });
+      invalidateDomain(qc, "categories");
     },
-    onError: () => {
-      message.error("Failed to update category");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to update category");
+      }
     },
   });
 }
@@ -111,7 +146,7 @@ export function useDeleteCategory() {
     },
     onSuccess: () => {
       message.success("Category has been deleted");
-      qc.invalidateQueries({ queryKey: ["categories"] });
+      invalidateDomain(qc, "categories");
     },
     onError: () => {
       message.error("Failed to delete category");
@@ -0,0 +1,418 @@
+import { useMemo, useState } from "react";
+import type { Dispatch, ReactNode, SetStateAction } from "react";
+import type { Rule } from "antd/es/form";
+import type { ColumnsType } from "antd/es/table";
+import { useQueryClient } from "@tanstack/react-query";
+import type { QueryKey } from "@tanstack/react-query";
+import type { Filter, Sort } from "#src/openapi";
+import { useOpenRecordParam, useUrlSearchState } from "#src/hooks/search";
+import type { SearchRequestState } from "#src/hooks/search";
+import {
+  hasFieldErrors,
+  useApiMutation,
+  useFetch,
+  useOptimisticMutation,
+} from "#src/utils/api";
+import type { ApiResponseMeta, OptimisticPatch } from "#src/utils/api";
+import {
+  extractApiResponseMeta,
+  invalidateDomain,
+} from "#src/utils/queries";
+import type { InvalidationDomain } from "#src/utils/queries";
+import { useMessage } from "#src/utils/message";
+
+// ===========================
+// Entity Descriptor
+// ===========================
+
+export type EntitySearchRequest = SearchRequestState;
+
+export interface EntityKeys<TSearch> {
+  lists: () => QueryKey;
+  list: (payload?: TSearch) => QueryKey;
+  detail: (id: string | null | undefined) => QueryKey;
+}
+
+export type EntityFormFieldType =
+  | "text"
+  | "textarea"
+  | "number"
+  | "select"
+  | "switch"
+  | "date";
+
+/**
+ * One input in the generated create/edit form
+ */
+export interface EntityFormField {
+  name: string;
+  label: string;
+  type?: EntityFormFieldType;
+  rules?: Rule[];
+  placeholder?: string;
+  options?: { label: ReactNode; value: string | number | boolean }[];
+  /** Number inputs only */
+  min?: number;
+  /** Number inputs only */
+  precision?: number;
+  /** Span both columns of the form grid */
+  fullWidth?: boolean;
+}
+
+/**
+ * Everything the generic CRUD page needs to know about one entity.
+ * Keep one descriptor per entity next to its page.
+ */
+export interface EntityDescriptor<
+  TEntity extends { id?: string | null },
+  TSearch extends EntitySearchRequest,
+  TCreate,
+  TUpdate = TCreate,
+> {
+  /** Singular display name, e.g. "Permission" */
+  name: string;
+  /** Plural display name, e.g. "Permissions" */
+  pluralName: string;
+  description?: string;
+  keys: EntityKeys<TSearch>;
+  domain: InvalidationDomain;
+  api: {
+    search: (payload: TSearch) => Promise<{
+      data?: TEntity[] | null;
+      meta: Partial<ApiResponseMeta> | null;
+    }>;
+    create: (data: TCreate) => Promise<unknown>;
+    update: (id: string, data: TUpdate) => Promise<unknown>;
+    remove: (id: string) => Promise<unknown>;
+    /**
+     * Loads the record named by `?open=<id>` into the edit modal. Cached
+     * under `keys.detail(id)`, so return the same shape as that entity's
+     * detail hook: the entity itself or `{ data: entity }`.
+     */
+    get?: (id: string) => Promise<unknown>;
+  };
+  /** Search the list opens with, e.g. `{ pageNumber: 1, pageSize: 10 }` */
+  defaultSearch: TSearch;
+  /** Fields the keyword box searches, e.g. `["name", "description"]` */
+  searchableFields: string[];
+  searchPlaceholder?: string;
+  /**
+   * Table columns; the page appends an edit/delete column. Columns with
+   * `sorter: true` are sorted server-side by their `key`.
+   */
+  columns?: ColumnsType<TEntity>;
+  /**
+   * Fields an update may patch into the cached rows before the server
+   * answers. Leave out anything the server derives other fields from; by
+   * default rows keep their values until the refetch.
+   */
+  patchFields?: readonly (keyof TEntity & string)[];
+  /** Permission required to see the delete button */
+  deletePermission?: string;
+  form?: EntityFormField[];
+  /** Seeds the edit form; defaults to the entity itself */
+  toFormValues?: (entity: TEntity) => Record<string, unknown>;
+  /** Builds the request body; defaults to the form values */
+  toRequest?: (
+    values: Record<string, unknown>,
+    editing: TEntity | null,
+  ) => TCreate | TUpdate;
+}
+
+/**
+ * State and actions returned by `useEntityCrud`
+ */
+export interface EntityCrud<TEntity, TSearch, TCreate, TUpdate = TCreate> {
+  searchParams: TSearch;
+  setSearchParams: Dispatch<SetStateAction<TSearch>>;
+  keyword: string;
+  setKeyword: (value: string) => void;
+  filter: Filter | undefined;
+  setFilter: (filter: Filter | undefined) => void;
+  sort: Sort | undefined;
+  setSort: (sort: Sort | undefined) => void;
+  applyFilters: () => void;
+  resetFilters: () => void;
+
+  data: TEntity[];
+  meta: ApiResponseMeta;
+  isLoading: boolean;
+  refetch: () => void;
+  pagination: {
+    currentPage: number;
+    pageSize: number;
+    total: number;
+    onPaginationChange: (page: number, pageSize: number) => void;
+  };
+
+  isModalOpen: boolean;
+  editing: TEntity | null;
+  openCreate: () => void;
+  openEdit: (entity: TEntity) => void;
+  closeModal: () => void;
+
+  submit: (values: TCreate | TUpdate) => Promise<void>;
+  remove: (id: string) => void;
+  isSubmitting: boolean;
+  isDeleting: boolean;
+}
+
+// ===========================
+// useEntityCrud
+// ===========================
+
+const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Entity from a detail cache entry, which is either the entity or
+ * `{ data: entity }`
+ */
+const toEntity = <TEntity>(detail: unknown): TEntity | null => {
+  if (!detail || typeof detail !== "object") {
+    return null;
+  }
+  const wrapped = (detail as { data?: unknown }).data;
+  return (
+    wrapped && typeof wrapped === "object" && !Array.isArray(wrapped)
+      ? wrapped
+      : detail
+  ) as TEntity;
+};
+
+/**
+ * Search, pagination, modal and create/update/delete wiring for one
+ * entity. Updates and deletes are optimistic; every write invalidates the
+ * descriptor's domain. Pass `listEnabled: false` while the page shows the
+ * rows some other way, so the paged search is not sent for nothing.
+ *
+ * @example
+ * ```tsx
+ * const crud = useEntityCrud(permissionDescriptor);
+ * return <EntityCrudPage descriptor={permissionDescriptor} crud={crud} />;
+ * ```
+ */
+export function useEntityCrud<
+  TEntity extends { id?: string | null },
+  TSearch extends EntitySearchRequest,
+  TCreate,
+  TUpdate = TCreate,
+>(
+  descriptor: EntityDescriptor<TEntity, TSearch, TCreate, TUpdate>,
+  { listEnabled = true }: { listEnabled?: boolean } = {},
+): EntityCrud<TEntity, TSearch, TCreate, TUpdate> {
+  const {
+    name,
+    keys,
+    domain,
+    api,
+    defaultSearch,
+    searchableFields,
+    patchFields = [],
+  } = descriptor;
+  const qc = useQueryClient();
+  const message = useMessage();
+
+  const [searchParams, setSearchParams] = useUrlSearchState(defaultSearch);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editing, setEditing] = useState<TEntity | null>(null);
+  const [openId, setOpenId] = useOpenRecordParam();
+  const getRecord = api.get;
+  const canOpenFromUrl = !!openId && !!getRecord;
+
+  const openQuery = useFetch({
+    queryKey: keys.detail(openId),
+    queryFn: async () => (openId && getRecord ? getRecord(openId) : null),
+    enabled: canOpenFromUrl,
+  });
+  // `?open=<id>` shows the edit modal once the record has loaded, without
+  // copying it into state
+  const urlEditing = canOpenFromUrl ? toEntity<TEntity>(openQuery.data) : null;
+  const currentEditing = editing ?? urlEditing;
+
+  const query = useFetch({
+    queryKey: keys.list(searchParams),
+    queryFn: () => api.search(searchParams),
+    enabled: listEnabled,
+    staleTime: 1000 * 60,
+  });
+
+  const meta = useMemo(
+    () =>
+      extractApiResponseMeta(
+        query.data?.meta,
+        searchParams.pageNumber ?? 1,
+        searchParams.pageSize ?? DEFAULT_PAGE_SIZE,
+      ),
+    [query.data?.meta, searchParams.pageNumber, searchParams.pageSize],
+  );
+
+  const createMutation = useApiMutation({
+    mutationFn: (data: TCreate) => api.create(data),
+    onSuccess: () => {
+      message.success(`${name} created successfully`);
+      invalidateDomain(qc, domain);
+    },
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error(`Failed to create ${name.toLowerCase()}`);
+      }
+    },
+  });
+
+  const updateMutation = useOptimisticMutation<
+    unknown,
+    { id: string; data: TUpdate },
+    TEntity
+  >({
+    mutationFn: (payload) => api.update(payload.id, payload.data),
+    listKey: keys.lists(),
+    detailKey: (payload) => keys.detail(payload.id),
+    change: (payload) => ({
+      type: "update",
+      id: payload.id,
+      patch: payload.data as OptimisticPatch<TEntity>,
+      fields: patchFields,
+    }),
+    onSuccess: () => {
+      message.success(`${name} updated successfully`);
+    },
+    domain,
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error(`Failed to update ${name.toLowerCase()}`);
+      }
+    },
+  });
+
+  const deleteMutation = useOptimisticMutation<unknown, string, TEntity>({
+    mutationFn: (id) => api.remove(id),
+    listKey: keys.lists(),
+    change: (id) => ({ type: "remove", id }),
+    onSuccess: () => {
+      message.success(`${name} deleted successfully`);
+    },
+    domain,
+    onError: () => {
+      message.error(`Failed to delete ${name.toLowerCase()}`);
+    },
+  });
+
+  const setKeyword = (value: string) => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: 1,
+      advanceSearches: value.trim()
+        ? { fields: searchableFields, keyword: value }
+        : undefined,
+    }));
+  };
+
+  const setFilter = (filter: Filter | undefined) => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: 1,
+      advanceFilter: filter,
+    }));
+  };
+
+  const setSort = (sort: Sort | undefined) => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: 1,
+      advanceSort: sort,
+    }));
+  };
+
+  const applyFilters = () => {
+    setSearchParams((prev) => ({ ...prev, pageNumber: 1 }));
+  };
+
+  const resetFilters = () => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: 1,
+      advanceSearches: undefined,
+      advanceFilter: undefined,
+    }));
+  };
+
+  const onPaginationChange = (page: number, pageSize: number) => {
+    setSearchParams((prev) => ({ ...prev, pageNumber: page, pageSize }));
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setIsModalOpen(true);
+    if (openId) {
+      setOpenId(null);
+    }
+  };
+
+  const openEdit = (entity: TEntity) => {
+    setEditing(entity);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditing(null);
+    if (openId) {
+      setOpenId(null);
+    }
+  };
+
+  /**
+   * Creates or updates depending on the open modal. Rejects on failure so
+   * the form can show field errors and stay open.
+   */
+  const submit = async (values: TCreate | TUpdate) => {
+    if (currentEditing?.id) {
+      await updateMutation.mutateAsync({
+        id: currentEditing.id,
+        data: values as TUpdate,
+      });
+    } else {
+      await createMutation.mutateAsync(values as TCreate);
+    }
+    closeModal();
+  };
+
+  return {
+    searchParams,
+    setSearchParams,
+    keyword: searchParams.advanceSearches?.keyword ?? "",
+    setKeyword,
+    filter: searchParams.advanceFilter,
+    setFilter,
+    sort: searchParams.advanceSort,
+    setSort,
+    applyFilters,
+    resetFilters,
+
+    data: query.data?.data ?? [],
+    meta,
+    isLoading: query.isLoading,
+    // With the list off, refresh whatever else shows the rows; the
+    // disabled search is inactive and is not refetched
+    refetch: listEnabled
+      ? query.refetch
+      : () => qc.invalidateQueries({ queryKey: keys.lists() }),
+    pagination: {
+      currentPage: meta.currentPage,
+      pageSize: meta.pageSize,
+      total: meta.totalCount,
+      onPaginationChange,
+    },
+
+    isModalOpen: isModalOpen || !!urlEditing,
+    editing: currentEditing,
+    openCreate,
+    openEdit,
+    closeModal,
+
+    submit,
+    remove: (id: string) => deleteMutation.mutate(id),
+    isSubmitting: createMutation.isPending || updateMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+  };
+}
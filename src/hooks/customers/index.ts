@@ -10,13 +10,14 @@ import type {
   SearchCustomerRequest,
   UpdateCustomerRequest,
 } from "#src/openapi";
-import { useApiMutation, useFetch } from "#src/utils/api";
+import { useApiMutation, useFetch, hasFieldErrors } from "#src/utils/api";
 import { useQueryClient } from "@tanstack/react-query";
 import { useMessage } from "#src/utils/message";
+import { queryKeys, invalidateDomain } from "#src/utils/queries";
 
 export function useCustomersQuery(payload?: SearchCustomerRequest) {
   return useFetch({
-    queryKey: ["customers", payload],
+    queryKey: queryKeys.customers.list(payload),
     queryFn: async () => {
       const result = await searchCustomer(payload);
 
@@ -26,14 +27,54 @@ export function useCustomersQuery(payload?: SearchCustomerRequest) {
   });
 }
 
-export function useCustomerById(id: string) {
+/**
+ * Looks up several customers in one search request, e.g. for the customer
+ * column of the invoices on screen. Returns a map keyed by customer id.
+ */
+export function useCustomersByIds(ids: string[]) {
+  const uniqueIds = [...new Set(ids)].sort();
+  const payload: SearchCustomerRequest = {
+    pageNumber: 1,
+    pageSize: uniqueIds.length,
+    advanceFilter: {
+      logic: "or",
+      filters: uniqueIds.map((id) => ({
+        field: "id",
+        operator: "eq",
+        value: id,
+      })),
+    },
+  };
+
+  return useFetch({
+    queryKey: queryKeys.customers.list(payload),
+    queryFn: async () => {
+      const result = await searchCustomer(payload);
+
+      return new Map(
+        (result.data ?? []).map((customer) => [customer.id, customer]),
+      );
+    },
+    enabled: uniqueIds.length > 0,
+    staleTime: 1000 * 60,
+  });
+}
+
+export function useCustomerById(id: string | null | undefined) {
+  const customerId = id?.trim();
+
   return useFetch({
-    queryKey: ["customer", id],
+    queryKey: queryKeys.customers.detail(customerId),
     queryFn: async () => {
-      const result = await getCustomer(id);
+      if (!customerId) {
+        throw new Error("Customer id is required");
+      }
+
+      const result = await getCustomer(customerId);
 
       return result?.data;
     },
+    enabled: !!customerId,
   });
 }
 
@@ -49,10 +90,12 @@ export function useCreateCustomer() {
     },
     onSuccess: () => {
       message.success("Customer created successfully");
-      qc.invalidateQueries({ queryKey: ["customers"] });
+      invalidateDomain(qc, "customers");
     },
-    onError: () => {
-      message.error("Failed to create customer");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to create customer");
+      }
     },
   });
 }
@@ -70,13 +113,14 @@ export function useUpdateCustomer() {
 
       return resp?.data;
     },
-    onSuccess: (_data, variable) => {
+    onSuccess: () => {
       message.success("Customer has been updated");
-      qc.invalidateQueries({ queryKey: ["customers"] });
-      qc.invalidateQueries({ queryKey: ["customer", variable.id] });
+      invalidateDomain(qc, "customers");
     },
-    onError: () => {
-      message.error("Failed to update customer");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to update customer");
+      }
     },
   });
 }
@@ -93,7 +137,7 @@ export function useDeleteCustomer() {
     },
     onSuccess: () => {
       message.success("Customer has been deleted");
-      qc.invalidateQueries({ queryKey: ["customers"] });
+      invalidateDomain(qc, "customers");
     },
     onError: () => {
       message.error("Failed to delete customer");
@@ -7,16 +7,21 @@ import {
 } from "#src/apis/departments";
 import type {
   CreateDepartmentRequest,
+  DepartmentDto,
   SearchDepartmentRequest,
   UpdateDepartmentRequest,
 } from "#src/openapi";
-import { useApiMutation, useFetch } from "#src/utils/api";
+import { useApiMutation, useFetch, hasFieldErrors } from "#src/utils/api";
 import { useQueryClient } from "@tanstack/react-query";
 import { useMessage } from "#src/utils/message";
+import { fetchAllPages, queryKeys, invalidateDomain } from "#src/utils/queries";
+
+/** Departments requested per page by `useAllDepartments` */
+const ALL_DEPARTMENTS_PAGE_SIZE = 100;
 
 export function useDepartmentsQuery(payload?: SearchDepartmentRequest) {
   return useFetch({
-    queryKey: ["departments", payload],
+    queryKey: queryKeys.departments.list(payload),
     queryFn: async () => {
       const result = await searchDepartment(payload);
 
@@ -26,14 +31,42 @@ export function useDepartmentsQuery(payload?: SearchDepartmentRequest) {
   });
 }
 
-export function useDepartmentById(id: string) {
+/**
+ * Every department, read page by page. The tree needs all of them at once
+ * to resolve parent links, check moves for cycles and offer delete targets.
+ */
+export function useAllDepartments() {
+  return useFetch({
+    queryKey: [...queryKeys.departments.lists(), "all"],
+    queryFn: async () => ({
+      data: await fetchAllPages(
+        (pageNumber) =>
+          searchDepartment({
+            pageNumber,
+            pageSize: ALL_DEPARTMENTS_PAGE_SIZE,
+          }),
+        ALL_DEPARTMENTS_PAGE_SIZE,
+      ),
+    }),
+    staleTime: 1000 * 60,
+  });
+}
+
+export function useDepartmentById(id: string | null | undefined) {
+  const departmentId = id?.trim();
+
   return useFetch({
-    queryKey: ["department", id],
+    queryKey: queryKeys.departments.detail(departmentId),
     queryFn: async () => {
-      const result = await getDepartment(id);
+      if (!departmentId) {
+        throw new Error("Department id is required");
+      }
+
+      const result = await getDepartment(departmentId);
 
       return result?.data;
     },
+    enabled: !!departmentId,
   });
 }
 
@@ -49,10 +82,12 @@ export function useCreateDepartment() {
     },
     onSuccess: () => {
       message.success("Department created successfully");
-      qc.invalidateQueries({ queryKey: ["departments"] });
+      invalidateDomain(qc, "departments");
     },
-    onError: () => {
-      message.error("Failed to create department");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to create department");
+      }
     },
   });
 }
@@ -70,13 +105,14 @@ export function useUpdateDepartment() {
 
       return resp?.data;
     },
-    onSuccess: (_data, variable) => {
+    onSuccess: () => {
       message.success("Department has been updated");
-      qc.invalidateQueries({ queryKey: ["departments"] });
-      qc.invalidateQueries({ queryKey: ["department", variable.id] });
+      invalidateDomain(qc, "departments");
     },
-    onError: () => {
-      message.error("Failed to update department");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to update department");
+      }
     },
   });
 }
@@ -93,10 +129,53 @@ export function useDeleteDepartment() {
     },
     onSuccess: () => {
       message.success("Department has been deleted");
-      qc.invalidateQueries({ queryKey: ["departments"] });
+      invalidateDomain(qc, "departments");
     },
     onError: () => {
       message.error("Failed to delete department");
     },
   });
 }
+
+/**
+ * Moves every child of a department under `nextParentId` (or to the root
+ * when null) before deleting the department itself.
+ */
+export function useReassignAndDeleteDepartment() {
+  const qc = useQueryClient();
+  const message = useMessage();
+
+  return useApiMutation({
+    mutationFn: async (payload: {
+      id: string;
+      children: DepartmentDto[];
+      nextParentId: string | null;
+    }) => {
+      await Promise.all(
+        payload.children
+          .filter((child) => !!child.id)
+          .map((child) =>
+            updateDepartment(child.id!, {
+              name: child.name,
+              description: child.description,
+              parentId: payload.nextParentId,
+            }),
+          ),
+      );
+
+      const resp = await deleteDepartment(payload.id);
+
+      return resp?.data;
+    },
+    onSuccess: (_data, variable) => {
+      message.success(
+        `Department deleted, ${variable.children.length} sub-department(s) reassigned`,
+      );
+      invalidateDomain(qc, "departments");
+    },
+    onError: () => {
+      message.error("Failed to reassign and delete department");
+      invalidateDomain(qc, "departments");
+    },
+  });
+}
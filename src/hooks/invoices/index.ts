@@ -18,13 +18,15 @@ import type {
   UpdateInvoiceItemRequest,
   SearchInvoiceItemRequest,
 } from "#src/openapi";
-import { useApiMutation, useFetch } from "#src/utils/api";
+import { useApiMutation, useFetch, hasFieldErrors } from "#src/utils/api";
+import type { ApiError } from "#src/utils/api";
 import { useQueryClient } from "@tanstack/react-query";
 import { useMessage } from "#src/utils/message";
+import { fetchAllPages, queryKeys, invalidateDomain } from "#src/utils/queries";
 
 export function useInvoicesQuery(payload?: SearchInvoiceRequest) {
   return useFetch({
-    queryKey: ["invoices", payload],
+    queryKey: queryKeys.invoices.list(payload),
     queryFn: async () => {
       const result = await searchInvoice(payload);
 
@@ -41,7 +43,7 @@ export function useInvoiceSearch(payload?: SearchInvoiceRequest) {
 
 export function useInvoiceById(id: string) {
   return useFetch({
-    queryKey: ["invoice", id],
+    queryKey: queryKeys.invoices.detail(id),
     queryFn: async () => {
       const result = await getInvoice(id);
 
@@ -62,10 +64,12 @@ export function useCreateInvoice() {
     },
     onSuccess: () => {
       message.success("Invoice created successfully");
-      qc.invalidateQueries({ queryKey: ["invoices"] });
+      invalidateDomain(qc, "invoices");
     },
-    onError: () => {
-      message.error("Failed to create invoice");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to create invoice");
+      }
     },
   });
 }
@@ -83,13 +87,14 @@ export function useUpdateInvoice() {
 
       return resp?.data;
     },
-    onSuccess: (_data, variable) => {
+    onSuccess: () => {
       message.success("Invoice has been updated");
-      qc.invalidateQueries({ queryKey: ["invoices"] });
-      qc.invalidateQueries({ queryKey: ["invoice", variable.id] });
+      invalidateDomain(qc, "invoices");
     },
-    onError: () => {
-      message.error("Failed to update invoice");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to update invoice");
+      }
     },
   });
 }
@@ -106,7 +111,7 @@ export function useDeleteInvoice() {
     },
     onSuccess: () => {
       message.success("Invoice has been deleted");
-      qc.invalidateQueries({ queryKey: ["invoices"] });
+      invalidateDomain(qc, "invoices");
     },
     onError: () => {
       message.error("Failed to delete invoice");
@@ -114,10 +119,85 @@ export function useDeleteInvoice() {
   });
 }
 
+const INCOMPLETE_INVOICE = "INCOMPLETE_INVOICE";
+
+/**
+ * Create an invoice together with its line items.
+ * The invoice is posted first so each item can reference the new invoice id.
+ * If any item fails, the invoice and the items already saved are deleted
+ * again; when that cleanup fails too, the error says the invoice was left
+ * incomplete so the user can finish or discard it.
+ */
+export function useCreateInvoiceWithItems() {
+  const qc = useQueryClient();
+  const message = useMessage();
+
+  return useApiMutation({
+    mutationFn: async (payload: {
+      invoice: CreateInvoiceRequest;
+      items: Omit<CreateInvoiceItemRequest, "invoiceId">[];
+    }) => {
+      const resp = await creatInvoice(payload.invoice);
+      const invoiceId = resp?.data;
+
+      if (!invoiceId) {
+        throw new Error("Invoice id was not returned");
+      }
+
+      const results = await Promise.allSettled(
+        payload.items.map((item) => creatInvoiceItem({ ...item, invoiceId })),
+      );
+      const failure = results.find((result) => result.status === "rejected");
+
+      if (failure) {
+        try {
+          await Promise.all(
+            results.flatMap((result) =>
+              result.status === "fulfilled" && result.value?.data
+                ? [deleteInvoiceItem(result.value.data)]
+                : [],
+            ),
+          );
+          await deleteInvoice(invoiceId);
+        } catch {
+          const incomplete: ApiError = {
+            message:
+              "The invoice was created but some items could not be saved. " +
+              "Open it to finish or delete it.",
+            code: INCOMPLETE_INVOICE,
+            fieldErrors: {},
+          };
+          throw incomplete;
+        }
+
+        throw failure.reason;
+      }
+
+      return invoiceId;
+    },
+    onSuccess: () => {
+      message.success("Invoice created successfully");
+    },
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error(
+          error.code === INCOMPLETE_INVOICE
+            ? error.message
+            : "Failed to create invoice",
+        );
+      }
+    },
+    // A failed cleanup can leave a partial invoice in the list
+    onSettled: () => {
+      invalidateDomain(qc, "invoices");
+    },
+  });
+}
+
 // -------------------- Invoice items --------------------
 export function useInvoiceItemsQuery(payload?: SearchInvoiceItemRequest) {
   return useFetch({
-    queryKey: ["invoice-items", payload],
+    queryKey: queryKeys.invoices.items.list(payload),
     queryFn: async () => {
       const result = await searchInvoiceItems(payload);
 
@@ -127,9 +207,32 @@ export function useInvoiceItemsQuery(payload?: SearchInvoiceItemRequest) {
   });
 }
 
+const INVOICE_ITEMS_PAGE_SIZE = 100;
+
+/**
+ * Every line item on an invoice, fetched page by page
+ */
+export function useInvoiceItemsByInvoice(invoiceId: string) {
+  const payload: SearchInvoiceItemRequest = {
+    pageSize: INVOICE_ITEMS_PAGE_SIZE,
+    advanceFilter: { field: "invoiceId", operator: "eq", value: invoiceId },
+  };
+
+  return useFetch({
+    queryKey: queryKeys.invoices.items.list(payload),
+    queryFn: async () => ({
+      data: await fetchAllPages(
+        (pageNumber) => searchInvoiceItems({ ...payload, pageNumber }),
+        INVOICE_ITEMS_PAGE_SIZE,
+      ),
+    }),
+    staleTime: 1000 * 60,
+  });
+}
+
 export function useInvoiceItemById(id: string) {
   return useFetch({
-    queryKey: ["invoice-item", id],
+    queryKey: queryKeys.invoices.items.detail(id),
     queryFn: async () => {
       const result = await getInvoiceItem(id);
 
@@ -150,10 +253,12 @@ export function useCreateInvoiceItem() {
     },
     onSuccess: () => {
       message.success("Invoice item created successfully");
-      qc.invalidateQueries({ queryKey: ["invoice-items"] });
+      invalidateDomain(qc, "invoices");
     },
-    onError: () => {
-      message.error("Failed to create invoice item");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to create invoice item");
+      }
     },
   });
 }
@@ -171,13 +276,14 @@ export function useUpdateInvoiceItem() {
 
       return resp?.data;
     },
-    onSuccess: (_data, variable) => {
+    onSuccess: () => {
       message.success("Invoice item has been updated");
-      qc.invalidateQueries({ queryKey: ["invoice-items"] });
-      qc.invalidateQueries({ queryKey: ["invoice-item", variable.id] });
+      invalidateDomain(qc, "invoices");
     },
-    onError: () => {
-      message.error("Failed to update invoice item");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to update invoice item");
+      }
     },
   });
 }
@@ -194,7 +300,7 @@ export function useDeleteInvoiceItem() {
     },
     onSuccess: () => {
       message.success("Invoice item has been deleted");
-      qc.invalidateQueries({ queryKey: ["invoice-items"] });
+      invalidateDomain(qc, "invoices");
     },
     onError: () => {
       message.error("Failed to delete invoice item");
@@ -10,13 +10,14 @@ import type {
   SearchJobPositionsRequest,
   UpdateJobPositionRequest,
 } from "#src/openapi";
-import { useApiMutation, useFetch } from "#src/utils/api";
+import { useApiMutation, useFetch, hasFieldErrors } from "#src/utils/api";
 import { useQueryClient } from "@tanstack/react-query";
 import { useMessage } from "#src/utils/message";
+import { queryKeys, invalidateDomain } from "#src/utils/queries";
 
 export function useJobPositionsQuery(payload?: SearchJobPositionsRequest) {
   return useFetch({
-    queryKey: ["jobpositions", payload],
+    queryKey: queryKeys.jobPositions.list(payload),
     queryFn: async () => {
       const result = await searchJobPosition(payload);
 
@@ -26,14 +27,21 @@ export function useJobPositionsQuery(payload?: SearchJobPositionsRequest) {
   });
 }
 
-export function useJobPositionById(id: string) {
+export function useJobPositionById(id: string | null | undefined) {
+  const jobPositionId = id?.trim();
+
   return useFetch({
-    queryKey: ["jobposition", id],
+    queryKey: queryKeys.jobPositions.detail(jobPositionId),
     queryFn: async () => {
-      const result = await getJobPosition(id);
+      if (!jobPositionId) {
+        throw new Error("Job position id is required");
+      }
+
+      const result = await getJobPosition(jobPositionId);
 
       return result?.data;
     },
+    enabled: !!jobPositionId,
   });
 }
 
@@ -49,10 +57,12 @@ export function useCreateJobPosition() {
     },
     onSuccess: () => {
       message.success("Job position created successfully");
-      qc.invalidateQueries({ queryKey: ["jobpositions"] });
+      invalidateDomain(qc, "jobPositions");
     },
-    onError: () => {
-      message.error("Failed to create job position");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to create job position");
+      }
     },
   });
 }
@@ -70,13 +80,14 @@ export function useUpdateJobPosition() {
 
       return resp?.data;
     },
-    onSuccess: (_data, variable) => {
+    onSuccess: () => {
       message.success("Job position has been updated");
-      qc.invalidateQueries({ queryKey: ["jobpositions"] });
-      qc.invalidateQueries({ queryKey: ["jobposition", variable.id] });
+      invalidateDomain(qc, "jobPositions");
     },
-    onError: () => {
-      message.error("Failed to update job position");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to update job position");
+      }
     },
   });
 }
@@ -93,7 +104,7 @@ export function useDeleteJobPosition() {
     },
     onSuccess: () => {
       message.success("Job position has been deleted");
-      qc.invalidateQueries({ queryKey: ["jobpositions"] });
+      invalidateDomain(qc, "jobPositions");
     },
     onError: () => {
       message.error("Failed to delete job position");
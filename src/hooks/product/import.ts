@@ -0,0 +1,358 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { createProduct, searchProducts } from "#src/apis/products";
+import type { CategoryNameDto, CreateProductRequest } from "#src/openapi";
+import { handleApiError } from "#src/utils/api";
+import type { ApiError } from "#src/utils/api";
+import { useMessage } from "#src/utils/message";
+import { invalidateDomain } from "#src/utils/queries";
+
+/** Requests sent at once while importing */
+const IMPORT_BATCH_SIZE = 10;
+/** Pause between batches so a large file does not flood the API */
+const IMPORT_BATCH_DELAY = 500;
+/** Part numbers checked per duplicate lookup */
+const DUPLICATE_LOOKUP_SIZE = 50;
+
+export type ProductImportField =
+  | "partNumber"
+  | "name"
+  | "description"
+  | "unitCost"
+  | "retailPrice"
+  | "category";
+
+interface ProductImportFieldDefinition {
+  key: ProductImportField;
+  label: string;
+  required: boolean;
+  /** Lowercased header names matched automatically */
+  aliases: string[];
+}
+
+export const productImportFields: ProductImportFieldDefinition[] = [
+  {
+    key: "partNumber",
+    label: "Part Number",
+    required: true,
+    aliases: ["part number", "partnumber", "part no", "part #", "sku"],
+  },
+  {
+    key: "name",
+    label: "Product Name",
+    required: true,
+    aliases: ["name", "product name", "product"],
+  },
+  {
+    key: "description",
+    label: "Description",
+    required: false,
+    aliases: ["description", "details"],
+  },
+  {
+    key: "unitCost",
+    label: "Unit Cost",
+    required: true,
+    aliases: ["unit cost", "unitcost", "cost"],
+  },
+  {
+    key: "retailPrice",
+    label: "Retail Price",
+    required: false,
+    aliases: ["retail price", "retailprice", "price", "rrp"],
+  },
+  {
+    key: "category",
+    label: "Category",
+    required: true,
+    aliases: ["category", "category name", "categoryid", "category id"],
+  },
+];
+
+/** Column index in the file for each mapped field */
+export type ProductImportMapping = Partial<Record<ProductImportField, number>>;
+
+export type ProductImportStatus =
+  | "valid"
+  | "invalid"
+  | "duplicate"
+  | "imported"
+  | "failed";
+
+export interface ProductImportRow {
+  /** Line in the file, counting the header as line 1 */
+  rowNumber: number;
+  cells: string[];
+  request?: CreateProductRequest;
+  status: ProductImportStatus;
+  errors: string[];
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Matches file headers to product fields by name
+ */
+export function autoMapColumns(headers: string[]): ProductImportMapping {
+  const normalized = headers.map(normalize);
+
+  return Object.fromEntries(
+    productImportFields.flatMap(({ key, aliases }) => {
+      const index = normalized.findIndex((header) => aliases.includes(header));
+      return index >= 0 ? [[key, index]] : [];
+    }),
+  );
+}
+
+const parseAmount = (value: string) => {
+  const cleaned = value.replace(/[$,\s]/g, "");
+  return cleaned === "" ? undefined : Number(cleaned);
+};
+
+/**
+ * Checks which part numbers already exist, a chunk at a time. The result
+ * holds normalized part numbers. `eq` may compare case-sensitively, so each
+ * part number is also looked up in upper and lower case; a mixed-case
+ * match that still slips through is reported as a duplicate on import.
+ */
+export async function findExistingPartNumbers(
+  partNumbers: string[],
+): Promise<Set<string>> {
+  const existing = new Set<string>();
+  const unique = [
+    ...new Set(
+      partNumbers.flatMap((partNumber) => {
+        const trimmed = partNumber.trim();
+        return trimmed
+          ? [trimmed, trimmed.toUpperCase(), trimmed.toLowerCase()]
+          : [];
+      }),
+    ),
+  ];
+
+  for (let i = 0; i < unique.length; i += DUPLICATE_LOOKUP_SIZE) {
+    const chunk = unique.slice(i, i + DUPLICATE_LOOKUP_SIZE);
+    const result = await searchProducts({
+      pageNumber: 1,
+      pageSize: chunk.length,
+      advanceFilter: {
+        logic: "or",
+        filters: chunk.map((partNumber) => ({
+          field: "partNumber",
+          operator: "eq",
+          value: partNumber,
+        })),
+      },
+    });
+
+    (result.data ?? []).forEach((product) => {
+      if (product.partNumber) {
+        existing.add(normalize(product.partNumber));
+      }
+    });
+  }
+
+  return existing;
+}
+
+/**
+ * Turns file rows into create requests. Categories are matched by name or
+ * id; part numbers found in `existingPartNumbers` or earlier in the file
+ * are rejected.
+ */
+export function validateProductRows(
+  rows: string[][],
+  mapping: ProductImportMapping,
+  categories: CategoryNameDto[],
+  existingPartNumbers: Set<string>,
+): ProductImportRow[] {
+  const categoryIds = new Map<string, string>();
+  categories.forEach((category) => {
+    if (!category.id) {
+      return;
+    }
+    categoryIds.set(normalize(category.id), category.id);
+    if (category.name) {
+      categoryIds.set(normalize(category.name), category.id);
+    }
+  });
+
+  const seen = new Set<string>();
+
+  return rows.map((cells, index) => {
+    const read = (field: ProductImportField) => {
+      const column = mapping[field];
+      return column === undefined ? "" : (cells[column] ?? "").trim();
+    };
+
+    const errors: string[] = [];
+    const partNumber = read("partNumber");
+    const name = read("name");
+    const unitCost = parseAmount(read("unitCost"));
+    const retailPrice = parseAmount(read("retailPrice"));
+    const categoryName = read("category");
+    const categoryId = categoryIds.get(normalize(categoryName));
+
+    if (!partNumber) {
+      errors.push("Part number is required");
+    } else if (seen.has(normalize(partNumber))) {
+      errors.push("Part number appears earlier in the file");
+    }
+    if (!name) {
+      errors.push("Product name is required");
+    }
+    if (unitCost === undefined) {
+      errors.push("Unit cost is required");
+    } else if (Number.isNaN(unitCost) || unitCost < 0) {
+      errors.push("Unit cost must be a number of at least 0");
+    }
+    if (
+      retailPrice !== undefined &&
+      (Number.isNaN(retailPrice) || retailPrice < 0)
+    ) {
+      errors.push("Retail price must be a number of at least 0");
+    }
+    if (!categoryName) {
+      errors.push("Category is required");
+    } else if (!categoryId) {
+      errors.push(`Unknown category "${categoryName}"`);
+    }
+
+    const isDuplicate =
+      !!partNumber && existingPartNumbers.has(normalize(partNumber));
+    if (isDuplicate) {
+      errors.push("A product with this part number already exists");
+    }
+    if (partNumber) {
+      seen.add(normalize(partNumber));
+    }
+
+    return {
+      rowNumber: index + 2,
+      cells,
+      request:
+        errors.length === 0
+          ? {
+              partNumber,
+              name,
+              description: read("description") || null,
+              unitCost,
+              retailPrice: retailPrice ?? null,
+              categoryId,
+            }
+          : undefined,
+      status:
+        errors.length === 0 ? "valid" : isDuplicate ? "duplicate" : "invalid",
+      errors,
+    };
+  });
+}
+
+const describeError = (apiError: ApiError) => {
+  const fieldMessages = Object.values(apiError.fieldErrors).flat();
+
+  return fieldMessages.length > 0 ? fieldMessages : [apiError.message];
+};
+
+/** True when the server turned a row down because the part number exists */
+const isDuplicateError = (apiError: ApiError) =>
+  apiError.status === 409 ||
+  /already exists|duplicate/i.test(describeError(apiError).join(" "));
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Creates products from validated rows in throttled batches. Each row's
+ * outcome is reported through `onRowDone` as it settles; `cancel` stops
+ * before the next batch.
+ *
+ * @example
+ * ```tsx
+ * const { run, progress } = useProductImport();
+ * await run(validRows, (row) => updateRow(row));
+ * ```
+ */
+export function useProductImport() {
+  const qc = useQueryClient();
+  const message = useMessage();
+  const cancelledRef = useRef(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [isRunning, setIsRunning] = useState(false);
+
+  const run = async (
+    rows: ProductImportRow[],
+    onRowDone: (row: ProductImportRow) => void,
+  ) => {
+    cancelledRef.current = false;
+    setIsRunning(true);
+    setProgress({ done: 0, total: rows.length });
+
+    let done = 0;
+    let failed = 0;
+    let duplicates = 0;
+
+    try {
+      for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+        if (cancelledRef.current) {
+          break;
+        }
+        if (i > 0) {
+          await wait(IMPORT_BATCH_DELAY);
+        }
+
+        const batch = rows.slice(i, i + IMPORT_BATCH_SIZE);
+        const results = await Promise.allSettled(
+          batch.map((row) => createProduct(row.request)),
+        );
+
+        results.forEach((result, index) => {
+          const row = batch[index];
+          if (result.status === "fulfilled") {
+            onRowDone({ ...row, status: "imported", errors: [] });
+            return;
+          }
+
+          const apiError = handleApiError(result.reason);
+          // Duplicates are not retried with the failed rows
+          if (isDuplicateError(apiError)) {
+            duplicates++;
+            onRowDone({
+              ...row,
+              status: "duplicate",
+              errors: describeError(apiError),
+            });
+          } else {
+            failed++;
+            onRowDone({
+              ...row,
+              status: "failed",
+              errors: describeError(apiError),
+            });
+          }
+        });
+
+        done += batch.length;
+        setProgress({ done, total: rows.length });
+      }
+    } finally {
+      setIsRunning(false);
+      invalidateDomain(qc, "products");
+    }
+
+    const imported = done - failed - duplicates;
+    if (failed === 0 && duplicates === 0) {
+      message.success(`Imported ${done} products`);
+    } else {
+      message.warning(
+        `Imported ${imported} products, ${duplicates} already existed, ` +
+          `${failed} failed`,
+      );
+    }
+  };
+
+  const cancel = () => {
+    cancelledRef.current = true;
+  };
+
+  return { run, cancel, progress, isRunning };
+}
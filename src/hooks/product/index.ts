@@ -5,18 +5,45 @@ import {
   searchProducts,
   updateProduct,
 } from "#src/apis/products";
-import { useApiMutation, useFetch } from "#src/utils/api";
-import { useQueryClient } from "@tanstack/react-query";
+import {
+  useApiMutation,
+  useFetch,
+  useOptimisticMutation,
+  hasFieldErrors,
+  handleApiError,
+} from "#src/utils/api";
+import { useInfiniteQuery, useQueryClient } from "@tanstack/react-query";
 import { useMessage } from "#src/utils/message";
+import {
+  queryKeys,
+  invalidateDomain,
+  fetchAllPages,
+} from "#src/utils/queries";
 import type {
   CreateProductRequest,
+  ProductDto,
   SearchProductRequest,
   UpdateProductRequest,
 } from "#src/openapi";
+import type { RepriceChange } from "#src/utils/pricing";
+
+export {
+  autoMapColumns,
+  findExistingPartNumbers,
+  productImportFields,
+  useProductImport,
+  validateProductRows,
+} from "./import";
+export type {
+  ProductImportField,
+  ProductImportMapping,
+  ProductImportRow,
+  ProductImportStatus,
+} from "./import";
 
 export function useProductQuery(payload: SearchProductRequest) {
   return useFetch({
-    queryKey: ["products", payload],
+    queryKey: queryKeys.products.list(payload),
     queryFn: async () => {
       const result = await searchProducts(payload);
 
@@ -25,9 +52,96 @@ export function useProductQuery(payload: SearchProductRequest) {
   });
 }
 
+/**
+ * Loads `payload` page by page for the catalogue view. Stops at a page
+ * shorter than `pageSize` or once the response meta reports no next page.
+ */
+export function useInfiniteProducts(
+  payload: Omit<SearchProductRequest, "pageNumber">,
+) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.products.infinite(payload),
+    queryFn: async ({ pageParam }) => {
+      try {
+        return await searchProducts({ ...payload, pageNumber: pageParam });
+      } catch (error) {
+        throw handleApiError(error);
+      }
+    },
+    initialPageParam: 1,
+    // Advance from the page we asked for; the server's `currentPage` may be
+    // missing and would otherwise repeat the same page
+    getNextPageParam: (lastPage, _allPages, lastPageParam) => {
+      const rows = lastPage.data?.length ?? 0;
+      const isShortPage = rows === 0 || rows < (payload.pageSize ?? 0);
+
+      return isShortPage || lastPage.meta?.hasNextPage === false
+        ? undefined
+        : lastPageParam + 1;
+    },
+  });
+}
+
+/**
+ * Looks up several products in one search request, e.g. for the product
+ * column of invoice line items. Returns a map keyed by product id.
+ */
+export function useProductsByIds(ids: string[]) {
+  const uniqueIds = [...new Set(ids)].sort();
+  const payload: SearchProductRequest = {
+    pageNumber: 1,
+    pageSize: uniqueIds.length,
+    advanceFilter: {
+      logic: "or",
+      filters: uniqueIds.map((id) => ({
+        field: "id",
+        operator: "eq",
+        value: id,
+      })),
+    },
+  };
+
+  return useFetch({
+    queryKey: queryKeys.products.list(payload),
+    queryFn: async () => {
+      const result = await searchProducts(payload);
+
+      return new Map(
+        (result.data ?? []).map((product) => [product.id, product]),
+      );
+    },
+    enabled: uniqueIds.length > 0,
+    staleTime: 1000 * 60,
+  });
+}
+
+const CATEGORY_PRODUCTS_PAGE_SIZE = 100;
+
+/**
+ * Every product in a category, fetched page by page. Used where the whole
+ * set is needed at once, such as repricing a category.
+ */
+export function useCategoryProducts(categoryId: string | null | undefined) {
+  const payload: SearchProductRequest = {
+    pageSize: CATEGORY_PRODUCTS_PAGE_SIZE,
+    advanceFilter: { field: "categoryId", operator: "eq", value: categoryId },
+  };
+
+  return useFetch({
+    queryKey: queryKeys.products.list(payload),
+    queryFn: async () => ({
+      data: await fetchAllPages(
+        (pageNumber) => searchProducts({ ...payload, pageNumber }),
+        CATEGORY_PRODUCTS_PAGE_SIZE,
+      ),
+    }),
+    enabled: !!categoryId,
+  });
+}
+
 export function useProductById(id: string) {
   return useFetch({
-    queryKey: ["product", id],
+    queryKey: queryKeys.products.detail(id),
     queryFn: async () => {
       const result = await getProduct(id);
 
@@ -48,51 +162,133 @@ export function useCreateProduct() {
     },
     onSuccess: () => {
       message.success("Product created successfully");
-      qc.invalidateQueries({ queryKey: ["products"] });
+      invalidateDomain(qc, "products");
     },
-    onError: () => {
-      message.error("Failed to create product");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to create product");
+      }
     },
   });
 }
 
+/**
+ * Product fields an update may patch into the cache before the server
+ * answers. `categoryId` is left out: the detail embeds the category it
+ * points to, which only the refetch brings back.
+ */
+export const productPatchFields = [
+  "partNumber",
+  "name",
+  "description",
+  "unitCost",
+  "retailPrice",
+] as const satisfies readonly (keyof ProductDto)[];
+
 export function useUpdateProduct() {
-  const qc = useQueryClient();
   const message = useMessage();
 
-  return useApiMutation({
-    mutationFn: async (payload: { id: string; data: UpdateProductRequest }) => {
+  return useOptimisticMutation<
+    unknown,
+    { id: string; data: UpdateProductRequest },
+    ProductDto
+  >({
+    mutationFn: async (payload) => {
       const resp = await updateProduct(payload.id, payload.data);
 
       return resp.data;
     },
-    onSuccess: (_data, variable) => {
+    listKey: queryKeys.products.lists(),
+    detailKey: (variable) => queryKeys.products.detail(variable.id),
+    change: (variable) => ({
+      type: "update",
+      id: variable.id,
+      patch: variable.data,
+      fields: productPatchFields,
+    }),
+    onSuccess: () => {
       message.success("Product has been updated");
-      qc.invalidateQueries({ queryKey: ["products"] });
-      qc.invalidateQueries({ queryKey: ["product", variable.id] });
     },
-    onError: () => {
-      message.error("Failed to update product");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to update product");
+      }
     },
   });
 }
 
 export function useDeleteProduct() {
-  const qc = useQueryClient();
   const message = useMessage();
 
-  return useApiMutation({
-    mutationFn: async (id: string) => {
+  return useOptimisticMutation<unknown, string, ProductDto>({
+    mutationFn: async (id) => {
       const resp = await deleteProduct(id);
 
       return resp.data;
     },
+    listKey: queryKeys.products.lists(),
+    change: (id) => ({ type: "remove", id }),
     onSuccess: () => {
       message.success("Product has been deleted");
-      qc.invalidateQueries({ queryKey: ["products"] });
     },
     onError: () => {
       message.error("Failed to delete");
     },
   });
 }
+
+export interface RepriceResult {
+  updated: number;
+  failed: ProductDto[];
+}
+
+/**
+ * Applies new retail prices one product at a time. A failed update does
+ * not stop the rest; the products that failed are returned.
+ */
+export function useRepriceProducts() {
+  const qc = useQueryClient();
+  const message = useMessage();
+
+  return useApiMutation({
+    mutationFn: async (changes: RepriceChange[]): Promise<RepriceResult> => {
+      const failed: ProductDto[] = [];
+      // Rows without an id cannot be addressed and are skipped
+      const repriceable = changes.flatMap(({ product, suggestedPrice }) =>
+        product.id ? [{ id: product.id, product, suggestedPrice }] : [],
+      );
+
+      for (const { id, product, suggestedPrice } of repriceable) {
+        try {
+          await updateProduct(id, {
+            partNumber: product.partNumber,
+            name: product.name,
+            description: product.description,
+            unitCost: product.unitCost,
+            retailPrice: suggestedPrice,
+            categoryId: product.categoryId,
+          });
+        } catch {
+          failed.push(product);
+        }
+      }
+
+      return { updated: repriceable.length - failed.length, failed };
+    },
+    onSuccess: ({ updated, failed }) => {
+      if (failed.length === 0) {
+        message.success(`Repriced ${updated} products`);
+      } else {
+        message.warning(
+          `Repriced ${updated} products, ${failed.length} failed`,
+        );
+      }
+    },
+    onError: () => {
+      message.error("Failed to reprice products");
+    },
+    onSettled: () => {
+      invalidateDomain(qc, "products");
+    },
+  });
+}
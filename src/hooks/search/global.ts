@@ -0,0 +1,149 @@
+import { searchCategories } from "#src/apis/categories";
+import { searchCustomer } from "#src/apis/customers";
+import { searchProducts } from "#src/apis/products";
+import { searchWarehouseLocations } from "#src/apis/warehouses";
+import { usePermissions } from "#src/hooks/auth";
+import { useFetch } from "#src/utils/api";
+import { Permissions } from "#src/utils/permissions";
+import { queryKeys } from "#src/utils/queries";
+
+/** Shorter keywords match too much to be useful */
+const MIN_KEYWORD_LENGTH = 2;
+const RESULTS_PER_GROUP = 5;
+
+export interface GlobalSearchResult {
+  key: string;
+  title: string;
+  description?: string;
+  /** Detail page, or list page with `?open=<id>` so it shows the record */
+  href: string;
+}
+
+export interface GlobalSearchGroup {
+  key: string;
+  label: string;
+  results: GlobalSearchResult[];
+  isLoading: boolean;
+}
+
+const searchRequest = (keyword: string, fields: string[]) => ({
+  pageNumber: 1,
+  pageSize: RESULTS_PER_GROUP,
+  advanceSearches: { keyword, fields },
+});
+
+const openHref = (path: string, id: string | undefined) =>
+  `${path}?${new URLSearchParams({ open: id ?? "" })}`;
+
+/**
+ * Runs `keyword` against products, warehouse locations, categories and
+ * customers in parallel. Domains the user cannot view are skipped.
+ * Pass an already debounced keyword.
+ */
+export function useGlobalSearch(keyword: string): GlobalSearchGroup[] {
+  const { can } = usePermissions();
+  const trimmed = keyword.trim();
+  const enabled = trimmed.length >= MIN_KEYWORD_LENGTH;
+
+  const productRequest = searchRequest(trimmed, ["partNumber", "name"]);
+  const warehouseRequest = searchRequest(trimmed, ["zoneCode", "bin"]);
+  const categoryRequest = searchRequest(trimmed, ["categoryCode", "name"]);
+  const customerRequest = searchRequest(trimmed, [
+    "name",
+    "email",
+    "phoneNumber",
+  ]);
+
+  const canViewProducts = can(Permissions.Products.View);
+  const canViewWarehouses = can(Permissions.Warehouses.View);
+  const canViewCategories = can(Permissions.Categories.View);
+  const canViewCustomers = can(Permissions.Customers.View);
+
+  const products = useFetch({
+    queryKey: queryKeys.products.list(productRequest),
+    queryFn: () => searchProducts(productRequest),
+    enabled: enabled && canViewProducts,
+    staleTime: 1000 * 60,
+  });
+
+  const warehouses = useFetch({
+    queryKey: queryKeys.warehouses.list(warehouseRequest),
+    queryFn: () => searchWarehouseLocations(warehouseRequest),
+    enabled: enabled && canViewWarehouses,
+    staleTime: 1000 * 60,
+  });
+
+  const categories = useFetch({
+    queryKey: queryKeys.categories.list(categoryRequest),
+    queryFn: () => searchCategories(categoryRequest),
+    enabled: enabled && canViewCategories,
+    staleTime: 1000 * 60,
+  });
+
+  const customers = useFetch({
+    queryKey: queryKeys.customers.list(customerRequest),
+    queryFn: () => searchCustomer(customerRequest),
+    enabled: enabled && canViewCustomers,
+    staleTime: 1000 * 60,
+  });
+
+  if (!enabled) {
+    return [];
+  }
+
+  const groups: (GlobalSearchGroup | false)[] = [
+    canViewProducts && {
+      key: "products",
+      label: "Products",
+      isLoading: products.isLoading,
+      results: (products.data?.data ?? []).map((product) => ({
+        key: `product:${product.id}`,
+        title: product.name || "-",
+        description: product.partNumber ?? undefined,
+        href: `/dashboard/products/${product.id}`,
+      })),
+    },
+    canViewWarehouses && {
+      key: "warehouses",
+      label: "Warehouse Locations",
+      isLoading: warehouses.isLoading,
+      results: (warehouses.data?.data ?? []).map((location) => ({
+        key: `warehouse:${location.id}`,
+        title: [
+          location.zoneCode,
+          location.aisle,
+          location.shelf,
+          location.bin,
+        ]
+          .filter((part) => part !== null && part !== undefined)
+          .join("-"),
+        description: location.isOverstocked ? "Overstocked" : undefined,
+        href: openHref("/dashboard/warehouse", location.id),
+      })),
+    },
+    canViewCategories && {
+      key: "categories",
+      label: "Categories",
+      isLoading: categories.isLoading,
+      results: (categories.data?.data ?? []).map((category) => ({
+        key: `category:${category.id}`,
+        title: category.name || "-",
+        description: category.categoryCode ?? undefined,
+        href: openHref("/dashboard/categories", category.id),
+      })),
+    },
+    canViewCustomers && {
+      key: "customers",
+      label: "Customers",
+      isLoading: customers.isLoading,
+      results: (customers.data?.data ?? []).map((customer) => ({
+        key: `customer:${customer.id}`,
+        title: customer.name || "-",
+        description: customer.email ?? customer.phoneNumber ?? undefined,
+        href: openHref("/dashboard/customers", customer.id),
+      })),
+    },
+  ];
+
+  return groups.filter((group): group is GlobalSearchGroup => !!group);
+}
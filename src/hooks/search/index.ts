@@ -0,0 +1,248 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { Dispatch, SetStateAction } from "react";
+import { useSearchParams } from "react-router";
+import type { Filter, Search, Sort } from "#src/openapi";
+import { sortDirectionByOrder } from "#src/utils/enums";
+
+export { getSortOrder, mergeSorters, toSort, useTableSort } from "./sort";
+export type { SortableColumn } from "./sort";
+export { useGlobalSearch } from "./global";
+export type { GlobalSearchGroup, GlobalSearchResult } from "./global";
+
+/**
+ * Fields every `Search*Request` shares
+ */
+export interface SearchRequestState {
+  pageNumber?: number;
+  pageSize?: number;
+  advanceSearches?: Search;
+  advanceFilter?: Filter;
+  advanceSort?: Sort;
+}
+
+/** Query string keys owned by `useUrlSearchState` */
+const URL_KEYS = {
+  page: "page",
+  pageSize: "pageSize",
+  keyword: "q",
+  fields: "fields",
+  filter: "filter",
+  sort: "sort",
+} as const;
+
+const DESCENDING_PREFIX = "-";
+
+const toPositiveInt = (value: string | null) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const parseFilterParam = (value: string | null): Filter | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return parsed && typeof parsed === "object"
+      ? (parsed as Filter)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * `sort=name,-retailPrice` sorts by name ascending, then price descending
+ */
+const parseSortParam = (value: string | null): Sort | undefined => {
+  const columns = value?.split(",").filter(Boolean) ?? [];
+  if (columns.length === 0) {
+    return undefined;
+  }
+
+  return {
+    sortBy: columns.map((column) =>
+      column.startsWith(DESCENDING_PREFIX) ? column.slice(1) : column,
+    ),
+    sortDirection: columns.map((column) =>
+      column.startsWith(DESCENDING_PREFIX)
+        ? sortDirectionByOrder.desc
+        : sortDirectionByOrder.asc,
+    ),
+  };
+};
+
+const serializeSort = (sort: Sort | undefined) =>
+  (sort?.sortBy ?? [])
+    .map((column, index) =>
+      sort?.sortDirection?.[index] === sortDirectionByOrder.desc
+        ? `${DESCENDING_PREFIX}${column}`
+        : column,
+    )
+    .join(",");
+
+/**
+ * Reads a `Search*Request` from the query string. Anything missing or
+ * malformed falls back to `defaults`.
+ */
+export function parseSearchRequest<TSearch extends SearchRequestState>(
+  params: URLSearchParams,
+  defaults: TSearch,
+): TSearch {
+  const keyword = params.get(URL_KEYS.keyword);
+  const fields = params.get(URL_KEYS.fields);
+
+  return {
+    ...defaults,
+    pageNumber: toPositiveInt(params.get(URL_KEYS.page)) ?? defaults.pageNumber,
+    pageSize:
+      toPositiveInt(params.get(URL_KEYS.pageSize)) ?? defaults.pageSize,
+    advanceSearches: keyword
+      ? {
+          keyword,
+          fields: fields
+            ? fields.split(",")
+            : (defaults.advanceSearches?.fields ?? []),
+        }
+      : defaults.advanceSearches,
+    advanceFilter:
+      parseFilterParam(params.get(URL_KEYS.filter)) ?? defaults.advanceFilter,
+    advanceSort:
+      parseSortParam(params.get(URL_KEYS.sort)) ?? defaults.advanceSort,
+  };
+}
+
+/**
+ * Writes `request` into a copy of `params`, leaving keys the hook does not
+ * own untouched and omitting values that match `defaults`.
+ */
+export function serializeSearchRequest<TSearch extends SearchRequestState>(
+  request: TSearch,
+  defaults: TSearch,
+  params: URLSearchParams = new URLSearchParams(),
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  Object.values(URL_KEYS).forEach((key) => next.delete(key));
+
+  if (request.pageNumber && request.pageNumber !== defaults.pageNumber) {
+    next.set(URL_KEYS.page, String(request.pageNumber));
+  }
+  if (request.pageSize && request.pageSize !== defaults.pageSize) {
+    next.set(URL_KEYS.pageSize, String(request.pageSize));
+  }
+
+  // Untrimmed so the search box keeps trailing spaces while typing
+  const keyword = request.advanceSearches?.keyword;
+  if (keyword?.trim()) {
+    next.set(URL_KEYS.keyword, keyword);
+    const fields = request.advanceSearches?.fields ?? [];
+    if (fields.length > 0) {
+      next.set(URL_KEYS.fields, fields.join(","));
+    }
+  }
+
+  if (request.advanceFilter) {
+    next.set(URL_KEYS.filter, JSON.stringify(request.advanceFilter));
+  }
+
+  const sort = serializeSort(request.advanceSort);
+  if (sort) {
+    next.set(URL_KEYS.sort, sort);
+  }
+
+  return next;
+}
+
+/**
+ * Drop-in replacement for `useState<Search*Request>` that keeps the
+ * request in the URL, so reloading or sharing a link restores the same
+ * results. Page changes push a history entry (back/forward moves between
+ * result pages); keyword, filter and sort edits replace the current one.
+ *
+ * @example
+ * ```tsx
+ * const [searchParams, setSearchParams] =
+ *   useUrlSearchState<SearchCustomerRequest>({ pageNumber: 1, pageSize: 10 });
+ * ```
+ */
+export function useUrlSearchState<TSearch extends SearchRequestState>(
+  initial: TSearch,
+): [TSearch, Dispatch<SetStateAction<TSearch>>] {
+  const [defaults] = useState(initial);
+  const [params, setParams] = useSearchParams();
+  const query = params.toString();
+
+  const state = useMemo(
+    () => parseSearchRequest(new URLSearchParams(query), defaults),
+    [query, defaults],
+  );
+
+  const setState = useCallback<Dispatch<SetStateAction<TSearch>>>(
+    (action) => {
+      // react-router runs the updater before it reads the options, so
+      // `replace` can still be decided from the resolved request
+      const options = { replace: true };
+
+      setParams((current) => {
+        const previous = parseSearchRequest(current, defaults);
+        const next =
+          typeof action === "function" ? action(previous) : action;
+
+        options.replace =
+          (next.pageNumber ?? defaults.pageNumber) ===
+          (previous.pageNumber ?? defaults.pageNumber);
+
+        return serializeSearchRequest(next, defaults, current);
+      }, options);
+    },
+    [defaults, setParams],
+  );
+
+  return [state, setState];
+}
+
+/** Query string key holding the id of the record a page should open */
+const OPEN_PARAM = "open";
+
+/**
+ * Id of the record to show on load, e.g. `/dashboard/customers?open=<id>`.
+ * Lets links and the command palette jump straight to one record.
+ */
+export function useOpenRecordParam() {
+  const [params, setParams] = useSearchParams();
+  const openId = params.get(OPEN_PARAM);
+
+  const setOpenId = useCallback(
+    (id: string | null) => {
+      setParams(
+        (current) => {
+          const next = new URLSearchParams(current);
+          if (id) {
+            next.set(OPEN_PARAM, id);
+          } else {
+            next.delete(OPEN_PARAM);
+          }
+          return next;
+        },
+        { replace: true },
+      );
+    },
+    [setParams],
+  );
+
+  return [openId, setOpenId] as const;
+}
+
+/**
+ * `value`, updated only after it has stopped changing for `delay` ms
+ */
+export function useDebouncedValue<T>(value: T, delay = 300) {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
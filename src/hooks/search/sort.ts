@@ -0,0 +1,130 @@
+import { useRef } from "react";
+import type { ColumnType, TableProps } from "antd/es/table";
+import type { SorterResult } from "antd/es/table/interface";
+import type { Sort } from "#src/openapi";
+import { sortDirectionByOrder, sortDirectionLabels } from "#src/utils/enums";
+import type { SortOrder } from "#src/utils/enums";
+
+interface ColumnSort {
+  column: string;
+  order: SortOrder;
+}
+
+/** Props `useTableSort` spreads into a sortable column */
+export type SortableColumn<T> = Pick<
+  ColumnType<T>,
+  "key" | "sorter" | "sortOrder" | "onHeaderCell"
+>;
+
+const antdOrders = { asc: "ascend", desc: "descend" } as const;
+
+export function getSortOrder(
+  sort: Sort | null | undefined,
+  column: string,
+): SortOrder | undefined {
+  const index = sort?.sortBy?.indexOf(column) ?? -1;
+  const direction = sort?.sortDirection?.[index];
+
+  return index >= 0 && direction !== undefined
+    ? sortDirectionLabels[direction]
+    : undefined;
+}
+
+export function toSort(columns: ColumnSort[]): Sort | undefined {
+  if (columns.length === 0) {
+    return undefined;
+  }
+
+  return {
+    sortBy: columns.map(({ column }) => column),
+    sortDirection: columns.map(({ order }) => sortDirectionByOrder[order]),
+  };
+}
+
+/**
+ * Turns antd's sorter state into the next `Sort`. Without `multiple` only
+ * the column the user just clicked is kept; with it, columns already in
+ * `current` keep their priority and new ones are appended.
+ */
+export function mergeSorters<T>(
+  current: Sort | null | undefined,
+  sorter: SorterResult<T> | SorterResult<T>[],
+  multiple: boolean,
+): Sort | undefined {
+  const active: ColumnSort[] = (Array.isArray(sorter) ? sorter : [sorter])
+    .filter((result) => result.order && result.columnKey !== undefined)
+    .map((result) => ({
+      column: String(result.columnKey),
+      order: result.order === "descend" ? "desc" : "asc",
+    }));
+
+  const changed = active.find(
+    ({ column, order }) => getSortOrder(current, column) !== order,
+  );
+  const next = !multiple && changed ? [changed] : active;
+
+  const priority = (column: string) => {
+    const index = current?.sortBy?.indexOf(column) ?? -1;
+    return index >= 0 ? index : Number.MAX_SAFE_INTEGER;
+  };
+
+  return toSort(
+    [...next].sort((a, b) => priority(a.column) - priority(b.column)),
+  );
+}
+
+/**
+ * Server-side sorting for an antd table. Spread `sortable(key)` into each
+ * sortable column and pass `onChange` to the table; a plain click sorts by
+ * that column alone and shift-click adds it to the current sort.
+ *
+ * Without `onSortChange` the columns are left unsortable.
+ *
+ * @example
+ * ```tsx
+ * const { sortable, onChange } = useTableSort<ProductDto>(sort, onSortChange);
+ * const columns = [{ title: "Retail Price", ...sortable("retailPrice") }];
+ * return <Table columns={columns} onChange={onChange} />;
+ * ```
+ */
+export function useTableSort<T>(
+  sort: Sort | null | undefined,
+  onSortChange?: (sort: Sort | undefined) => void,
+) {
+  const shiftKeyRef = useRef(false);
+
+  const sortable = (column: string): SortableColumn<T> => {
+    if (!onSortChange) {
+      return { key: column };
+    }
+
+    const order = getSortOrder(sort, column);
+
+    return {
+      key: column,
+      sorter: { multiple: 1 },
+      sortOrder: order ? antdOrders[order] : null,
+      onHeaderCell: () => ({
+        onMouseDown: (event) => {
+          shiftKeyRef.current = event.shiftKey;
+        },
+      }),
+    };
+  };
+
+  const onChange: TableProps<T>["onChange"] = (
+    _pagination,
+    _filters,
+    sorter,
+    extra,
+  ) => {
+    if (extra.action !== "sort" || !onSortChange) {
+      return;
+    }
+
+    onSortChange(mergeSorters(sort, sorter, shiftKeyRef.current));
+    shiftKeyRef.current = false;
+  };
+
+  return { sortable, onChange };
+}
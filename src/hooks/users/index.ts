@@ -11,13 +11,14 @@ import type {
   UpdateUserRequest,
   UpdateUserByManagerRequest,
 } from "#src/openapi";
-import { useApiMutation, useFetch } from "#src/utils/api";
+import { useApiMutation, useFetch, hasFieldErrors } from "#src/utils/api";
 import { useQueryClient } from "@tanstack/react-query";
 import { useMessage } from "#src/utils/message";
+import { queryKeys, invalidateDomain } from "#src/utils/queries";
 
 export function useMeQuery() {
   return useFetch({
-    queryKey: ["me"],
+    queryKey: queryKeys.users.me(),
     queryFn: async () => {
       const result = await getMe();
 
@@ -39,10 +40,12 @@ export function useCreateUser() {
     },
     onSuccess: () => {
       message.success("User created successfully");
-      qc.invalidateQueries({ queryKey: ["users"] });
+      invalidateDomain(qc, "users");
     },
-    onError: () => {
-      message.error("Failed to create user");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to create user");
+      }
     },
   });
 }
@@ -59,10 +62,12 @@ export function useUpdateUser() {
     },
     onSuccess: () => {
       message.success("User has been updated");
-      qc.invalidateQueries({ queryKey: ["me"] });
+      invalidateDomain(qc, "users");
     },
-    onError: () => {
-      message.error("Failed to update user");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to update user");
+      }
     },
   });
 }
@@ -79,10 +84,12 @@ export function useCreateUserByAdmin() {
     },
     onSuccess: () => {
       message.success("User created successfully");
-      qc.invalidateQueries({ queryKey: ["users"] });
+      invalidateDomain(qc, "users");
     },
-    onError: () => {
-      message.error("Failed to create user");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to create user");
+      }
     },
   });
 }
@@ -99,10 +106,12 @@ export function useUpdateUserByManager() {
     },
     onSuccess: () => {
       message.success("User has been updated by manager");
-      qc.invalidateQueries({ queryKey: ["users"] });
+      invalidateDomain(qc, "users");
     },
-    onError: () => {
-      message.error("Failed to update user by manager");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to update user by manager");
+      }
     },
   });
 }
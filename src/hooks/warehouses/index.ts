@@ -1,12 +1,15 @@
 import { useQueryClient } from "@tanstack/react-query";
 import { useMessage } from "#src/utils/message";
+import { queryKeys, invalidateDomain } from "#src/utils/queries";
 import type {
   CreatePartLocationRequest,
   CreateWarehouseLocationRequest,
+  PartLocationDto,
   SearchPartLocationRequest,
   SearchWarehouseLocationRequest,
   UpdatePartLocationRequest,
   UpdateWarehouseLocationRequest,
+  WarehouseLocationDto,
 } from "#src/openapi";
 import type {} from "#src/apis/warehouses";
 import {
@@ -20,12 +23,18 @@ import {
   searchPartLocations,
   getWarehouseLocation,
 } from "#src/apis/warehouses";
-import { useFetch, useApiMutation } from "#src/utils/api";
+import {
+  useFetch,
+  useApiMutation,
+  useOptimisticMutation,
+  hasFieldErrors,
+} from "#src/utils/api";
+import type { ApiError } from "#src/utils/api";
 
 // Fetch warehouse location
 export function useWarehousesQuery(payload?: SearchWarehouseLocationRequest) {
   return useFetch({
-    queryKey: ["warehouses", payload],
+    queryKey: queryKeys.warehouses.list(payload),
     queryFn: async () => {
       const raw = await searchWarehouseLocations(payload);
 
@@ -45,57 +54,83 @@ export function useCreateWarehouse() {
     }),
     onSuccess: () => {
       message.success("Warehouse location created successfully");
-      qc.invalidateQueries({ queryKey: ["warehouses"] });
+      invalidateDomain(qc, "warehouses");
     },
-    onError: () => {
-      message.error("Failed to create warehouse location");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to create warehouse location");
+      }
     },
   });
 }
 
+/**
+ * Warehouse location fields an update may patch into the cache before the
+ * server answers
+ */
+export const warehousePatchFields = [
+  "zoneCode",
+  "aisle",
+  "shelf",
+  "bin",
+  "isOverstocked",
+] as const satisfies readonly (keyof WarehouseLocationDto)[];
+
 export function useUpdateWarehouse() {
-  const qc = useQueryClient();
   const message = useMessage();
-  return useApiMutation({
-    mutationFn: async (payload: {
-      id: string;
-      data: UpdateWarehouseLocationRequest;
-    }) => ({
+  return useOptimisticMutation<
+    { data: unknown },
+    { id: string; data: UpdateWarehouseLocationRequest },
+    WarehouseLocationDto
+  >({
+    mutationFn: async (payload) => ({
       data: await updateWarehouseLocation(payload.id, payload.data),
     }),
-    onSuccess: (_data, variable) => {
+    listKey: queryKeys.warehouses.lists(),
+    detailKey: (variable) => queryKeys.warehouses.detail(variable.id),
+    change: (variable) => ({
+      type: "update",
+      id: variable.id,
+      patch: variable.data,
+      fields: warehousePatchFields,
+    }),
+    domain: "warehouses",
+    onSuccess: () => {
       message.success("Warehouse location updated successfully");
-      qc.invalidateQueries({ queryKey: ["warehouses"] });
-      qc.invalidateQueries({ queryKey: ["warehouse", variable.id] });
     },
-    onError: () => {
-      message.error("Failed to update warehouse location");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to update warehouse location");
+      }
     },
   });
 }
 
 export function useDeleteWarehouse() {
-  const qc = useQueryClient();
   const message = useMessage();
-  return useApiMutation({
-    mutationFn: async (id: string) => ({
-      data: await deleteWarehouseLocation(id),
-    }),
-    onSuccess: () => {
-      message.success("Warehouse location deleted successfully");
-      qc.invalidateQueries({ queryKey: ["warehouses"] });
-    },
-    onError: () => {
-      message.error("Failed to delete warehouse location");
+  return useOptimisticMutation<{ data: unknown }, string, WarehouseLocationDto>(
+    {
+      mutationFn: async (id) => ({
+        data: await deleteWarehouseLocation(id),
+      }),
+      listKey: queryKeys.warehouses.lists(),
+      change: (id) => ({ type: "remove", id }),
+      domain: "warehouses",
+      onSuccess: () => {
+        message.success("Warehouse location deleted successfully");
+      },
+      onError: () => {
+        message.error("Failed to delete warehouse location");
+      },
     },
-  });
+  );
 }
 
 export function useWarehouseById(id: string | null | undefined) {
   const warehouseId = id?.trim();
 
   return useFetch({
-    queryKey: ["warehouse", id],
+    queryKey: queryKeys.warehouses.detail(id),
     queryFn: async () => {
       if (!warehouseId) {
         throw new Error("Warehouse id is required");
@@ -115,7 +150,7 @@ export function useWarehouseById(id: string | null | undefined) {
  */
 export function usePartLocationsQuery(payload?: SearchPartLocationRequest) {
   return useFetch({
-    queryKey: ["part-locations", payload],
+    queryKey: queryKeys.warehouses.partLocations.list(payload),
     queryFn: async () => {
       const raw = await searchPartLocations(payload);
       return {
@@ -134,12 +169,17 @@ export function useCreatePartLocation() {
     mutationFn: async (data: CreatePartLocationRequest) => ({
       data: await createPartLocationApi(data),
     }),
-    onSuccess: () => {
+    onSuccess: (_data, variable) => {
       message.success("Part location created successfully");
-      qc.invalidateQueries({ queryKey: ["part-locations"] });
+      invalidateDomain(qc, "partLocations", {
+        partId: variable.partId,
+        warehouseLocationId: variable.warehouseLocationId,
+      });
     },
-    onError: () => {
-      message.error("Failed to create part location");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to create part location");
+      }
     },
   });
 }
@@ -155,10 +195,14 @@ export function useUpdatePartLocation() {
     }) => ({ data: await updatePartLocationApi(payload.id, payload.data) }),
     onSuccess: () => {
       message.success("Part location updated successfully");
-      qc.invalidateQueries({ queryKey: ["part-locations"] });
+      // The previous part and location are not known here, so every
+      // product and warehouse detail is refreshed.
+      invalidateDomain(qc, "partLocations");
     },
-    onError: () => {
-      message.error("Failed to update part location");
+    onError: (error) => {
+      if (!hasFieldErrors(error)) {
+        message.error("Failed to update part location");
+      }
     },
   });
 }
@@ -173,10 +217,128 @@ export function useDeletePartLocation() {
     }),
     onSuccess: () => {
       message.success("Part location deleted successfully");
-      qc.invalidateQueries({ queryKey: ["part-locations"] });
+      invalidateDomain(qc, "partLocations");
     },
     onError: () => {
       message.error("Failed to delete part location");
     },
   });
 }
+
+export interface MoveStockPayload {
+  source: PartLocationDto;
+  /** The part's existing row at the destination, if it has one */
+  target?: PartLocationDto;
+  warehouseLocationId: string;
+  quantity: number;
+}
+
+const PARTIAL_STOCK_MOVE = "PARTIAL_STOCK_MOVE";
+
+/**
+ * Moves `quantity` of a part from one location to another. Stock is taken
+ * off the source row first (removing it once it is empty) and then added
+ * to the part's row at the destination, created when missing. If the
+ * destination fails, the source is restored; when that fails too, the
+ * error says the move only partly completed. Moving a whole row to a new
+ * location just repoints it.
+ */
+export function useMoveStock() {
+  const qc = useQueryClient();
+  const message = useMessage();
+
+  return useApiMutation({
+    mutationFn: async ({
+      source,
+      target,
+      warehouseLocationId,
+      quantity,
+    }: MoveStockPayload) => {
+      const sourceId = source.id!;
+      const available = source.quantityAtLocation ?? 0;
+      const remaining = available - quantity;
+
+      if (!target && remaining === 0) {
+        return {
+          data: await updatePartLocationApi(sourceId, {
+            partId: source.partId,
+            warehouseLocationId,
+            quantityAtLocation: quantity,
+          }),
+        };
+      }
+
+      if (remaining === 0) {
+        await deletePartLocationApi(sourceId);
+      } else {
+        await updatePartLocationApi(sourceId, {
+          partId: source.partId,
+          warehouseLocationId: source.warehouseLocationId,
+          quantityAtLocation: remaining,
+        });
+      }
+
+      try {
+        const data = target
+          ? await updatePartLocationApi(target.id!, {
+              partId: target.partId,
+              warehouseLocationId,
+              quantityAtLocation: (target.quantityAtLocation ?? 0) + quantity,
+            })
+          : await createPartLocationApi({
+              partId: source.partId,
+              warehouseLocationId,
+              quantityAtLocation: quantity,
+            });
+
+        return { data };
+      } catch (error) {
+        const restored = {
+          partId: source.partId,
+          warehouseLocationId: source.warehouseLocationId,
+          quantityAtLocation: available,
+        };
+
+        try {
+          if (remaining === 0) {
+            await createPartLocationApi(restored);
+          } else {
+            await updatePartLocationApi(sourceId, restored);
+          }
+        } catch {
+          const partial: ApiError = {
+            message:
+              `${quantity} units were taken from the source location but ` +
+              "not added to the destination. Adjust the stock to correct it.",
+            code: PARTIAL_STOCK_MOVE,
+            fieldErrors: {},
+          };
+          throw partial;
+        }
+
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      message.success("Stock moved successfully");
+    },
+    onError: (error) => {
+      message.error(
+        error.code === PARTIAL_STOCK_MOVE
+          ? error.message
+          : "Failed to move stock",
+      );
+    },
+    // A failure part way through can still have changed one of the rows
+    onSettled: (_data, _error, variables) => {
+      invalidateDomain(qc, "partLocations", {
+        partId: variables.source.partId,
+        warehouseLocationId: variables.source.warehouseLocationId,
+      });
+      invalidateDomain(qc, "partLocations", {
+        partId: variables.source.partId,
+        warehouseLocationId: variables.warehouseLocationId,
+      });
+    },
+  });
+}
@@ -0,0 +1,179 @@
+import { Typography } from "antd";
+import {
+  createCategory,
+  deleteCategory,
+  searchCategories,
+  updateCategory,
+} from "#src/apis/categories";
+import type { EntityDescriptor } from "#src/hooks/crud";
+import type {
+  CategoryDto,
+  CreateCategoryRequest,
+  SearchCategoryRequest,
+  UpdateCategoryRequest,
+} from "#src/openapi";
+import { SystemType } from "#src/openapi";
+import { Permissions } from "#src/utils/permissions";
+import { queryKeys } from "#src/utils/queries";
+
+const { Text } = Typography;
+
+const truncateText = (
+  text: string | null | undefined,
+  maxLength: number = 80,
+) => {
+  if (!text) return "-";
+  if (text.length <= maxLength) return text;
+  return `${text.substring(0, maxLength)}...`;
+};
+
+const toText = (value: unknown) =>
+  typeof value === "string" && value ? value : null;
+
+const toNumber = (value: unknown) =>
+  typeof value === "number" ? value : undefined;
+
+const systemTypeOptions = Object.values(SystemType).map((value) => ({
+  value,
+  label: `Type ${value}`,
+}));
+
+export const categoryDescriptor: EntityDescriptor<
+  CategoryDto,
+  SearchCategoryRequest,
+  CreateCategoryRequest,
+  UpdateCategoryRequest
+> = {
+  name: "Category",
+  pluralName: "Categories",
+  description: "Manage product categories and review category details",
+  keys: queryKeys.categories,
+  domain: "categories",
+  api: {
+    search: searchCategories,
+    create: createCategory,
+    update: updateCategory,
+    remove: deleteCategory,
+  },
+  defaultSearch: { pageNumber: 1, pageSize: 10 },
+  searchableFields: ["categoryCode", "name", "description"],
+  searchPlaceholder: "Search by category code, name or description",
+  patchFields: [
+    "categoryCode",
+    "name",
+    "description",
+    "type",
+    "defaultMarkupPercentage",
+  ],
+  deletePermission: Permissions.Categories.Delete,
+  columns: [
+    {
+      title: "Category Code",
+      dataIndex: "categoryCode",
+      key: "categoryCode",
+      sorter: true,
+      width: 160,
+      render: (text: string | null | undefined) => (
+        <Text className="font-mono text-sm">{text || "-"}</Text>
+      ),
+    },
+    {
+      title: "Name",
+      dataIndex: "name",
+      key: "name",
+      sorter: true,
+      width: 220,
+      render: (text: string | null | undefined) => (
+        <Text className="font-medium">{text || "-"}</Text>
+      ),
+    },
+    {
+      title: "Description",
+      dataIndex: "description",
+      key: "description",
+      width: 320,
+      render: (text: string | null | undefined) => (
+        <Text className="text-gray-600 text-xs">{truncateText(text)}</Text>
+      ),
+    },
+    {
+      title: "Type",
+      dataIndex: "type",
+      key: "type",
+      width: 120,
+      render: (value: number | undefined) =>
+        typeof value === "number" ? `Type ${value}` : "-",
+    },
+    {
+      title: "Default Markup",
+      dataIndex: "defaultMarkupPercentage",
+      key: "defaultMarkupPercentage",
+      sorter: true,
+      width: 160,
+      align: "right",
+      render: (value: number | undefined) => (
+        <span className="font-semibold text-gray-700">
+          {typeof value === "number" ? `${value}%` : "-"}
+        </span>
+      ),
+    },
+  ],
+  form: [
+    {
+      name: "categoryCode",
+      label: "Category Code",
+      placeholder: "e.g., CAT-001",
+      rules: [{ required: true, message: "Category code is required" }],
+    },
+    {
+      name: "name",
+      label: "Category Name",
+      placeholder: "e.g., Braking System",
+      rules: [{ required: true, message: "Category name is required" }],
+    },
+    {
+      name: "description",
+      label: "Description",
+      type: "textarea",
+      placeholder: "Describe this category",
+      fullWidth: true,
+    },
+    {
+      name: "type",
+      label: "Type",
+      type: "select",
+      placeholder: "Select category type",
+      options: systemTypeOptions,
+      rules: [{ required: true, message: "Category type is required" }],
+    },
+    {
+      name: "defaultMarkupPercentage",
+      label: "Default Markup Percentage",
+      type: "number",
+      placeholder: "e.g., 15",
+      min: 0,
+      precision: 2,
+      rules: [
+        {
+          type: "number",
+          min: 0,
+          message: "Markup percentage must be at least 0",
+        },
+      ],
+    },
+  ],
+  toFormValues: (category) => ({
+    categoryCode: category.categoryCode || undefined,
+    name: category.name || undefined,
+    description: category.description || undefined,
+    type: category.type,
+    defaultMarkupPercentage: category.defaultMarkupPercentage,
+  }),
+  toRequest: (values) => ({
+    categoryCode: toText(values.categoryCode),
+    name: toText(values.name),
+    description: toText(values.description),
+    type: toNumber(values.type) as SystemType | undefined,
+    defaultMarkupPercentage: toNumber(values.defaultMarkupPercentage),
+  }),
+};
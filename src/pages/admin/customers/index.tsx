@@ -0,0 +1,237 @@
+import { useMemo, useState } from "react";
+import { Button, Card, Input, Select, Space, Typography } from "antd";
+import {
+  useCreateCustomer,
+  useCustomersQuery,
+  useDeleteCustomer,
+  useUpdateCustomer,
+} from "#src/hooks/customers";
+import { useOpenRecordParam, useUrlSearchState } from "#src/hooks/search";
+import type {
+  CreateCustomerRequest,
+  CustomerDto,
+  CustomerType,
+  SearchCustomerRequest,
+  UpdateCustomerRequest,
+} from "#src/openapi";
+import { extractApiResponseMeta } from "#src/utils/queries";
+import { customerTypeOptions } from "#src/utils/enums";
+import {
+  CustomerDetailDrawer,
+  CustomerFormModal,
+  CustomerTable,
+} from "#src/components/customers";
+
+const { Title } = Typography;
+
+export default function CustomersPage() {
+  const [searchParams, setSearchParams] =
+    useUrlSearchState<SearchCustomerRequest>({
+      pageNumber: 1,
+      pageSize: 10,
+    });
+
+  const [isCustomerModalOpen, setIsCustomerModalOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<CustomerDto | null>(
+    null,
+  );
+  const [selectedCustomerId, setSelectedCustomerId] = useOpenRecordParam();
+
+  const {
+    data: customersResult,
+    isLoading: isLoadingCustomers,
+    refetch: refetchCustomers,
+  } = useCustomersQuery(searchParams);
+
+  const createMutation = useCreateCustomer();
+  const updateMutation = useUpdateCustomer();
+  const deleteMutation = useDeleteCustomer();
+
+  const customersMeta = useMemo(
+    () =>
+      extractApiResponseMeta(
+        customersResult?.meta,
+        searchParams.pageNumber ?? 1,
+        searchParams.pageSize ?? 10,
+      ),
+    [customersResult?.meta, searchParams.pageNumber, searchParams.pageSize],
+  );
+
+  const customersData = customersResult?.data ?? [];
+  const searchKeyword = searchParams?.advanceSearches?.keyword ?? "";
+  const customerTypeFilter =
+    searchParams?.advanceFilter?.field === "customerType"
+      ? (searchParams.advanceFilter.value as CustomerType)
+      : undefined;
+
+  const applyFilters = () => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: 1,
+    }));
+  };
+
+  const resetFilters = () => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: 1,
+      advanceSearches: undefined,
+      advanceFilter: undefined,
+    }));
+  };
+
+  const handleAddCustomer = () => {
+    setEditingCustomer(null);
+    setIsCustomerModalOpen(true);
+  };
+
+  const handleEditCustomer = (record: CustomerDto) => {
+    setEditingCustomer(record);
+    setIsCustomerModalOpen(true);
+  };
+
+  const handleViewCustomer = (record: CustomerDto) => {
+    if (!record.id) {
+      return;
+    }
+
+    setSelectedCustomerId(record.id);
+  };
+
+  const handleDeleteCustomer = (id: string) => {
+    deleteMutation.mutate(id);
+  };
+
+  const handleSubmitCustomer = async (
+    values: CreateCustomerRequest | UpdateCustomerRequest,
+  ) => {
+    if (editingCustomer?.id) {
+      await updateMutation.mutateAsync({
+        id: editingCustomer.id,
+        data: values as UpdateCustomerRequest,
+      });
+    } else {
+      await createMutation.mutateAsync(values as CreateCustomerRequest);
+    }
+
+    setIsCustomerModalOpen(false);
+    setEditingCustomer(null);
+  };
+
+  const handleCancelCustomer = () => {
+    setIsCustomerModalOpen(false);
+    setEditingCustomer(null);
+  };
+
+  const handlePaginationChange = (page: number, pageSize: number) => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: page,
+      pageSize,
+    }));
+  };
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <Card className="mb-6! shadow-sm">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Input
+            allowClear
+            value={searchKeyword}
+            placeholder="Search by name, phone or email"
+            onChange={(event) => {
+              const value = event.target.value;
+              const trimmed = value.trim();
+
+              setSearchParams((prev) => ({
+                ...prev,
+                pageNumber: 1,
+                advanceSearches: trimmed
+                  ? {
+                      fields: ["name", "phoneNumber", "email"],
+                      keyword: value,
+                    }
+                  : undefined,
+              }));
+            }}
+            onPressEnter={applyFilters}
+          />
+          <Select
+            allowClear
+            value={customerTypeFilter}
+            placeholder="All customer types"
+            options={customerTypeOptions}
+            onChange={(value: CustomerType | undefined) => {
+              setSearchParams((prev) => ({
+                ...prev,
+                pageNumber: 1,
+                advanceFilter:
+                  value === undefined
+                    ? undefined
+                    : { field: "customerType", operator: "eq", value },
+              }));
+            }}
+          />
+          <div className="flex gap-2">
+            <Button type="primary" onClick={applyFilters}>
+              Apply Filters
+            </Button>
+            <Button onClick={resetFilters}>Reset</Button>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="mb-6! shadow-sm">
+        <div className="flex justify-between items-center">
+          <div>
+            <Title level={3} className="mb-1!">
+              Customers
+            </Title>
+            <p className="text-gray-600 text-sm">
+              Manage the customer directory and review purchase history
+            </p>
+          </div>
+          <Space>
+            <Button
+              onClick={() => refetchCustomers()}
+              loading={isLoadingCustomers}
+              size="middle"
+            >
+              Refresh
+            </Button>
+            <Button type="primary" onClick={handleAddCustomer} size="middle">
+              Create Customer
+            </Button>
+          </Space>
+        </div>
+      </Card>
+
+      <CustomerTable
+        data={customersData}
+        loading={isLoadingCustomers}
+        onView={handleViewCustomer}
+        onEdit={handleEditCustomer}
+        onDelete={handleDeleteCustomer}
+        deleting={deleteMutation.isPending}
+        currentPage={customersMeta.currentPage}
+        pageSize={customersMeta.pageSize}
+        total={customersMeta.totalCount}
+        onPaginationChange={handlePaginationChange}
+      />
+
+      <CustomerFormModal
+        open={isCustomerModalOpen}
+        onCancel={handleCancelCustomer}
+        onSubmit={handleSubmitCustomer}
+        editingCustomer={editingCustomer}
+        loading={createMutation.isPending || updateMutation.isPending}
+      />
+
+      <CustomerDetailDrawer
+        open={!!selectedCustomerId}
+        customerId={selectedCustomerId}
+        onClose={() => setSelectedCustomerId(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { Button, Card, Space, Typography } from "antd";
+import {
+  useCreateDepartment,
+  useAllDepartments,
+  useDeleteDepartment,
+  useReassignAndDeleteDepartment,
+  useUpdateDepartment,
+} from "#src/hooks/departments";
+import type {
+  CreateDepartmentRequest,
+  DepartmentDto,
+  UpdateDepartmentRequest,
+} from "#src/openapi";
+import { useMessage } from "#src/utils/message";
+import {
+  DepartmentDeleteModal,
+  DepartmentFormModal,
+  DepartmentTree,
+} from "#src/components/departments";
+
+const { Title } = Typography;
+
+export default function DepartmentsPage() {
+  const message = useMessage();
+
+  const [isDepartmentModalOpen, setIsDepartmentModalOpen] = useState(false);
+  const [editingDepartment, setEditingDepartment] =
+    useState<DepartmentDto | null>(null);
+  const [defaultParentId, setDefaultParentId] = useState<string | null>(null);
+  const [deletingDepartment, setDeletingDepartment] =
+    useState<DepartmentDto | null>(null);
+
+  const {
+    data: departmentsResult,
+    isLoading: isLoadingDepartments,
+    refetch: refetchDepartments,
+  } = useAllDepartments();
+
+  const createMutation = useCreateDepartment();
+  const updateMutation = useUpdateDepartment();
+  const deleteMutation = useDeleteDepartment();
+  const reassignAndDeleteMutation = useReassignAndDeleteDepartment();
+
+  const departmentsData = departmentsResult?.data ?? [];
+
+  const handleAddDepartment = (parent?: DepartmentDto) => {
+    setEditingDepartment(null);
+    setDefaultParentId(parent?.id ?? null);
+    setIsDepartmentModalOpen(true);
+  };
+
+  const handleEditDepartment = (record: DepartmentDto) => {
+    setEditingDepartment(record);
+    setIsDepartmentModalOpen(true);
+  };
+
+  const handleSubmitDepartment = async (
+    values: CreateDepartmentRequest | UpdateDepartmentRequest,
+  ) => {
+    if (editingDepartment?.id) {
+      await updateMutation.mutateAsync({
+        id: editingDepartment.id,
+        data: values as UpdateDepartmentRequest,
+      });
+    } else {
+      await createMutation.mutateAsync(values as CreateDepartmentRequest);
+    }
+
+    setIsDepartmentModalOpen(false);
+    setEditingDepartment(null);
+  };
+
+  const handleCancelDepartment = () => {
+    setIsDepartmentModalOpen(false);
+    setEditingDepartment(null);
+  };
+
+  const handleMoveDepartment = (
+    record: DepartmentDto,
+    nextParentId: string | null,
+  ) => {
+    if (!record.id) {
+      return;
+    }
+
+    updateMutation.mutate({
+      id: record.id,
+      data: {
+        name: record.name,
+        description: record.description,
+        parentId: nextParentId,
+      },
+    });
+  };
+
+  const handleRejectMove = (record: DepartmentDto) => {
+    message.warning(
+      `${record.name || "A department"} cannot be moved under itself or one of its sub-departments`,
+    );
+  };
+
+  const handleConfirmDelete = async (payload: {
+    children: DepartmentDto[];
+    nextParentId: string | null;
+  }) => {
+    if (!deletingDepartment?.id) {
+      return;
+    }
+
+    if (payload.children.length > 0) {
+      await reassignAndDeleteMutation.mutateAsync({
+        id: deletingDepartment.id,
+        ...payload,
+      });
+    } else {
+      await deleteMutation.mutateAsync(deletingDepartment.id);
+    }
+
+    setDeletingDepartment(null);
+  };
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <Card className="mb-6! shadow-sm">
+        <div className="flex justify-between items-center">
+          <div>
+            <Title level={3} className="mb-1!">
+              Departments
+            </Title>
+            <p className="text-gray-600 text-sm">
+              Organise the department hierarchy. Drag a department onto
+              another to move it.
+            </p>
+          </div>
+          <Space>
+            <Button
+              onClick={() => refetchDepartments()}
+              loading={isLoadingDepartments}
+              size="middle"
+            >
+              Refresh
+            </Button>
+            <Button
+              type="primary"
+              onClick={() => handleAddDepartment()}
+              size="middle"
+            >
+              Create Department
+            </Button>
+          </Space>
+        </div>
+      </Card>
+
+      <Card className="shadow-sm">
+        <DepartmentTree
+          departments={departmentsData}
+          loading={isLoadingDepartments}
+          moving={updateMutation.isPending}
+          onEdit={handleEditDepartment}
+          onAddChild={handleAddDepartment}
+          onDelete={setDeletingDepartment}
+          onMove={handleMoveDepartment}
+          onRejectMove={handleRejectMove}
+        />
+      </Card>
+
+      <DepartmentFormModal
+        open={isDepartmentModalOpen}
+        onCancel={handleCancelDepartment}
+        onSubmit={handleSubmitDepartment}
+        editingDepartment={editingDepartment}
+        defaultParentId={defaultParentId}
+        loading={createMutation.isPending || updateMutation.isPending}
+        departments={departmentsData}
+      />
+
+      <DepartmentDeleteModal
+        key={deletingDepartment?.id ?? "none"}
+        open={!!deletingDepartment}
+        department={deletingDepartment}
+        departments={departmentsData}
+        loading={
+          deleteMutation.isPending || reassignAndDeleteMutation.isPending
+        }
+        onCancel={() => setDeletingDepartment(null)}
+        onConfirm={handleConfirmDelete}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useMemo, useState } from "react";
+import { Button, Card, Space, Typography } from "antd";
+import {
+  useCreateInvoiceWithItems,
+  useDeleteInvoice,
+  useInvoicesQuery,
+} from "#src/hooks/invoices";
+import { useUrlSearchState } from "#src/hooks/search";
+import { extractApiResponseMeta } from "#src/utils/queries";
+import type { SearchInvoiceRequest } from "#src/openapi";
+import { CustomerSelect } from "#src/components/customers";
+import {
+  InvoiceEditorModal,
+  InvoiceTable,
+  type InvoiceEditorValues,
+} from "#src/components/invoices";
+
+const { Title } = Typography;
+
+export default function InvoicesPage() {
+  const [searchParams, setSearchParams] =
+    useUrlSearchState<SearchInvoiceRequest>({
+      pageNumber: 1,
+      pageSize: 10,
+    });
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  const {
+    data: invoicesResult,
+    isLoading: isLoadingInvoices,
+    refetch: refetchInvoices,
+  } = useInvoicesQuery(searchParams);
+
+  const createMutation = useCreateInvoiceWithItems();
+  const deleteMutation = useDeleteInvoice();
+
+  const invoicesMeta = useMemo(
+    () =>
+      extractApiResponseMeta(
+        invoicesResult?.meta,
+        searchParams.pageNumber ?? 1,
+        searchParams.pageSize ?? 10,
+      ),
+    [invoicesResult?.meta, searchParams.pageNumber, searchParams.pageSize],
+  );
+
+  const invoicesData = invoicesResult?.data ?? [];
+
+  const customerFilter =
+    searchParams?.advanceFilter?.field === "customerId"
+      ? (searchParams.advanceFilter.value as string)
+      : undefined;
+
+  const resetFilters = () => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: 1,
+      advanceFilter: undefined,
+    }));
+  };
+
+  const handleSubmitInvoice = async (values: InvoiceEditorValues) => {
+    await createMutation.mutateAsync(values);
+    setIsEditorOpen(false);
+  };
+
+  const handleDeleteInvoice = (id: string) => {
+    deleteMutation.mutate(id);
+  };
+
+  const handlePaginationChange = (page: number, pageSize: number) => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: page,
+      pageSize,
+    }));
+  };
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <Card className="mb-6! shadow-sm">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <CustomerSelect
+            allowClear
+            value={customerFilter}
+            placeholder="Filter by customer"
+            onChange={(value: string | undefined) => {
+              setSearchParams((prev) => ({
+                ...prev,
+                pageNumber: 1,
+                advanceFilter: value
+                  ? { field: "customerId", operator: "eq", value }
+                  : undefined,
+              }));
+            }}
+          />
+
+          <div className="flex gap-2">
+            <Button onClick={resetFilters}>Reset</Button>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="mb-6! shadow-sm">
+        <div className="flex justify-between items-center">
+          <div>
+            <Title level={3} className="mb-1!">
+              Invoices
+            </Title>
+            <p className="text-gray-600 text-sm">
+              Record counter sales and review invoice line items
+            </p>
+          </div>
+          <Space>
+            <Button
+              onClick={() => refetchInvoices()}
+              loading={isLoadingInvoices}
+              size="middle"
+            >
+              Refresh
+            </Button>
+            <Button
+              type="primary"
+              onClick={() => setIsEditorOpen(true)}
+              size="middle"
+            >
+              Create Invoice
+            </Button>
+          </Space>
+        </div>
+      </Card>
+
+      <InvoiceTable
+        data={invoicesData}
+        loading={isLoadingInvoices}
+        onDelete={handleDeleteInvoice}
+        deleting={deleteMutation.isPending}
+        currentPage={invoicesMeta.currentPage}
+        pageSize={invoicesMeta.pageSize}
+        total={invoicesMeta.totalCount}
+        onPaginationChange={handlePaginationChange}
+      />
+
+      <InvoiceEditorModal
+        open={isEditorOpen}
+        onCancel={() => setIsEditorOpen(false)}
+        onSubmit={handleSubmitInvoice}
+        loading={createMutation.isPending}
+      />
+    </div>
+  );
+}
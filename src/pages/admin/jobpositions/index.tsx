@@ -0,0 +1,232 @@
+import { useMemo, useState } from "react";
+import { Button, Card, Input, Select, Space, Typography } from "antd";
+import {
+  useCreateJobPosition,
+  useDeleteJobPosition,
+  useJobPositionsQuery,
+  useUpdateJobPosition,
+} from "#src/hooks/jobpositios";
+import { useUrlSearchState } from "#src/hooks/search";
+import type { JobPosition } from "#src/apis/jobpositios";
+import type {
+  AccessLevel,
+  CreateJobPositionRequest,
+  SearchJobPositionsRequest,
+  UpdateJobPositionRequest,
+} from "#src/openapi";
+import { extractApiResponseMeta } from "#src/utils/queries";
+import { accessLevelOptions } from "#src/utils/enums";
+import {
+  JobPositionFormModal,
+  JobPositionSalarySummary,
+  JobPositionTable,
+} from "#src/components/jobpositions";
+
+const { Title } = Typography;
+
+export default function JobPositionsPage() {
+  const [searchParams, setSearchParams] =
+    useUrlSearchState<SearchJobPositionsRequest>({
+      pageNumber: 1,
+      pageSize: 10,
+    });
+
+  const [isJobPositionModalOpen, setIsJobPositionModalOpen] = useState(false);
+  const [editingJobPosition, setEditingJobPosition] =
+    useState<JobPosition | null>(null);
+
+  const {
+    data: jobPositionsResult,
+    isLoading: isLoadingJobPositions,
+    refetch: refetchJobPositions,
+  } = useJobPositionsQuery(searchParams);
+
+  const createMutation = useCreateJobPosition();
+  const updateMutation = useUpdateJobPosition();
+  const deleteMutation = useDeleteJobPosition();
+
+  const jobPositionsMeta = useMemo(
+    () =>
+      extractApiResponseMeta(
+        jobPositionsResult?.meta,
+        searchParams.pageNumber ?? 1,
+        searchParams.pageSize ?? 10,
+      ),
+    [jobPositionsResult?.meta, searchParams.pageNumber, searchParams.pageSize],
+  );
+
+  const jobPositionsData: JobPosition[] = jobPositionsResult?.data ?? [];
+
+  const searchKeyword = searchParams?.advanceSearches?.keyword ?? "";
+  const selectedAccessLevel =
+    searchParams?.advanceFilter?.field === "accessLevel"
+      ? (searchParams.advanceFilter.value as AccessLevel)
+      : undefined;
+
+  const applyFilters = () => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: 1,
+    }));
+  };
+
+  const resetFilters = () => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: 1,
+      advanceSearches: undefined,
+      advanceFilter: undefined,
+    }));
+  };
+
+  const handleAddJobPosition = () => {
+    setEditingJobPosition(null);
+    setIsJobPositionModalOpen(true);
+  };
+
+  const handleEditJobPosition = (record: JobPosition) => {
+    setEditingJobPosition(record);
+    setIsJobPositionModalOpen(true);
+  };
+
+  const handleDeleteJobPosition = (id: string) => {
+    deleteMutation.mutate(id);
+  };
+
+  const handleSubmitJobPosition = async (
+    values: CreateJobPositionRequest | UpdateJobPositionRequest,
+  ) => {
+    if (editingJobPosition?.id) {
+      await updateMutation.mutateAsync({
+        id: editingJobPosition.id,
+        data: values as UpdateJobPositionRequest,
+      });
+    } else {
+      await createMutation.mutateAsync(values as CreateJobPositionRequest);
+    }
+
+    setIsJobPositionModalOpen(false);
+    setEditingJobPosition(null);
+  };
+
+  const handleCancelJobPosition = () => {
+    setIsJobPositionModalOpen(false);
+    setEditingJobPosition(null);
+  };
+
+  const handlePaginationChange = (page: number, pageSize: number) => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: page,
+      pageSize,
+    }));
+  };
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <Card className="mb-6! shadow-sm">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Input
+            allowClear
+            value={searchKeyword}
+            placeholder="Search by title or description"
+            onChange={(event) => {
+              const value = event.target.value;
+              const trimmed = value.trim();
+
+              setSearchParams((prev) => ({
+                ...prev,
+                pageNumber: 1,
+                advanceSearches: trimmed
+                  ? {
+                      fields: ["title", "description"],
+                      keyword: value,
+                    }
+                  : undefined,
+              }));
+            }}
+            onPressEnter={applyFilters}
+          />
+
+          <Select
+            allowClear
+            placeholder="Filter by access level"
+            value={selectedAccessLevel}
+            options={accessLevelOptions}
+            onChange={(value?: AccessLevel) => {
+              setSearchParams((prev) => ({
+                ...prev,
+                pageNumber: 1,
+                advanceFilter:
+                  value !== undefined
+                    ? {
+                        field: "accessLevel",
+                        operator: "eq",
+                        value,
+                      }
+                    : undefined,
+              }));
+            }}
+          />
+
+          <div className="flex gap-2">
+            <Button type="primary" onClick={applyFilters}>
+              Apply Filters
+            </Button>
+            <Button onClick={resetFilters}>Reset</Button>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="mb-6! shadow-sm">
+        <div className="flex justify-between items-center">
+          <div>
+            <Title level={3} className="mb-1!">
+              Job Positions
+            </Title>
+            <p className="text-gray-600 text-sm">
+              Manage job titles, their salaries and access levels
+            </p>
+          </div>
+          <Space>
+            <Button
+              onClick={() => refetchJobPositions()}
+              loading={isLoadingJobPositions}
+              size="middle"
+            >
+              Refresh
+            </Button>
+            <Button type="primary" onClick={handleAddJobPosition} size="middle">
+              Create Job Position
+            </Button>
+          </Space>
+        </div>
+      </Card>
+
+      <JobPositionSalarySummary
+        data={jobPositionsData}
+        loading={isLoadingJobPositions}
+      />
+
+      <JobPositionTable
+        data={jobPositionsData}
+        loading={isLoadingJobPositions}
+        onEdit={handleEditJobPosition}
+        onDelete={handleDeleteJobPosition}
+        deleting={deleteMutation.isPending}
+        currentPage={jobPositionsMeta.currentPage}
+        pageSize={jobPositionsMeta.pageSize}
+        total={jobPositionsMeta.totalCount}
+        onPaginationChange={handlePaginationChange}
+      />
+
+      <JobPositionFormModal
+        open={isJobPositionModalOpen}
+        onCancel={handleCancelJobPosition}
+        onSubmit={handleSubmitJobPosition}
+        editingJobPosition={editingJobPosition}
+        loading={createMutation.isPending || updateMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import {
+  createProduct,
+  deleteProduct,
+  getProduct,
+  searchProducts,
+  updateProduct,
+} from "#src/apis/products";
+import type { FilterFieldDefinition } from "#src/components/filters";
+import type { EntityDescriptor } from "#src/hooks/crud";
+import { productPatchFields } from "#src/hooks/product";
+import type {
+  CategoryNameDto,
+  CreateProductRequest,
+  ProductDto,
+  SearchProductRequest,
+  UpdateProductRequest,
+} from "#src/openapi";
+import { Permissions } from "#src/utils/permissions";
+import { queryKeys } from "#src/utils/queries";
+
+export const productDescriptor: EntityDescriptor<
+  ProductDto,
+  SearchProductRequest,
+  CreateProductRequest,
+  UpdateProductRequest
+> = {
+  name: "Product",
+  pluralName: "Products",
+  description: "Manage products and view warehouse stock information",
+  keys: queryKeys.products,
+  domain: "products",
+  api: {
+    search: searchProducts,
+    create: createProduct,
+    update: updateProduct,
+    remove: deleteProduct,
+    // Same shape as `useProductById`
+    get: async (id) => (await getProduct(id)).data,
+  },
+  defaultSearch: { pageNumber: 1, pageSize: 10 },
+  searchableFields: ["partNumber", "name"],
+  searchPlaceholder: "Search by part number or name",
+  patchFields: productPatchFields,
+  deletePermission: Permissions.Products.Delete,
+};
+
+export const buildProductFilterFields = (
+  categories: CategoryNameDto[],
+): FilterFieldDefinition[] => [
+  { name: "partNumber", label: "Part Number", type: "string" },
+  { name: "name", label: "Name", type: "string" },
+  { name: "description", label: "Description", type: "string" },
+  { name: "unitCost", label: "Unit Cost", type: "number" },
+  { name: "retailPrice", label: "Retail Price", type: "number" },
+  {
+    name: "categoryId",
+    label: "Category",
+    type: "enum",
+    options: categories.map((category) => ({
+      label: category.name ?? "",
+      value: category.id!,
+    })),
+  },
+];
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router";
+import { Card, Descriptions, Empty, Spin, Tag, Typography } from "antd";
+import { ArrowLeft } from "lucide-react";
+import {
+  AdjustStockModal,
+  MarkupDeviationTag,
+  MoveStockModal,
+  ProductStockTable,
+} from "#src/components/products";
+import type {
+  MoveStockValues,
+  ProductStockRow,
+} from "#src/components/products";
+import { useProductById } from "#src/hooks/product";
+import {
+  useMoveStock,
+  usePartLocationsQuery,
+  useUpdatePartLocation,
+} from "#src/hooks/warehouses";
+import { getMarkupDeviation, suggestRetailPrice } from "#src/utils/pricing";
+
+const { Text, Title } = Typography;
+
+/** Enough to cover every location a single part is stocked at */
+const PART_LOCATIONS_PAGE_SIZE = 100;
+
+const formatMoney = (value: number | null | undefined) =>
+  `$${(value ?? 0).toFixed(2)}`;
+
+function renderValue(value: string | null | undefined) {
+  if (!value) {
+    return <Text type="secondary">-</Text>;
+  }
+
+  return <Text>{value}</Text>;
+}
+
+function renderMargin(
+  unitCost: number | null | undefined,
+  retailPrice: number | null | undefined,
+) {
+  const margin = (retailPrice ?? 0) - (unitCost ?? 0);
+  const percent =
+    retailPrice && retailPrice > 0 ? (margin / retailPrice) * 100 : undefined;
+
+  return (
+    <Text type={margin < 0 ? "danger" : undefined} strong>
+      {formatMoney(margin)}
+      {percent !== undefined && ` (${percent.toFixed(1)}%)`}
+    </Text>
+  );
+}
+
+export default function ProductDetailPage() {
+  const { id = "" } = useParams();
+  const { data: product, isLoading } = useProductById(id);
+  const { data: partLocations, isLoading: loadingPartLocations } =
+    usePartLocationsQuery({
+      pageNumber: 1,
+      pageSize: PART_LOCATIONS_PAGE_SIZE,
+      advanceFilter: { field: "partId", operator: "eq", value: id },
+    });
+
+  const updatePartLocation = useUpdatePartLocation();
+  const moveStock = useMoveStock();
+
+  const [adjusting, setAdjusting] = useState<ProductStockRow | null>(null);
+  const [moving, setMoving] = useState<ProductStockRow | null>(null);
+
+  const handleAdjust = async (quantity: number) => {
+    const partLocation = adjusting?.partLocation;
+    if (!partLocation?.id) {
+      return;
+    }
+
+    await updatePartLocation.mutateAsync({
+      id: partLocation.id,
+      data: {
+        partId: partLocation.partId,
+        warehouseLocationId: partLocation.warehouseLocationId,
+        quantityAtLocation: quantity,
+      },
+    });
+    setAdjusting(null);
+  };
+
+  const handleMove = async (values: MoveStockValues) => {
+    const source = moving?.partLocation;
+    if (!source) {
+      return;
+    }
+
+    await moveStock.mutateAsync({
+      source,
+      target: partLocations?.data?.find(
+        (partLocation) =>
+          partLocation.warehouseLocationId === values.warehouseLocationId,
+      ),
+      warehouseLocationId: values.warehouseLocationId,
+      quantity: values.quantity,
+    });
+    setMoving(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 bg-gray-50 min-h-screen text-center">
+        <Spin />
+      </div>
+    );
+  }
+
+  if (!product) {
+    return (
+      <div className="p-6 bg-gray-50 min-h-screen">
+        <Empty description="Product not found">
+          <Link to="/dashboard/products">Back to products</Link>
+        </Empty>
+      </div>
+    );
+  }
+
+  const category = product.category;
+  const suggestedPrice = suggestRetailPrice(
+    product.unitCost,
+    category?.defaultMarkupPercentage,
+  );
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <Link
+        to="/dashboard/products"
+        className="inline-flex items-center gap-1 mb-4 text-sm"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to products
+      </Link>
+
+      <Card className="mb-6! shadow-sm">
+        <Title level={3} className="mb-1!">
+          {product.name || "-"}
+        </Title>
+        <Text className="font-mono text-gray-600">
+          {product.partNumber || "-"}
+        </Text>
+
+        <Descriptions bordered column={1} size="middle" className="mt-4">
+          <Descriptions.Item label="Description">
+            {renderValue(product.description)}
+          </Descriptions.Item>
+          <Descriptions.Item label="Unit Cost">
+            {formatMoney(product.unitCost)}
+          </Descriptions.Item>
+          <Descriptions.Item label="Retail Price">
+            {formatMoney(product.retailPrice)}
+          </Descriptions.Item>
+          <Descriptions.Item label="Margin">
+            {renderMargin(product.unitCost, product.retailPrice)}
+          </Descriptions.Item>
+          <Descriptions.Item label="Suggested Retail Price">
+            {suggestedPrice !== undefined ? (
+              <>
+                {formatMoney(suggestedPrice)}
+                <MarkupDeviationTag
+                  deviation={getMarkupDeviation(
+                    product,
+                    category?.defaultMarkupPercentage,
+                  )}
+                />
+              </>
+            ) : (
+              renderValue(undefined)
+            )}
+          </Descriptions.Item>
+        </Descriptions>
+      </Card>
+
+      <Card title="Category" className="mb-6! shadow-sm">
+        {category ? (
+          <Descriptions bordered column={1} size="middle">
+            <Descriptions.Item label="Category Code">
+              {renderValue(category.categoryCode)}
+            </Descriptions.Item>
+            <Descriptions.Item label="Name">
+              {renderValue(category.name)}
+            </Descriptions.Item>
+            <Descriptions.Item label="Description">
+              {renderValue(category.description)}
+            </Descriptions.Item>
+            <Descriptions.Item label="Type">
+              {typeof category.type === "number" ? (
+                <Tag>Type {category.type}</Tag>
+              ) : (
+                renderValue(undefined)
+              )}
+            </Descriptions.Item>
+            <Descriptions.Item label="Default Markup Percentage">
+              {renderValue(
+                typeof category.defaultMarkupPercentage === "number"
+                  ? `${category.defaultMarkupPercentage}%`
+                  : undefined,
+              )}
+            </Descriptions.Item>
+          </Descriptions>
+        ) : (
+          <Empty description="No category assigned" />
+        )}
+      </Card>
+
+      <Card title="Stock by Location" className="shadow-sm">
+        <ProductStockTable
+          stocks={product.warehouseStocks ?? []}
+          partLocations={partLocations?.data ?? []}
+          loading={loadingPartLocations}
+          onAdjust={setAdjusting}
+          onMove={setMoving}
+        />
+      </Card>
+
+      <AdjustStockModal
+        stock={adjusting}
+        onCancel={() => setAdjusting(null)}
+        onSubmit={handleAdjust}
+        loading={updatePartLocation.isPending}
+      />
+      <MoveStockModal
+        stock={moving}
+        onCancel={() => setMoving(null)}
+        onSubmit={handleMove}
+        loading={moveStock.isPending}
+      />
+    </div>
+  );
+}
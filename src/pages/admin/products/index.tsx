@@ -1,199 +1,150 @@
-import { Card, Typography, Button, Space, Input } from "antd";
-import { ProductFormModal, ProductTable } from "#src/components/products";
 import { useMemo, useState } from "react";
+import { useSearchParams } from "react-router";
+import { Button, Segmented } from "antd";
 import {
-  useCreateProduct,
-  useDeleteProduct,
-  useProductQuery,
-  useUpdateProduct,
-} from "#src/hooks/product";
-import { useCategoryMap } from "#src/hooks/categories";
-import { extractApiResponseMeta } from "#src/utils/queries";
-import type {
-  CreateProductRequest,
-  ProductDto,
-  SearchProductRequest,
-  UpdateProductRequest,
-} from "#src/openapi";
-
-const { Title } = Typography;
+  ProductCatalogue,
+  ProductFormModal,
+  ProductImportWizard,
+  ProductTable,
+  RepriceCategoryModal,
+} from "#src/components/products";
+import { EntityCrudPage } from "#src/components/crud";
+import { AdvancedFilterButton } from "#src/components/filters";
+import { useEntityCrud } from "#src/hooks/crud";
+import { useCategoryMap, useCategoryMarkups } from "#src/hooks/categories";
+import { buildProductFilterFields, productDescriptor } from "./descriptor";
+
+type ProductView = "table" | "catalogue";
+
+const VIEW_PARAM = "view";
+const CATALOGUE_PAGE_SIZE = 100;
 
 export default function ProductsPage() {
-  const [showProductModal, setShowProductModal] = useState(false);
-  const [editingProduct, setEditingProduct] = useState<ProductDto | null>(null);
-  const [searchParams, setSearchParams] = useState<SearchProductRequest>({
-    pageNumber: 1,
-    pageSize: 10,
+  // Kept in the URL next to the search state so catalogue links survive
+  // a reload
+  const [params, setParams] = useSearchParams();
+  const view: ProductView =
+    params.get(VIEW_PARAM) === "catalogue" ? "catalogue" : "table";
+
+  // The catalogue loads its own pages, so the table's search is skipped
+  const crud = useEntityCrud(productDescriptor, {
+    listEnabled: view === "table",
   });
-
-  const {
-    data: productsData,
-    isLoading: isLoadingProducts,
-    refetch: refetchProducts,
-  } = useProductQuery(searchParams);
   const { data: categoryMap, isLoading: loadingCategories } = useCategoryMap();
-
-  const createMutation = useCreateProduct();
-  const updateMutation = useUpdateProduct();
-  const deleteMutation = useDeleteProduct();
-
-  const productsMeta = useMemo(
-    () =>
-      extractApiResponseMeta(
-        productsData?.meta,
-        searchParams.pageNumber ?? 1,
-        searchParams.pageSize ?? 10,
-      ),
-    [productsData?.meta, searchParams.pageNumber, searchParams.pageSize],
+  const { data: categoryMarkups } = useCategoryMarkups();
+  const [isRepriceOpen, setIsRepriceOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const filterFields = useMemo(
+    () => buildProductFilterFields(categoryMap || []),
+    [categoryMap],
   );
 
-  const paginationCurrentPage = productsMeta.currentPage;
-  const paginationPageSize = productsMeta.pageSize;
-  const paginationTotal = productsMeta.totalCount;
-
-  const data = productsData?.data ?? [];
-  const searchKeyword = searchParams?.advanceSearches?.keyword ?? "";
-
-  const applyFilters = () => {
-    setSearchParams((prev) => ({
-      ...prev,
-      pageNumber: 1,
-    }));
-  };
-
-  const resetFilters = () => {
-    setSearchParams((prev) => ({
-      ...prev,
-      pageNumber: 1,
-      advanceSearches: undefined,
-      advanceFilter: undefined,
-    }));
-  };
-
-  const handleSubmitProduct = async (
-    values: CreateProductRequest | UpdateProductRequest,
-  ) => {
-    if (editingProduct) {
-      updateMutation.mutate({
-        id: editingProduct.id!,
-        data: values as UpdateProductRequest,
-      });
-    } else {
-      createMutation.mutate(values as CreateProductRequest);
-    }
-    setShowProductModal(false);
-    setEditingProduct(null);
-  };
-
-  const handleAddProduct = () => {
-    setEditingProduct(null);
-    setShowProductModal(true);
-  };
-
-  const handleEditProduct = (record: ProductDto) => {
-    setEditingProduct(record);
-    setShowProductModal(true);
+  const handleViewChange = (next: ProductView) => {
+    setParams(
+      (current) => {
+        const updated = new URLSearchParams(current);
+        if (next === "catalogue") {
+          updated.set(VIEW_PARAM, next);
+        } else {
+          updated.delete(VIEW_PARAM);
+        }
+        return updated;
+      },
+      { replace: true },
+    );
   };
 
-  const handleDeleteProduct = (id: string) => {
-    deleteMutation.mutate(id);
-  };
-
-  const handlePaginationChange = (page: number, pageSize: number) => {
-    setSearchParams((prev) => ({
-      ...prev,
-      pageNumber: page,
-      pageSize,
-    }));
-  };
+  const cataloguePayload = useMemo(
+    () => ({
+      advanceSearches: crud.searchParams.advanceSearches,
+      advanceFilter: crud.searchParams.advanceFilter,
+      advanceSort: crud.searchParams.advanceSort,
+      pageSize: CATALOGUE_PAGE_SIZE,
+    }),
+    [
+      crud.searchParams.advanceSearches,
+      crud.searchParams.advanceFilter,
+      crud.searchParams.advanceSort,
+    ],
+  );
 
   return (
-    <div className="p-6 bg-gray-50 min-h-screen">
-      <Card className="mb-6! shadow-sm">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-          <Input
-            allowClear
-            value={searchKeyword}
-            placeholder="Search by zone code or bin"
-            onChange={(event) => {
-              const value = event.target.value;
-              const trimmed = value.trim();
-
-              setSearchParams((prev) => ({
-                ...prev,
-                pageNumber: 1,
-                advanceSearches: trimmed
-                  ? {
-                      fields: ["zoneCode", "bin"],
-                      keyword: value,
-                    }
-                  : undefined,
-              }));
-            }}
-            onPressEnter={applyFilters}
+    <EntityCrudPage
+      descriptor={productDescriptor}
+      crud={crud}
+      actions={
+        <>
+          <Button onClick={() => setIsImportOpen(true)}>Import</Button>
+          <Button onClick={() => setIsRepriceOpen(true)}>
+            Reprice Category
+          </Button>
+        </>
+      }
+      filters={
+        <div className="flex gap-2">
+          <AdvancedFilterButton
+            fields={filterFields}
+            value={crud.filter}
+            onChange={crud.setFilter}
+          />
+          <Segmented<ProductView>
+            value={view}
+            onChange={handleViewChange}
+            options={[
+              { label: "Paged", value: "table" },
+              { label: "Catalogue", value: "catalogue" },
+            ]}
           />
-
-          <div className="flex gap-2">
-            <Button type="primary" onClick={applyFilters}>
-              Apply Filters
-            </Button>
-            <Button onClick={resetFilters}>Reset</Button>
-          </div>
-        </div>
-      </Card>
-
-      {/* Products Section */}
-      <Card className="mb-6! shadow-sm">
-        <div className="flex justify-between items-center">
-          <div>
-            <Title level={3} className="mb-1!">
-              Products
-            </Title>
-            <p className="text-gray-600 text-sm">
-              Manage products and view warehouse stock information
-            </p>
-          </div>
-          <Space>
-            <Button type="primary" onClick={handleAddProduct}>
-              Create Product
-            </Button>
-            <Button
-              onClick={() => {
-                refetchProducts();
-              }}
-              loading={isLoadingProducts || loadingCategories}
-              size="medium"
-            >
-              Refresh
-            </Button>
-          </Space>
         </div>
-      </Card>
-
-      <ProductTable
-        data={data || []}
-        loading={isLoadingProducts || loadingCategories}
+      }
+      table={
+        view === "catalogue" ? (
+          <ProductCatalogue
+            payload={cataloguePayload}
+            categoryMap={categoryMap || []}
+            categoryMarkups={categoryMarkups}
+            onEdit={crud.openEdit}
+            onDelete={crud.remove}
+            deleting={crud.isDeleting}
+            sort={crud.sort}
+            onSortChange={crud.setSort}
+          />
+        ) : (
+          <ProductTable
+            data={crud.data}
+            loading={crud.isLoading || loadingCategories}
+            categoryMap={categoryMap || []}
+            categoryMarkups={categoryMarkups}
+            onEdit={crud.openEdit}
+            onDelete={crud.remove}
+            deleting={crud.isDeleting}
+            {...crud.pagination}
+            sort={crud.sort}
+            onSortChange={crud.setSort}
+          />
+        )
+      }
+      formModal={
+        <ProductFormModal
+          open={crud.isModalOpen}
+          onCancel={crud.closeModal}
+          onSubmit={crud.submit}
+          editingProduct={crud.editing}
+          loading={crud.isSubmitting}
+          categoryMap={categoryMap || []}
+        />
+      }
+    >
+      <RepriceCategoryModal
+        open={isRepriceOpen}
+        onClose={() => setIsRepriceOpen(false)}
         categoryMap={categoryMap || []}
-        onEdit={handleEditProduct}
-        onDelete={handleDeleteProduct}
-        deleting={deleteMutation.isPending}
-        currentPage={paginationCurrentPage}
-        pageSize={paginationPageSize}
-        total={paginationTotal}
-        onPaginationChange={handlePaginationChange}
       />
-
-      <ProductFormModal
-        open={showProductModal}
-        onCancel={() => {
-          setShowProductModal(false);
-          setEditingProduct(null);
-        }}
-        onSubmit={handleSubmitProduct}
-        editingProduct={editingProduct}
-        loading={createMutation.isPending || updateMutation.isPending}
+      <ProductImportWizard
+        open={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
         categoryMap={categoryMap || []}
       />
-    </div>
+    </EntityCrudPage>
   );
 }
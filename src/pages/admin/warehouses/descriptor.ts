@@ -0,0 +1,52 @@
+import {
+  createWarehouseLocation,
+  deleteWarehouseLocation,
+  getWarehouseLocation,
+  searchWarehouseLocations,
+  updateWarehouseLocation,
+} from "#src/apis/warehouses";
+import type { FilterFieldDefinition } from "#src/components/filters";
+import type { EntityDescriptor } from "#src/hooks/crud";
+import { warehousePatchFields } from "#src/hooks/warehouses";
+import type {
+  CreateWarehouseLocationRequest,
+  SearchWarehouseLocationRequest,
+  UpdateWarehouseLocationRequest,
+  WarehouseLocationDto,
+} from "#src/openapi";
+import { Permissions } from "#src/utils/permissions";
+import { queryKeys } from "#src/utils/queries";
+
+export const warehouseDescriptor: EntityDescriptor<
+  WarehouseLocationDto,
+  SearchWarehouseLocationRequest,
+  CreateWarehouseLocationRequest,
+  UpdateWarehouseLocationRequest
+> = {
+  name: "Warehouse Location",
+  pluralName: "Warehouse Locations",
+  description: "Manage warehouse locations and view part inventory",
+  keys: queryKeys.warehouses,
+  domain: "warehouses",
+  api: {
+    search: searchWarehouseLocations,
+    create: createWarehouseLocation,
+    update: updateWarehouseLocation,
+    remove: deleteWarehouseLocation,
+    // Same shape as `useWarehouseById`
+    get: async (id) => ({ data: (await getWarehouseLocation(id)).data }),
+  },
+  defaultSearch: { pageNumber: 1, pageSize: 10 },
+  searchableFields: ["zoneCode", "bin"],
+  searchPlaceholder: "Search by zone code or bin",
+  patchFields: warehousePatchFields,
+  deletePermission: Permissions.Warehouses.Delete,
+};
+
+export const warehouseFilterFields: FilterFieldDefinition[] = [
+  { name: "zoneCode", label: "Zone", type: "string" },
+  { name: "aisle", label: "Aisle", type: "number" },
+  { name: "shelf", label: "Shelf", type: "number" },
+  { name: "bin", label: "Bin", type: "string" },
+  { name: "isOverstocked", label: "Overstocked", type: "boolean" },
+];
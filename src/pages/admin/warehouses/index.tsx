@@ -1,233 +1,44 @@
-import { useMemo, useState } from "react";
-import { Button, Typography, Card, Input, Select } from "antd";
-import {
-  useCreateWarehouse,
-  useDeleteWarehouse,
-  useUpdateWarehouse,
-  useWarehousesQuery,
-} from "#src/hooks/warehouses";
-import { extractApiResponseMeta } from "#src/utils/queries";
-import type {
-  CreateWarehouseLocationRequest,
-  SearchWarehouseLocationRequest,
-  UpdateWarehouseLocationRequest,
-  WarehouseLocationDto,
-} from "#src/openapi";
 import { WarehouseFormModal, WarehouseTable } from "#src/components/warehouses";
-
-const { Title } = Typography;
+import { EntityCrudPage } from "#src/components/crud";
+import { AdvancedFilterButton } from "#src/components/filters";
+import { useEntityCrud } from "#src/hooks/crud";
+import { warehouseDescriptor, warehouseFilterFields } from "./descriptor";
 
 export default function WarehousesPage() {
-  // Warehouse state
-  const [searchParams, setSearchParams] =
-    useState<SearchWarehouseLocationRequest>({
-      pageNumber: 1,
-      pageSize: 10,
-    });
-
-  const [isWarehouseModalOpen, setIsWarehouseModalOpen] = useState(false);
-  const [editingWarehouse, setEditingWarehouse] =
-    useState<WarehouseLocationDto | null>(null);
-
-  const {
-    data: warehousesResult,
-    isLoading: isLoadingWarehouses,
-    refetch: refetchWarehouses,
-  } = useWarehousesQuery(searchParams);
-
-  const createMutation = useCreateWarehouse();
-  const updateMutation = useUpdateWarehouse();
-  const deleteMutation = useDeleteWarehouse();
-
-  const warehousesMeta = useMemo(
-    () =>
-      extractApiResponseMeta(
-        warehousesResult?.meta,
-        searchParams.pageNumber ?? 1,
-        searchParams.pageSize ?? 10,
-      ),
-    [warehousesResult?.meta, searchParams.pageNumber, searchParams.pageSize],
-  );
-
-  const warehousesData = warehousesResult?.data ?? [];
-  const paginationCurrentPage = warehousesMeta.currentPage;
-  const paginationPageSize = warehousesMeta.pageSize;
-  const paginationTotal = warehousesMeta.totalCount;
-
-  const searchKeyword = searchParams?.advanceSearches?.keyword ?? "";
-  const overstockFilter: "all" | "true" | "false" =
-    searchParams?.advanceFilter?.field === "isOverstocked"
-      ? searchParams?.advanceFilter.value === true
-        ? "true"
-        : "false"
-      : "all";
-
-  const applyFilters = () => {
-    setSearchParams((prev) => ({
-      ...prev,
-      pageNumber: 1,
-    }));
-  };
-
-  const resetFilters = () => {
-    setSearchParams((prev) => ({
-      ...prev,
-      pageNumber: 1,
-      advanceSearches: undefined,
-      advanceFilter: undefined,
-    }));
-  };
-
-  // Warehouse handlers
-  const handleAddWarehouse = () => {
-    setEditingWarehouse(null);
-    setIsWarehouseModalOpen(true);
-  };
-
-  const handleEditWarehouse = (record: WarehouseLocationDto) => {
-    setEditingWarehouse(record);
-    setIsWarehouseModalOpen(true);
-  };
-
-  const handleDeleteWarehouse = (id: string) => {
-    deleteMutation.mutate(id);
-  };
-
-  const handleSubmitWarehouse = async (
-    values: CreateWarehouseLocationRequest | UpdateWarehouseLocationRequest,
-  ) => {
-    if (editingWarehouse) {
-      updateMutation.mutate({
-        id: editingWarehouse.id!,
-        data: values as UpdateWarehouseLocationRequest,
-      });
-    } else {
-      createMutation.mutate(values as CreateWarehouseLocationRequest);
-    }
-    setIsWarehouseModalOpen(false);
-    setEditingWarehouse(null);
-  };
-
-  const handleCancelWarehouse = () => {
-    setIsWarehouseModalOpen(false);
-    setEditingWarehouse(null);
-  };
-
-  const handlePaginationChange = (page: number, pageSize: number) => {
-    setSearchParams((prev) => ({
-      ...prev,
-      pageNumber: page,
-      pageSize,
-    }));
-  };
+  const crud = useEntityCrud(warehouseDescriptor);
 
   return (
-    <div className="p-6 bg-gray-50 min-h-screen">
-      {/* Warehouse Section */}
-      <Card className="mb-6! shadow-sm">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-          <Input
-            allowClear
-            value={searchKeyword}
-            placeholder="Search by zone code or bin"
-            onChange={(event) => {
-              const value = event.target.value;
-              const trimmed = value.trim();
-
-              setSearchParams((prev) => ({
-                ...prev,
-                pageNumber: 1,
-                advanceSearches: trimmed
-                  ? {
-                      fields: ["zoneCode", "bin"],
-                      keyword: value,
-                    }
-                  : undefined,
-              }));
-            }}
-            onPressEnter={applyFilters}
-          />
-          <Select
-            value={overstockFilter}
-            onChange={(value: "all" | "true" | "false") => {
-              setSearchParams((prev) => ({
-                ...prev,
-                pageNumber: 1,
-                advanceFilter:
-                  value === "all"
-                    ? undefined
-                    : {
-                        field: "isOverstocked",
-                        operator: "eq",
-                        value: value === "true",
-                      },
-              }));
-            }}
-            options={[
-              { label: "All stock states", value: "all" },
-              { label: "Overstocked only", value: "true" },
-              { label: "Not overstocked", value: "false" },
-            ]}
-          />
-          <div className="flex gap-2">
-            <Button type="primary" onClick={applyFilters}>
-              Apply Filters
-            </Button>
-            <Button onClick={resetFilters}>Reset</Button>
-          </div>
-        </div>
-      </Card>
-
-      <Card className="mb-6! shadow-sm">
-        <div className="flex justify-between items-center">
-          <div>
-            <Title level={3} className="mb-1!">
-              Warehouse Locations
-            </Title>
-            <p className="text-gray-600 text-sm">
-              Manage warehouse locations and view part inventory
-            </p>
-          </div>
-          <div className="flex gap-2">
-            <Button
-              onClick={() => refetchWarehouses()}
-              loading={isLoadingWarehouses}
-              size="medium"
-            >
-              Refresh
-            </Button>
-            <Button
-              type="primary"
-              onClick={handleAddWarehouse}
-              className="bg-blue-600 hover:bg-blue-700"
-              size="medium"
-            >
-              + Add Warehouse
-            </Button>
-          </div>
-        </div>
-      </Card>
-
-      <WarehouseTable
-        data={warehousesData}
-        loading={isLoadingWarehouses}
-        onEdit={handleEditWarehouse}
-        onDelete={handleDeleteWarehouse}
-        deleting={deleteMutation.isPending}
-        currentPage={paginationCurrentPage}
-        pageSize={paginationPageSize}
-        total={paginationTotal}
-        onPaginationChange={handlePaginationChange}
-      />
-
-      {/* Modals */}
-      <WarehouseFormModal
-        open={isWarehouseModalOpen}
-        onCancel={handleCancelWarehouse}
-        onSubmit={handleSubmitWarehouse}
-        editingWarehouse={editingWarehouse}
-        loading={createMutation.isPending || updateMutation.isPending}
-      />
-    </div>
+    <EntityCrudPage
+      descriptor={warehouseDescriptor}
+      crud={crud}
+      filters={
+        <AdvancedFilterButton
+          fields={warehouseFilterFields}
+          value={crud.filter}
+          onChange={crud.setFilter}
+        />
+      }
+      table={
+        <WarehouseTable
+          data={crud.data}
+          loading={crud.isLoading}
+          onEdit={crud.openEdit}
+          onDelete={crud.remove}
+          deleting={crud.isDeleting}
+          {...crud.pagination}
+          sort={crud.sort}
+          onSortChange={crud.setSort}
+        />
+      }
+      formModal={
+        <WarehouseFormModal
+          open={crud.isModalOpen}
+          onCancel={crud.closeModal}
+          onSubmit={crud.submit}
+          editingWarehouse={crud.editing}
+          loading={crud.isSubmitting}
+        />
+      }
+    />
   );
 }
@@ -1,5 +1,5 @@
-import { useNavigate, Link } from "react-router";
-import { useLoginManual } from "#src/hooks/auth";
+import { useNavigate, useSearchParams, Link } from "react-router";
+import { resolveReturnTo, useLoginManual } from "#src/hooks/auth";
 import { Col, Row, Form, Input, Button } from "antd";
 
 interface LoginFormValues {
@@ -9,6 +9,7 @@ interface LoginFormValues {
 
 export default function LoginPage() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { performLogin, isLoading, error } = useLoginManual();
   const [form] = Form.useForm();
 
@@ -19,7 +20,7 @@ export default function LoginPage() {
       password: values.password,
     })
       .then(() => {
-        navigate("/dashboard");
+        navigate(resolveReturnTo(searchParams), { replace: true });
       })
       .catch(() => {
         // Error is already handled in isLoading and error state
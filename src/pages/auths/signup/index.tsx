@@ -1,39 +1,155 @@
+import { useState } from "react";
 import { useNavigate, Link } from "react-router";
-import { useSignup } from "#src/hooks/auth";
+import { useLogin, useSignup } from "#src/hooks/auth";
 import type { SignupInfo } from "#src/hooks/auth";
-import { Col, Row, Form, Input, Button, Checkbox } from "antd";
+import { applyFieldErrors, getFieldErrorMessages } from "#src/utils/api";
+import { genderOptions } from "#src/utils/enums";
+import { useMessage } from "#src/utils/message";
+import {
+  MIN_PASSWORD_LENGTH,
+  PasswordStrengthMeter,
+} from "#src/components/auth";
+import {
+  Col,
+  Row,
+  Form,
+  Input,
+  Button,
+  Checkbox,
+  Select,
+  Steps,
+} from "antd";
 
 interface SignupFormValues {
   username: string;
   email: string;
   password: string;
   confirmPassword: string;
+  firstName: string;
+  lastName: string;
+  gender?: string;
+  dateOfBirth?: string;
+  phoneNumber?: string;
   agreeToTerms: boolean;
 }
 
+type SignupField = keyof SignupFormValues;
+
+const STEPS: { title: string; fields: SignupField[] }[] = [
+  { title: "Account", fields: ["username", "email"] },
+  { title: "Security", fields: ["password", "confirmPassword"] },
+  {
+    title: "Profile",
+    fields: [
+      "firstName",
+      "lastName",
+      "gender",
+      "dateOfBirth",
+      "phoneNumber",
+      "agreeToTerms",
+    ],
+  },
+];
+
+const NAME_PATTERN = /^[\p{L}][\p{L}\s'.-]*$/u;
+
+const findStep = (field: SignupField) =>
+  STEPS.findIndex((step) => step.fields.includes(field));
+
 export default function SignUpPage() {
   const navigate = useNavigate();
+  const message = useMessage();
+  const [form] = Form.useForm<SignupFormValues>();
+  const [currentStep, setCurrentStep] = useState(0);
+  // Field errors the form could not highlight go to the banner instead
+  const [isHighlighted, setIsHighlighted] = useState(false);
+  const password = Form.useWatch("password", form);
+
+  const { mutate: login, isPending: isLoggingIn } = useLogin({
+    onSuccess: () => {
+      message.success("Welcome to AutoPart!");
+      navigate("/dashboard", { replace: true });
+    },
+    onError: () => {
+      message.info("Account created. Please log in to continue.");
+      navigate("/login", { replace: true });
+    },
+  });
+
   const {
     mutate: signup,
-    isPending,
+    isPending: isSigningUp,
     error,
   } = useSignup({
-    onSuccess: () => {
-      navigate("/login");
+    onSuccess: (_, variables) => {
+      login({
+        loginCredentials: variables?.email ?? "",
+        password: variables?.password ?? "",
+      });
+    },
+    onError: (signupError) => {
+      const highlighted = applyFieldErrors(form, signupError);
+      setIsHighlighted(highlighted);
+      if (highlighted) {
+        const [first] = form
+          .getFieldsError()
+          .filter((field) => field.errors.length > 0);
+        setCurrentStep(findStep(first.name[0] as SignupField));
+      }
     },
   });
-  const [form] = Form.useForm();
 
-  const apiError = error?.message;
+  const isPending = isSigningUp || isLoggingIn;
+  const apiError =
+    error && !isHighlighted
+      ? getFieldErrorMessages(error).join(" ") || error.message
+      : undefined;
+  const isLastStep = currentStep === STEPS.length - 1;
+
+  const handleNext = async () => {
+    try {
+      await form.validateFields(STEPS[currentStep].fields);
+      setCurrentStep((step) => step + 1);
+    } catch {
+      // Field errors are shown inline
+    }
+  };
 
   const onFinish = (values: SignupFormValues) => {
-    signup({
-      username: values.username,
-      email: values.email,
+    const payload: SignupInfo = {
+      username: values.username.trim(),
+      email: values.email.trim(),
       password: values.password,
-    } as SignupInfo);
+      confirmPassword: values.confirmPassword,
+      firstName: values.firstName.trim(),
+      lastName: values.lastName.trim(),
+      gender: values.gender || null,
+      phoneNumber: values.phoneNumber?.trim() || null,
+      dateOfBirth: values.dateOfBirth
+        ? new Date(values.dateOfBirth).toISOString()
+        : undefined,
+    };
+    signup(payload);
+  };
+
+  const onFinishFailed = ({
+    errorFields,
+  }: {
+    errorFields: { name: (string | number)[] }[];
+  }) => {
+    const first = errorFields[0]?.name[0];
+    if (typeof first === "string") {
+      setCurrentStep(findStep(first as SignupField));
+    }
   };
 
+  const label = (text: string) => (
+    <label className="text-sm font-medium text-gray-600">{text}</label>
+  );
+
+  // All steps stay mounted so the final submit validates every field.
+  const stepClass = (index: number) => (index === currentStep ? "" : "hidden");
+
   return (
     <Row className="h-full" justify="center" gutter={[0, 0]}>
       <Col lg={0} xl={16}>
@@ -55,148 +171,305 @@ export default function SignUpPage() {
         style={{ padding: 40 }}
         className="flex justify-center content-center"
       >
-        <div>
+        <div className="w-full max-w-md">
           <h2 className="text-3xl font-semibold text-center mb-5">Sign Up</h2>
 
-          <Form form={form} onFinish={onFinish} layout="vertical">
-            <Form.Item
-              label={
-                <label className="text-sm font-medium text-gray-600">
-                  Username
-                </label>
-              }
-              name="username"
-              rules={[
-                { required: true, message: "Username is required" },
-                {
-                  min: 3,
-                  message: "Username must be at least 3 characters",
-                },
-              ]}
-            >
-              <Input
-                type="text"
-                placeholder="Choose a username"
-                disabled={isPending}
-                size="large"
-              />
-            </Form.Item>
-
-            <Form.Item
-              label={
-                <label className="text-sm font-medium text-gray-600">
-                  Email
-                </label>
-              }
-              name="email"
-              rules={[
-                { required: true, message: "Email is required" },
-                {
-                  type: "email",
-                  message: "Please enter a valid email",
-                },
-              ]}
-            >
-              <Input
-                type="email"
-                placeholder="Enter your email"
-                disabled={isPending}
-                size="large"
-              />
-            </Form.Item>
-
-            <Form.Item
-              label={
-                <label className="text-sm font-medium text-gray-600">
-                  Password
-                </label>
-              }
-              name="password"
-              rules={[
-                { required: true, message: "Password is required" },
-                {
-                  min: 6,
-                  message: "Password must be at least 6 characters",
-                },
-              ]}
-            >
-              <Input
-                type="password"
-                placeholder="Create a password"
-                disabled={isPending}
-                size="large"
-              />
-            </Form.Item>
-
-            <Form.Item
-              label={
-                <label className="text-sm font-medium text-gray-600">
-                  Confirm Password
-                </label>
-              }
-              name="confirmPassword"
-              dependencies={["password"]}
-              rules={[
-                { required: true, message: "Please confirm your password" },
-                ({ getFieldValue }) => ({
-                  validator(_, value) {
-                    if (!value || getFieldValue("password") === value) {
-                      return Promise.resolve();
-                    }
-                    return Promise.reject(new Error("Passwords do not match"));
+          <Steps
+            current={currentStep}
+            size="small"
+            className="mb-6!"
+            items={STEPS.map((step) => ({ title: step.title }))}
+          />
+
+          <Form
+            form={form}
+            onFinish={onFinish}
+            onFinishFailed={onFinishFailed}
+            layout="vertical"
+          >
+            <div className={stepClass(0)}>
+              <Form.Item
+                label={label("Username")}
+                name="username"
+                rules={[
+                  {
+                    required: true,
+                    whitespace: true,
+                    message: "Username is required",
+                  },
+                  {
+                    min: 3,
+                    message: "Username must be at least 3 characters",
+                  },
+                  {
+                    pattern: /^[A-Za-z0-9._-]+$/,
+                    message:
+                      "Username can only contain letters, numbers, '.', '_' and '-'",
                   },
-                }),
-              ]}
-            >
-              <Input
-                type="password"
-                placeholder="Confirm your password"
-                disabled={isPending}
-                size="large"
-              />
-            </Form.Item>
-
-            <Form.Item
-              name="agreeToTerms"
-              valuePropName="checked"
-              rules={[
-                {
-                  validator: (_, value) =>
-                    value
-                      ? Promise.resolve()
-                      : Promise.reject(
-                          new Error(
-                            "You must agree to the terms and conditions",
+                ]}
+              >
+                <Input
+                  type="text"
+                  placeholder="Choose a username"
+                  disabled={isPending}
+                  size="large"
+                  autoComplete="username"
+                />
+              </Form.Item>
+
+              <Form.Item
+                label={label("Email")}
+                name="email"
+                rules={[
+                  { required: true, message: "Email is required" },
+                  {
+                    type: "email",
+                    message: "Please enter a valid email",
+                  },
+                ]}
+              >
+                <Input
+                  type="email"
+                  placeholder="Enter your email"
+                  disabled={isPending}
+                  size="large"
+                  autoComplete="email"
+                />
+              </Form.Item>
+            </div>
+
+            <div className={stepClass(1)}>
+              <Form.Item
+                label={label("Password")}
+                name="password"
+                rules={[
+                  { required: true, message: "Password is required" },
+                  {
+                    min: MIN_PASSWORD_LENGTH,
+                    message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+                  },
+                ]}
+              >
+                <Input.Password
+                  placeholder="Create a password"
+                  disabled={isPending}
+                  size="large"
+                  autoComplete="new-password"
+                />
+              </Form.Item>
+
+              <PasswordStrengthMeter password={password} />
+
+              <Form.Item
+                label={label("Confirm Password")}
+                name="confirmPassword"
+                dependencies={["password"]}
+                rules={[
+                  { required: true, message: "Please confirm your password" },
+                  ({ getFieldValue }) => ({
+                    validator(_, value) {
+                      if (!value || getFieldValue("password") === value) {
+                        return Promise.resolve();
+                      }
+                      return Promise.reject(
+                        new Error("Passwords do not match"),
+                      );
+                    },
+                  }),
+                ]}
+              >
+                <Input.Password
+                  placeholder="Confirm your password"
+                  disabled={isPending}
+                  size="large"
+                  autoComplete="new-password"
+                />
+              </Form.Item>
+            </div>
+
+            <div className={stepClass(2)}>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+                <Form.Item
+                  label={label("First Name")}
+                  name="firstName"
+                  rules={[
+                    {
+                      required: true,
+                      whitespace: true,
+                      message: "First name is required",
+                    },
+                    {
+                      max: 50,
+                      message: "First name must not exceed 50 characters",
+                    },
+                    {
+                      pattern: NAME_PATTERN,
+                      message: "First name can only contain letters",
+                    },
+                  ]}
+                >
+                  <Input
+                    disabled={isPending}
+                    size="large"
+                    autoComplete="given-name"
+                  />
+                </Form.Item>
+
+                <Form.Item
+                  label={label("Last Name")}
+                  name="lastName"
+                  rules={[
+                    {
+                      required: true,
+                      whitespace: true,
+                      message: "Last name is required",
+                    },
+                    {
+                      max: 50,
+                      message: "Last name must not exceed 50 characters",
+                    },
+                    {
+                      pattern: NAME_PATTERN,
+                      message: "Last name can only contain letters",
+                    },
+                  ]}
+                >
+                  <Input
+                    disabled={isPending}
+                    size="large"
+                    autoComplete="family-name"
+                  />
+                </Form.Item>
+
+                <Form.Item label={label("Gender")} name="gender">
+                  <Select
+                    size="large"
+                    placeholder="Select gender"
+                    options={genderOptions}
+                    disabled={isPending}
+                    allowClear
+                  />
+                </Form.Item>
+
+                <Form.Item
+                  label={label("Date of Birth")}
+                  name="dateOfBirth"
+                  rules={[
+                    {
+                      validator: (_, value?: string) => {
+                        if (!value) {
+                          return Promise.resolve();
+                        }
+
+                        const date = new Date(value);
+                        if (Number.isNaN(date.getTime())) {
+                          return Promise.reject(
+                            new Error("Please enter a valid date"),
+                          );
+                        }
+                        if (date > new Date()) {
+                          return Promise.reject(
+                            new Error("Date of birth cannot be in the future"),
+                          );
+                        }
+                        if (date.getFullYear() < 1900) {
+                          return Promise.reject(
+                            new Error("Date of birth must be after 1900"),
+                          );
+                        }
+                        return Promise.resolve();
+                      },
+                    },
+                  ]}
+                >
+                  <Input type="date" disabled={isPending} size="large" />
+                </Form.Item>
+              </div>
+
+              <Form.Item
+                label={label("Phone Number")}
+                name="phoneNumber"
+                rules={[
+                  {
+                    pattern: /^\+?[0-9\s()-]{8,20}$/,
+                    message: "Please enter a valid phone number",
+                  },
+                ]}
+              >
+                <Input
+                  placeholder="e.g., 0901 234 567"
+                  disabled={isPending}
+                  size="large"
+                  autoComplete="tel"
+                />
+              </Form.Item>
+
+              <Form.Item
+                name="agreeToTerms"
+                valuePropName="checked"
+                rules={[
+                  {
+                    validator: (_, value) =>
+                      value
+                        ? Promise.resolve()
+                        : Promise.reject(
+                            new Error(
+                              "You must agree to the terms and conditions",
+                            ),
                           ),
-                        ),
-                },
-              ]}
-            >
-              <Checkbox disabled={isPending}>
-                <span className="text-xs text-gray-600">
-                  I agree to the{" "}
-                  <a href="#" className="text-blue-600 hover:underline">
-                    terms and conditions
-                  </a>
-                </span>
-              </Checkbox>
-            </Form.Item>
+                  },
+                ]}
+              >
+                <Checkbox disabled={isPending}>
+                  <span className="text-xs text-gray-600">
+                    I agree to the{" "}
+                    <a href="#" className="text-blue-600 hover:underline">
+                      terms and conditions
+                    </a>
+                  </span>
+                </Checkbox>
+              </Form.Item>
+            </div>
 
             {apiError && (
-              <div className="p-3 bg-red-50 border border-red-500 rounded-md text-red-500 text-sm text-center">
+              <div className="mb-4 p-3 bg-red-50 border border-red-500 rounded-md text-red-500 text-sm text-center">
                 {apiError}
               </div>
             )}
 
-            <Button
-              type="primary"
-              htmlType="submit"
-              loading={isPending}
-              className="py-3 px-4 font-semibold uppercase text-sm tracking-wide"
-              block
-            >
-              SIGN UP
-            </Button>
+            <div className="flex gap-2">
+              {currentStep > 0 && (
+                <Button
+                  onClick={() => setCurrentStep((step) => step - 1)}
+                  disabled={isPending}
+                  size="large"
+                >
+                  Back
+                </Button>
+              )}
+              {isLastStep ? (
+                <Button
+                  type="primary"
+                  htmlType="submit"
+                  loading={isPending}
+                  size="large"
+                  className="font-semibold uppercase text-sm tracking-wide"
+                  block
+                >
+                  {isLoggingIn ? "SIGNING IN" : "SIGN UP"}
+                </Button>
+              ) : (
+                <Button
+                  type="primary"
+                  onClick={handleNext}
+                  size="large"
+                  className="font-semibold uppercase text-sm tracking-wide"
+                  block
+                >
+                  NEXT
+                </Button>
+              )}
+            </div>
           </Form>
 
           <div className="flex justify-center mt-6 pt-5 border-t border-gray-200">
@@ -0,0 +1,89 @@
+import { Button, Card, Descriptions, Spin, Typography } from "antd";
+import { useMeQuery, useUpdateUser } from "#src/hooks/users";
+import { useDepartmentById } from "#src/hooks/departments";
+import { useJobPositionById } from "#src/hooks/jobpositios";
+import type { JobPosition } from "#src/apis/jobpositios";
+import type { UpdateUserRequest } from "#src/openapi";
+import {
+  ProfileForm,
+  UserAvatar,
+  UserStatusTag,
+} from "#src/components/users";
+
+const { Title, Text } = Typography;
+
+export default function ProfilePage() {
+  const { data: me, isLoading, refetch } = useMeQuery();
+  const { data: department } = useDepartmentById(me?.departmentId);
+  const { data: jobPositionData } = useJobPositionById(me?.jobPositionId);
+  const jobPosition: JobPosition | undefined = jobPositionData;
+
+  const updateMutation = useUpdateUser();
+
+  const handleSubmit = async (values: UpdateUserRequest) => {
+    await updateMutation.mutateAsync(values);
+  };
+
+  const fullName =
+    [me?.firstName, me?.lastName].filter(Boolean).join(" ") ||
+    me?.userName ||
+    "-";
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <Card className="mb-6! shadow-sm">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-4">
+            <UserAvatar user={me} size={56} />
+            <div>
+              <Title level={3} className="mb-1!">
+                {fullName}
+              </Title>
+              <p className="text-gray-600 text-sm">
+                View and update your account details
+              </p>
+            </div>
+          </div>
+          <Button onClick={() => refetch()} loading={isLoading} size="middle">
+            Refresh
+          </Button>
+        </div>
+      </Card>
+
+      <Spin spinning={isLoading}>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card title="Account" className="shadow-sm">
+            <Descriptions column={1} size="small">
+              <Descriptions.Item label="Username">
+                <Text className="font-mono">{me?.userName || "-"}</Text>
+              </Descriptions.Item>
+              <Descriptions.Item label="Email">
+                {me?.email || "-"}
+              </Descriptions.Item>
+              <Descriptions.Item label="Department">
+                {department?.name || "-"}
+              </Descriptions.Item>
+              <Descriptions.Item label="Job Position">
+                {jobPosition?.title || jobPosition?.name || "-"}
+              </Descriptions.Item>
+              <Descriptions.Item label="Status">
+                <UserStatusTag isActive={me?.isActive} />
+              </Descriptions.Item>
+            </Descriptions>
+          </Card>
+
+          <Card title="Personal Details" className="shadow-sm lg:col-span-2">
+            {me && (
+              <ProfileForm
+                key={me.id}
+                user={me}
+                loading={updateMutation.isPending}
+                onSubmit={handleSubmit}
+              />
+            )}
+          </Card>
+        </div>
+      </Spin>
+    </div>
+  );
+}
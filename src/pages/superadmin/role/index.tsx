@@ -1,5 +1,238 @@
-const RoleManagenent = () => {
-  return <div>RoleManagenent</div>;
-};
+import { useMemo, useState } from "react";
+import { Button, Card, Input, Space, Typography } from "antd";
+import {
+  useAllPermissions,
+  useCreateRole,
+  useDeleteRole,
+  useRolesQuery,
+  useSyncRolePermissions,
+  useUpdateRole,
+} from "#src/hooks/auth";
+import { useUrlSearchState } from "#src/hooks/search";
+import type {
+  CreateRoleRequest,
+  RoleDto,
+  SearchRolesRequest,
+  UpdateRoleRequest,
+} from "#src/openapi";
+import { extractApiResponseMeta } from "#src/utils/queries";
+import {
+  RoleFormModal,
+  RolePermissionModal,
+  RoleTable,
+} from "#src/components/roles";
 
-export default RoleManagenent;
+const { Title } = Typography;
+
+export default function RoleManagementPage() {
+  const [searchParams, setSearchParams] =
+    useUrlSearchState<SearchRolesRequest>({
+      pageNumber: 1,
+      pageSize: 10,
+    });
+
+  const [isRoleModalOpen, setIsRoleModalOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<RoleDto | null>(null);
+  const [permissionRole, setPermissionRole] = useState<RoleDto | null>(null);
+
+  const {
+    data: rolesResult,
+    isLoading: isLoadingRoles,
+    refetch: refetchRoles,
+  } = useRolesQuery(searchParams);
+  const { data: permissions, isLoading: isLoadingPermissions } =
+    useAllPermissions();
+
+  const createMutation = useCreateRole();
+  const updateMutation = useUpdateRole();
+  const deleteMutation = useDeleteRole();
+  const syncPermissionsMutation = useSyncRolePermissions();
+
+  const rolesMeta = useMemo(
+    () =>
+      extractApiResponseMeta(
+        rolesResult?.meta,
+        searchParams.pageNumber ?? 1,
+        searchParams.pageSize ?? 10,
+      ),
+    [rolesResult?.meta, searchParams.pageNumber, searchParams.pageSize],
+  );
+
+  const rolesData = rolesResult?.data ?? [];
+  const searchKeyword = searchParams?.advanceSearches?.keyword ?? "";
+
+  const applyFilters = () => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: 1,
+    }));
+  };
+
+  const resetFilters = () => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: 1,
+      advanceSearches: undefined,
+      advanceFilter: undefined,
+    }));
+  };
+
+  const handleAddRole = () => {
+    setEditingRole(null);
+    setIsRoleModalOpen(true);
+  };
+
+  const handleEditRole = (record: RoleDto) => {
+    setEditingRole(record);
+    setIsRoleModalOpen(true);
+  };
+
+  const handleDeleteRole = (id: string) => {
+    const role = rolesData.find((item) => item.id === id);
+
+    // System roles are protected in the table, guard here as well.
+    if (role?.isSystemRole) {
+      return;
+    }
+
+    deleteMutation.mutate(id);
+  };
+
+  const handleSubmitRole = async (
+    values: CreateRoleRequest | UpdateRoleRequest,
+  ) => {
+    if (editingRole?.id) {
+      await updateMutation.mutateAsync({
+        id: editingRole.id,
+        data: values as UpdateRoleRequest,
+      });
+    } else {
+      await createMutation.mutateAsync(values as CreateRoleRequest);
+    }
+
+    setIsRoleModalOpen(false);
+    setEditingRole(null);
+  };
+
+  const handleCancelRole = () => {
+    setIsRoleModalOpen(false);
+    setEditingRole(null);
+  };
+
+  const handleSubmitPermissions = async (payload: {
+    current: string[];
+    next: string[];
+  }) => {
+    if (!permissionRole?.id) {
+      return;
+    }
+
+    await syncPermissionsMutation.mutateAsync({
+      id: permissionRole.id,
+      ...payload,
+    });
+    setPermissionRole(null);
+  };
+
+  const handlePaginationChange = (page: number, pageSize: number) => {
+    setSearchParams((prev) => ({
+      ...prev,
+      pageNumber: page,
+      pageSize,
+    }));
+  };
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <Card className="mb-6! shadow-sm">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Input
+            allowClear
+            value={searchKeyword}
+            placeholder="Search by role name or description"
+            onChange={(event) => {
+              const value = event.target.value;
+              const trimmed = value.trim();
+
+              setSearchParams((prev) => ({
+                ...prev,
+                pageNumber: 1,
+                advanceSearches: trimmed
+                  ? {
+                      fields: ["name", "description"],
+                      keyword: value,
+                    }
+                  : undefined,
+              }));
+            }}
+            onPressEnter={applyFilters}
+          />
+
+          <div className="flex gap-2">
+            <Button type="primary" onClick={applyFilters}>
+              Apply Filters
+            </Button>
+            <Button onClick={resetFilters}>Reset</Button>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="mb-6! shadow-sm">
+        <div className="flex justify-between items-center">
+          <div>
+            <Title level={3} className="mb-1!">
+              Roles
+            </Title>
+            <p className="text-gray-600 text-sm">
+              Manage roles, access levels and the permissions they grant
+            </p>
+          </div>
+          <Space>
+            <Button
+              onClick={() => refetchRoles()}
+              loading={isLoadingRoles}
+              size="middle"
+            >
+              Refresh
+            </Button>
+            <Button type="primary" onClick={handleAddRole} size="middle">
+              Create Role
+            </Button>
+          </Space>
+        </div>
+      </Card>
+
+      <RoleTable
+        data={rolesData}
+        loading={isLoadingRoles}
+        onEdit={handleEditRole}
+        onEditPermissions={setPermissionRole}
+        onDelete={handleDeleteRole}
+        deleting={deleteMutation.isPending}
+        currentPage={rolesMeta.currentPage}
+        pageSize={rolesMeta.pageSize}
+        total={rolesMeta.totalCount}
+        onPaginationChange={handlePaginationChange}
+      />
+
+      <RoleFormModal
+        open={isRoleModalOpen}
+        onCancel={handleCancelRole}
+        onSubmit={handleSubmitRole}
+        editingRole={editingRole}
+        loading={createMutation.isPending || updateMutation.isPending}
+        permissions={permissions ?? []}
+      />
+
+      <RolePermissionModal
+        key={permissionRole?.id ?? "none"}
+        open={!!permissionRole}
+        role={permissionRole}
+        permissions={permissions ?? []}
+        loading={syncPermissionsMutation.isPending || isLoadingPermissions}
+        onCancel={() => setPermissionRole(null)}
+        onSubmit={handleSubmitPermissions}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,192 @@
+import { useMemo, useState } from "react";
+import { Button, Card, Input, Space, Typography } from "antd";
+import {
+  useCreateUserByAdmin,
+  useMeQuery,
+  useUpdateUserByManager,
+} from "#src/hooks/users";
+import { useDepartmentsQuery } from "#src/hooks/departments";
+import { useJobPositionsQuery } from "#src/hooks/jobpositios";
+import { useUrlSearchState } from "#src/hooks/search";
+import type { SearchRequestState } from "#src/hooks/search";
+import type {
+  CreateUserByAdminRequest,
+  UpdateUserByManagerRequest,
+  UserDetailDto,
+} from "#src/openapi";
+import { UserFormModal, UserTable } from "#src/components/users";
+
+const { Title } = Typography;
+
+type ModalState = { mode: "create" | "edit"; user: UserDetailDto | null };
+
+const toUserDetail = (
+  id: string,
+  values: CreateUserByAdminRequest | UpdateUserByManagerRequest,
+): UserDetailDto => ({
+  id,
+  firstName: values.firstName,
+  lastName: values.lastName,
+  userName: values.userName,
+  email: values.email,
+  phoneNumber: values.phoneNumber,
+  gender: values.gender,
+  dateOfBirth: values.dateOfBirth,
+  departmentId:
+    values.departmentId != null ? String(values.departmentId) : null,
+  jobPositionId:
+    values.jobPositionId != null ? String(values.jobPositionId) : null,
+});
+
 const UserManagementPage = () => {
-  return <div>UserManagementPage</div>;
+  // Filtering is client-side, but the keyword still lives in the URL so
+  // the filtered view can be shared like the other list pages
+  const [searchState, setSearchState] = useUrlSearchState<SearchRequestState>(
+    {},
+  );
+  const keyword = searchState.advanceSearches?.keyword ?? "";
+  const setKeyword = (value: string) =>
+    setSearchState((prev) => ({
+      ...prev,
+      advanceSearches: value ? { keyword: value, fields: [] } : undefined,
+    }));
+  const [modalState, setModalState] = useState<ModalState | null>(null);
+
+  // The API has no user listing endpoint, so the table shows the signed-in
+  // user plus everyone created or updated from this screen.
+  const [sessionUsers, setSessionUsers] = useState<UserDetailDto[]>([]);
+
+  const { data: me, isLoading: isLoadingMe, refetch: refetchMe } = useMeQuery();
+  const { data: departmentsResult } = useDepartmentsQuery({
+    pageNumber: 1,
+    pageSize: 100,
+  });
+  const { data: jobPositionsResult } = useJobPositionsQuery({
+    pageNumber: 1,
+    pageSize: 100,
+  });
+
+  const createMutation = useCreateUserByAdmin();
+  const updateMutation = useUpdateUserByManager();
+
+  const departments = departmentsResult?.data ?? [];
+  const jobPositions = jobPositionsResult?.data ?? [];
+
+  const users = useMemo(() => {
+    const merged = me?.id
+      ? [me, ...sessionUsers.filter((user) => user.id !== me.id)]
+      : sessionUsers;
+    const trimmed = keyword.trim().toLowerCase();
+
+    if (!trimmed) return merged;
+
+    return merged.filter((user) =>
+      [user.firstName, user.lastName, user.userName, user.email]
+        .filter(Boolean)
+        .some((value) => value!.toLowerCase().includes(trimmed)),
+    );
+  }, [me, sessionUsers, keyword]);
+
+  const upsertSessionUser = (user: UserDetailDto) => {
+    setSessionUsers((prev) => [
+      user,
+      ...prev.filter((item) => item.id !== user.id),
+    ]);
+  };
+
+  const handleSubmitUser = async (
+    values: CreateUserByAdminRequest | UpdateUserByManagerRequest,
+  ) => {
+    if (modalState?.mode === "edit") {
+      const payload = values as UpdateUserByManagerRequest;
+      await updateMutation.mutateAsync(payload);
+
+      const existing = sessionUsers.find((user) => user.id === payload.id);
+      upsertSessionUser({
+        ...existing,
+        ...toUserDetail(payload.id!, payload),
+      });
+      if (payload.id === me?.id) {
+        refetchMe();
+      }
+    } else {
+      const id = await createMutation.mutateAsync(
+        values as CreateUserByAdminRequest,
+      );
+      upsertSessionUser(toUserDetail(id ?? "", values));
+    }
+
+    setModalState(null);
+  };
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <Card className="mb-6! shadow-sm">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Input
+            allowClear
+            value={keyword}
+            placeholder="Search by name, username or email"
+            onChange={(event) => setKeyword(event.target.value)}
+          />
+        </div>
+      </Card>
+
+      <Card className="mb-6! shadow-sm">
+        <div className="flex justify-between items-center">
+          <div>
+            <Title level={3} className="mb-1!">
+              Users
+            </Title>
+            <p className="text-gray-600 text-sm">
+              Onboard staff accounts and update their details
+            </p>
+          </div>
+          <Space>
+            <Button
+              onClick={() => refetchMe()}
+              loading={isLoadingMe}
+              size="middle"
+            >
+              Refresh
+            </Button>
+            <Button
+              onClick={() => setModalState({ mode: "edit", user: null })}
+              size="middle"
+            >
+              Edit by ID
+            </Button>
+            <Button
+              type="primary"
+              onClick={() => setModalState({ mode: "create", user: null })}
+              size="middle"
+            >
+              Create User
+            </Button>
+          </Space>
+        </div>
+      </Card>
+
+      <UserTable
+        data={users}
+        loading={isLoadingMe}
+        departments={departments}
+        jobPositions={jobPositions}
+        onEdit={(user) => setModalState({ mode: "edit", user })}
+      />
+
+      <UserFormModal
+        open={!!modalState}
+        mode={modalState?.mode ?? "create"}
+        onCancel={() => setModalState(null)}
+        onSubmit={handleSubmitUser}
+        editingUser={modalState?.user ?? null}
+        loading={createMutation.isPending || updateMutation.isPending}
+        departments={departments}
+        jobPositions={jobPositions}
+      />
+    </div>
+  );
 };
 
 export default UserManagementPage;
@@ -1,13 +1,22 @@
 import { lazy } from "react";
 import type { RouteObject } from "react-router";
 import ProtectedDashboardLayout from "#src/components/layouts/ProtectedDashboardLayout";
-import RoleManagenent from "#src/pages/superadmin/role";
+import RoleManagementPage from "#src/pages/superadmin/role";
 import UserManagementPage from "#src/pages/superadmin/user";
+import { Permissions } from "#src/utils/permissions";
 
 const HomePage = lazy(() => import("#src/pages/HomePage"));
 const WarehousesPage = lazy(() => import("#src/pages/admin/warehouses"));
 const ProductPage = lazy(() => import("#src/pages/admin/products"));
+const ProductDetailPage = lazy(
+  () => import("#src/pages/admin/products/detail"),
+);
 const CategoriesPage = lazy(() => import("#src/pages/admin/categories"));
+const InvoicesPage = lazy(() => import("#src/pages/admin/invoices"));
+const CustomersPage = lazy(() => import("#src/pages/admin/customers"));
+const DepartmentsPage = lazy(() => import("#src/pages/admin/departments"));
+const JobPositionsPage = lazy(() => import("#src/pages/admin/jobpositions"));
+const ProfilePage = lazy(() => import("#src/pages/profile"));
 
 export const dashboardRoutes: RouteObject[] = [
   {
@@ -19,30 +28,90 @@ export const dashboardRoutes: RouteObject[] = [
         Component: HomePage,
         handle: { label: "Home" },
       },
+      {
+        path: "/dashboard/profile",
+        Component: ProfilePage,
+        handle: { label: "Profile" },
+      },
       {
         path: "/dashboard/warehouse",
         Component: WarehousesPage,
-        handle: { label: "Warehouse" },
+        handle: {
+          label: "Warehouse",
+          permissions: [Permissions.Warehouses.View],
+        },
       },
       {
         path: "/dashboard/products",
         Component: ProductPage,
-        handle: { label: "Product" },
+        handle: {
+          label: "Product",
+          permissions: [Permissions.Products.View],
+        },
+      },
+      {
+        path: "/dashboard/products/:id",
+        Component: ProductDetailPage,
+        handle: {
+          label: "Product Details",
+          permissions: [Permissions.Products.View],
+        },
       },
       {
         path: "/dashboard/categories",
         Component: CategoriesPage,
-        handle: { label: "Categories" },
+        handle: {
+          label: "Categories",
+          permissions: [Permissions.Categories.View],
+        },
+      },
+      {
+        path: "/dashboard/invoices",
+        Component: InvoicesPage,
+        handle: {
+          label: "Invoices",
+          permissions: [Permissions.Invoices.View],
+        },
+      },
+      {
+        path: "/dashboard/customers",
+        Component: CustomersPage,
+        handle: {
+          label: "Customers",
+          permissions: [Permissions.Customers.View],
+        },
+      },
+      {
+        path: "/dashboard/departments",
+        Component: DepartmentsPage,
+        handle: {
+          label: "Departments",
+          permissions: [Permissions.Departments.View],
+        },
+      },
+      {
+        path: "/dashboard/job-positions",
+        Component: JobPositionsPage,
+        handle: {
+          label: "Job Positions",
+          permissions: [Permissions.JobPositions.View],
+        },
       },
       {
         path: "/dashboard/roles",
-        Component: RoleManagenent,
-        handle: { label: "Roles" },
+        Component: RoleManagementPage,
+        handle: {
+          label: "Roles",
+          permissions: [Permissions.Roles.View],
+        },
       },
       {
         path: "/dashboard/users",
         Component: UserManagementPage,
-        handle: { label: "Users" },
+        handle: {
+          label: "Users",
+          permissions: [Permissions.Users.View],
+        },
       },
     ],
   },
@@ -6,12 +6,14 @@ interface UserState {
   isAuthenticated: boolean;
   token: string | null;
   refreshToken: string | null;
+  refreshTokenExpiresAt: string | null;
 }
 
 const initialState: UserState = {
   isAuthenticated: tokenManager.hasToken(),
   token: tokenManager.getToken(),
   refreshToken: tokenManager.getRefreshToken(),
+  refreshTokenExpiresAt: tokenManager.getRefreshTokenExpiry(),
 };
 
 const userSlice = createSlice({
@@ -20,20 +22,28 @@ const userSlice = createSlice({
   reducers: {
     setCredentials(
       state,
-      action: PayloadAction<{ token: string; refreshToken?: string }>,
+      action: PayloadAction<{
+        token: string;
+        refreshToken?: string;
+        refreshTokenExpiresAt?: string;
+      }>,
     ) {
       state.isAuthenticated = true;
       state.token = action.payload.token;
       state.refreshToken = action.payload.refreshToken ?? null;
+      state.refreshTokenExpiresAt = action.payload.refreshTokenExpiresAt ?? null;
     },
     clearCredentials(state) {
       state.isAuthenticated = false;
       state.token = null;
       state.refreshToken = null;
+      state.refreshTokenExpiresAt = null;
     },
     syncAuth(state) {
       state.isAuthenticated = tokenManager.hasToken();
       state.token = tokenManager.getToken();
+      state.refreshToken = tokenManager.getRefreshToken();
+      state.refreshTokenExpiresAt = tokenManager.getRefreshTokenExpiry();
     },
   },
 });
@@ -0,0 +1,120 @@
+import { useCallback } from "react";
+import type { FormInstance } from "antd";
+import type { NamePath } from "antd/es/form/interface";
+import { useMessage } from "#src/utils/message";
+import { isApiError } from "./index.js";
+import type { ApiError } from "./index.js";
+
+export interface ApplyFieldErrorsOptions {
+  /** Server field path -> form field name, for fields named differently */
+  fieldMap?: Record<string, NamePath>;
+}
+
+/** "items[0].quantity" -> ["items", 0, "quantity"] */
+const toNamePath = (path: string): (string | number)[] =>
+  path
+    .split(/\.|\[(\d+)\]/)
+    .filter((segment) => segment !== undefined && segment !== "")
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+
+const toKey = (name: NamePath) =>
+  (Array.isArray(name) ? name : [name]).join(".").toLowerCase();
+
+/**
+ * Pushes `ApiError.fieldErrors` into an antd form so the offending inputs
+ * are highlighted. Only fields registered on the form are set.
+ *
+ * @returns true when at least one field was highlighted, so callers can fall
+ * back to a toast otherwise
+ *
+ * @example
+ * ```tsx
+ * try {
+ *   await onSubmit(values);
+ * } catch (error) {
+ *   applyFieldErrors(form, error);
+ * }
+ * ```
+ */
+export function applyFieldErrors(
+  form: FormInstance,
+  error: unknown,
+  options: ApplyFieldErrorsOptions = {},
+): boolean {
+  const fieldErrors = (error as Partial<ApiError> | null)?.fieldErrors;
+  if (!fieldErrors || typeof fieldErrors !== "object") {
+    return false;
+  }
+
+  const registered = new Map(
+    form
+      .getFieldsError()
+      .map(({ name }) => [toKey(name), name] as [string, NamePath]),
+  );
+
+  const fields = Object.entries(fieldErrors).flatMap(([path, errors]) => {
+    const name = registered.get(
+      toKey(options.fieldMap?.[path] ?? toNamePath(path)),
+    );
+    return name ? [{ name, errors }] : [];
+  });
+
+  form.setFields(fields);
+
+  if (fields.length > 0) {
+    form.scrollToField(fields[0].name);
+  }
+
+  return fields.length > 0;
+}
+
+/**
+ * Every per-field message on the error, in server order
+ */
+export const getFieldErrorMessages = (error: unknown): string[] =>
+  isApiError(error) ? Object.values(error.fieldErrors).flat() : [];
+
+/**
+ * `applyFieldErrors` for form modals. Mutation hooks leave field errors to
+ * the form, so when none of them match a registered field their messages
+ * are shown in a toast instead of being dropped.
+ *
+ * @returns true when the field errors were shown, inline or as a toast
+ *
+ * @example
+ * ```tsx
+ * const applyFieldErrors = useApplyFieldErrors();
+ *
+ * try {
+ *   await onSubmit(values);
+ * } catch (error) {
+ *   if (!applyFieldErrors(form, error)) {
+ *     console.error("Form validation failed:", error);
+ *   }
+ * }
+ * ```
+ */
+export function useApplyFieldErrors() {
+  const message = useMessage();
+
+  return useCallback(
+    (
+      form: FormInstance,
+      error: unknown,
+      options?: ApplyFieldErrorsOptions,
+    ): boolean => {
+      if (applyFieldErrors(form, error, options)) {
+        return true;
+      }
+
+      const messages = getFieldErrorMessages(error);
+      if (messages.length === 0) {
+        return false;
+      }
+
+      message.error(messages.join(" "));
+      return true;
+    },
+    [message],
+  );
+}
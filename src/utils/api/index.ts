@@ -20,7 +20,10 @@ import {
   RolesApi,
   PermissionsApi,
 } from "../../openapi";
+import type { TokenResponseApiResponse } from "../../openapi";
 import { useCallback, useState } from "react";
+import { parseApiResponseMeta } from "../queries";
+import type { ApiResponseMeta } from "../queries";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import type {
   UseQueryOptions,
@@ -36,11 +39,49 @@ const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL || "http://localhost:5026";
 const TOKEN_STORAGE_KEY = "auth_token";
 const REFRESH_TOKEN_STORAGE_KEY = "refresh_token";
+const REFRESH_TOKEN_EXPIRY_STORAGE_KEY = "refresh_token_expiry";
 
 // ===========================
 // Token Management
 // ===========================
 
+/**
+ * Claims carried in the JWT payload. Standard claims are typed, anything
+ * else (roles, permissions, ...) is left as `unknown` for callers to narrow.
+ */
+export type TokenClaims = Record<string, unknown> & {
+  sub?: string;
+  exp?: number;
+  iat?: number;
+};
+
+/**
+ * Decodes the payload of a JWT without verifying its signature.
+ * Returns null when the token is missing or malformed.
+ */
+export const decodeTokenClaims = (
+  token: string | null | undefined,
+): TokenClaims | null => {
+  const payload = token?.split(".")[1];
+
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+    const bytes = Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+    const claims: unknown = JSON.parse(new TextDecoder().decode(bytes));
+
+    return typeof claims === "object" && claims !== null
+      ? (claims as TokenClaims)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
 export const tokenManager = {
   getToken: (): string | null => {
     return localStorage.getItem(TOKEN_STORAGE_KEY);
@@ -58,37 +99,164 @@ export const tokenManager = {
     localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, token);
   },
 
+  // ISO timestamp from TokenResponse.refreshTokenExpiryTime
+  getRefreshTokenExpiry: (): string | null => {
+    return localStorage.getItem(REFRESH_TOKEN_EXPIRY_STORAGE_KEY);
+  },
+
+  setRefreshTokenExpiry: (expiry: string): void => {
+    localStorage.setItem(REFRESH_TOKEN_EXPIRY_STORAGE_KEY, expiry);
+  },
+
   clearTokens: (): void => {
     localStorage.removeItem(TOKEN_STORAGE_KEY);
     localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_EXPIRY_STORAGE_KEY);
   },
 
   hasToken: (): boolean => {
     return !!tokenManager.getToken();
   },
+
+  getClaims: (): TokenClaims | null => {
+    return decodeTokenClaims(tokenManager.getToken());
+  },
 };
 
 // ===========================
-// Axios Instance Configuration
+// Session Events
 // ===========================
 
-let isRefreshing = false;
-let failedQueue: Array<{
-  resolve: (value?: unknown) => void;
-  reject: (reason?: unknown) => void;
-}> = [];
-
-const processQueue = (error: Error | null, token: string | null = null) => {
-  failedQueue.forEach((prom) => {
-    if (error) {
-      prom.reject(error);
-    } else {
-      prom.resolve(token);
+/**
+ * Session changes that other tabs (and in-tab listeners such as the Redux
+ * store) need to react to. Tokens themselves are never sent; listeners
+ * re-read them from `tokenManager`.
+ *
+ * "expired" is emitted by the 401 interceptor when the session cannot be
+ * refreshed; `RootLayout` answers it by routing to the login page.
+ */
+export type SessionEventType = "login" | "logout" | "refresh" | "expired";
+
+export interface SessionEvent {
+  type: SessionEventType;
+  // "remote" when the change happened in another tab
+  origin: "local" | "remote";
+}
+
+const SESSION_CHANNEL_NAME = "autopart-session";
+const SESSION_LOCK_NAME = "autopart-session-refresh";
+
+const sessionListeners = new Set<(event: SessionEvent) => void>();
+
+const sessionChannel =
+  typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel(SESSION_CHANNEL_NAME)
+    : null;
+
+sessionChannel?.addEventListener(
+  "message",
+  (event: MessageEvent<SessionEventType>) => {
+    sessionListeners.forEach((listener) =>
+      listener({ type: event.data, origin: "remote" }),
+    );
+  },
+);
+
+export const emitSessionEvent = (type: SessionEventType): void => {
+  sessionListeners.forEach((listener) => listener({ type, origin: "local" }));
+  sessionChannel?.postMessage(type);
+};
+
+export const subscribeSessionEvents = (
+  listener: (event: SessionEvent) => void,
+): (() => void) => {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+};
+
+// ===========================
+// Shared Token Refresh
+// ===========================
+
+let refreshPromise: Promise<string> | null = null;
+
+// Serialises refreshes across tabs where the Web Locks API is available.
+const withSessionLock = async <T>(callback: () => Promise<T>): Promise<T> =>
+  "locks" in navigator
+    ? await navigator.locks.request(SESSION_LOCK_NAME, callback)
+    : await callback();
+
+const performRefresh = async (): Promise<string> => {
+  const refreshTokenAtStart = tokenManager.getRefreshToken();
+
+  return withSessionLock(async () => {
+    const token = tokenManager.getToken();
+    const refreshToken = tokenManager.getRefreshToken();
+
+    if (!token || !refreshToken) {
+      throw new Error("No refresh token available");
+    }
+
+    // Another tab refreshed while we waited for the lock; reuse its tokens.
+    if (refreshToken !== refreshTokenAtStart) {
+      return token;
     }
+
+    // Plain axios so the 401 interceptor below cannot recurse into itself.
+    const response = await axios.post<TokenResponseApiResponse>(
+      `${API_BASE_URL}/api/v1/token/refresh`,
+      { token, refreshToken },
+    );
+
+    const {
+      token: newToken,
+      refreshToken: newRefreshToken,
+      refreshTokenExpiryTime,
+    } = unwrapApiResponse(response.data).data ?? {};
+
+    if (!newToken) {
+      throw new Error("Token refresh returned no token");
+    }
+
+    tokenManager.setToken(newToken);
+    if (newRefreshToken) {
+      tokenManager.setRefreshToken(newRefreshToken);
+    }
+    if (refreshTokenExpiryTime) {
+      tokenManager.setRefreshTokenExpiry(refreshTokenExpiryTime);
+    }
+
+    return newToken;
   });
-  failedQueue = [];
 };
 
+/**
+ * Refreshes the access token, sharing one in-flight refresh between all
+ * callers in this tab and, through a Web Lock, with other tabs.
+ * Resolves with the new access token and emits a "refresh" session event.
+ */
+export const refreshSession = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = performRefresh()
+      .then((token) => {
+        api.updateConfiguration();
+        emitSessionEvent("refresh");
+        return token;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+};
+
+// ===========================
+// Axios Instance Configuration
+// ===========================
+
 // Create configured Axios instance
 export const apiClient: AxiosInstance = axios.create({
   baseURL: API_BASE_URL,
@@ -122,48 +290,17 @@ apiClient.interceptors.response.use(
 
     // Handle 401 Unauthorized
     if (error.response?.status === 401 && !originalRequest._retry) {
-      if (isRefreshing) {
-        // Queue the request while token is being refreshed
-        return new Promise((resolve, reject) => {
-          failedQueue.push({ resolve, reject });
-        })
-          .then(() => {
-            return apiClient(originalRequest);
-          })
-          .catch((err) => {
-            return Promise.reject(err);
-          });
-      }
-
       originalRequest._retry = true;
-      isRefreshing = true;
-
-      const refreshToken = tokenManager.getRefreshToken();
 
-      if (!refreshToken) {
+      if (!tokenManager.getRefreshToken()) {
         tokenManager.clearTokens();
-        window.location.href = "/login";
+        emitSessionEvent("expired");
         return Promise.reject(error);
       }
 
       try {
-        // Attempt to refresh the token
-        const response = await axios.post(
-          `${API_BASE_URL}/api/v1/token/refresh`,
-          {
-            refreshToken,
-          },
-        );
-
-        const { token: newToken, refreshToken: newRefreshToken } =
-          response.data;
-
-        tokenManager.setToken(newToken);
-        if (newRefreshToken) {
-          tokenManager.setRefreshToken(newRefreshToken);
-        }
-
-        processQueue(null, newToken);
+        // Concurrent 401s all wait on the same refresh
+        const newToken = await refreshSession();
 
         // Retry the original request with new token
         if (originalRequest.headers) {
@@ -171,12 +308,9 @@ apiClient.interceptors.response.use(
         }
         return apiClient(originalRequest);
       } catch (refreshError) {
-        processQueue(refreshError as Error, null);
         tokenManager.clearTokens();
-        window.location.href = "/login";
+        emitSessionEvent("expired");
         return Promise.reject(refreshError);
-      } finally {
-        isRefreshing = false;
       }
     }
 
@@ -298,42 +432,196 @@ export const api = new ApiClients();
 // Error Handling Utilities
 // ===========================
 
+/**
+ * Validation messages keyed by camelCase field path,
+ * e.g. `{ partNumber: ["Part number already exists"], "items[0].quantity": [...] }`
+ */
+export type FieldErrors = Record<string, string[]>;
+
 export interface ApiError {
   message: string;
   status?: number;
   code?: string;
   details?: unknown;
+  fieldErrors: FieldErrors;
+}
+
+interface ApiErrorBody {
+  message?: string;
+  error?: string;
+  title?: string;
+  errors?: unknown;
+  meta?: unknown;
 }
 
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * "Items[0].UnitPrice" -> "items[0].unitPrice". Drops the "$." prefix and
+ * "request." wrapper that ASP.NET adds for body-bound models.
+ */
+const normalizeFieldPath = (key: string): string =>
+  key
+    .replace(/^\$\.?/, "")
+    .replace(/^request\./i, "")
+    .split(".")
+    .map((segment) => segment.charAt(0).toLowerCase() + segment.slice(1))
+    .join(".");
+
+const toMessages = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value]).filter(
+    (item): item is string => typeof item === "string" && item.length > 0,
+  );
+
+/**
+ * Collects field errors from the shapes the backend produces:
+ * - ValidationProblemDetails: `{ errors: { PartNumber: ["..."] } }`
+ * - FluentValidation lists: `{ errors: [{ propertyName, errorMessage }] }`
+ * - The same two shapes nested in the ApiResponse envelope's `meta`
+ */
+const extractFieldErrors = (body: ApiErrorBody | undefined): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  const add = (key: unknown, messages: unknown) => {
+    const list = toMessages(messages);
+    if (typeof key !== "string" || !key || list.length === 0) {
+      return;
+    }
+    const path = normalizeFieldPath(key);
+    fieldErrors[path] = [...(fieldErrors[path] ?? []), ...list];
+  };
+
+  const sources = [
+    body?.errors,
+    isRecord(body?.meta) ? body.meta.errors : undefined,
+  ];
+
+  sources.forEach((errors) => {
+    if (Array.isArray(errors)) {
+      errors.filter(isRecord).forEach((entry) =>
+        add(
+          entry.propertyName ?? entry.field ?? entry.name,
+          entry.errorMessage ?? entry.message,
+        ),
+      );
+    } else if (isRecord(errors)) {
+      Object.entries(errors).forEach(([key, messages]) => add(key, messages));
+    }
+  });
+
+  return fieldErrors;
+};
+
+export const isApiError = (error: unknown): error is ApiError =>
+  isRecord(error) &&
+  typeof error.message === "string" &&
+  isRecord(error.fieldErrors);
+
+/**
+ * True when the error carries per-field validation messages, which forms
+ * show inline instead of a generic toast
+ */
+export const hasFieldErrors = (error: unknown): boolean =>
+  isApiError(error) && Object.keys(error.fieldErrors).length > 0;
+
 export const handleApiError = (error: unknown): ApiError => {
+  if (isApiError(error)) {
+    return error;
+  }
+
   if (axios.isAxiosError(error)) {
-    const axiosError = error as AxiosError<{
-      message?: string;
-      error?: string;
-    }>;
+    const axiosError = error as AxiosError<ApiErrorBody>;
+    const body = axiosError.response?.data;
     return {
       message:
-        axiosError.response?.data?.message ||
-        axiosError.response?.data?.error ||
+        body?.message ||
+        body?.error ||
+        body?.title ||
         axiosError.message ||
         "An unexpected error occurred",
       status: axiosError.response?.status,
       code: axiosError.code,
-      details: axiosError.response?.data,
+      details: body,
+      fieldErrors: extractFieldErrors(body),
     };
   }
 
   if (error instanceof Error) {
     return {
       message: error.message,
+      fieldErrors: {},
     };
   }
 
   return {
     message: "An unknown error occurred",
+    fieldErrors: {},
   };
 };
 
+// ===========================
+// ApiResponse Envelope
+// ===========================
+
+/**
+ * Fields shared by every generated `*ApiResponse` type
+ */
+export interface ApiEnvelope {
+  isSuccess?: boolean;
+  message?: string | null;
+  statusCode?: number;
+  timestamp?: string;
+  meta?: unknown;
+}
+
+/**
+ * An envelope that has passed `unwrapApiResponse`: `meta` holds the
+ * pagination fields the server sent, or null when the endpoint does not
+ * page. Pass it to `extractApiResponseMeta` with the requested page and
+ * size to fill in anything missing.
+ */
+export type ApiResult<T extends ApiEnvelope> = Omit<T, "meta"> & {
+  meta: Partial<ApiResponseMeta> | null;
+};
+
+const isPaginationMeta = (meta: unknown): boolean =>
+  isRecord(meta) && ("totalCount" in meta || "currentPage" in meta);
+
+/**
+ * Rejects envelopes with `isSuccess: false` as an ApiError carrying the
+ * server message and status code, and types `meta` as pagination info.
+ * Every `src/apis/*` wrapper returns its response through this.
+ *
+ * @example
+ * ```ts
+ * export const getProduct = async (id: string) => {
+ *   const result = await apiClients.products.apiV1ProductsIdGet({ id });
+ *   return unwrapApiResponse(result.data);
+ * };
+ * ```
+ */
+export function unwrapApiResponse<T extends ApiEnvelope>(
+  response: T,
+): ApiResult<T> {
+  if (response?.isSuccess === false) {
+    const error: ApiError = {
+      message: response.message || "The request was not successful",
+      status: response.statusCode,
+      code: "API_UNSUCCESSFUL",
+      details: response,
+      fieldErrors: extractFieldErrors(response as ApiErrorBody),
+    };
+    throw error;
+  }
+
+  return {
+    ...response,
+    meta: isPaginationMeta(response?.meta)
+      ? parseApiResponseMeta(response.meta)
+      : null,
+  };
+}
+
 // ===========================
 // React Hook: useApi
 // ===========================
@@ -499,3 +787,18 @@ export function useApiMutation<TData, TVariables, TContext = unknown>(
 export { api as apiClients };
 
 export { queryClient } from "./queryClient.js";
+
+export {
+  applyFieldErrors,
+  getFieldErrorMessages,
+  useApplyFieldErrors,
+} from "./formErrors.js";
+
+export { useOptimisticMutation } from "./optimistic.js";
+export type {
+  OptimisticChange,
+  OptimisticPatch,
+  UseOptimisticMutationOptions,
+} from "./optimistic.js";
+
+export type { ApiResponseMeta } from "../queries";
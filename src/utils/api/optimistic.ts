@@ -0,0 +1,224 @@
+import { useQueryClient } from "@tanstack/react-query";
+import type { QueryKey } from "@tanstack/react-query";
+import { invalidateDomain } from "../queries";
+import type { InvalidationDomain } from "../queries";
+import { useApiMutation } from "./index.js";
+import type { UseApiMutationOptions } from "./index.js";
+
+/**
+ * Fields to overwrite on the cached row. Update requests use `null` for
+ * "clear", so it is accepted for every field; `undefined` leaves it as is.
+ */
+export type OptimisticPatch<TItem> = {
+  [K in keyof TItem]?: TItem[K] | null;
+};
+
+/**
+ * Change applied to cached rows before the request is sent. Updates only
+ * copy `fields` from the patch: request bodies also carry values the server
+ * derives other fields from (e.g. an embedded category from `categoryId`),
+ * and those are left for the refetch rather than shown half-updated.
+ */
+export type OptimisticChange<TItem> =
+  | {
+      type: "update";
+      id: string;
+      patch: OptimisticPatch<TItem>;
+      fields: readonly (keyof TItem & string)[];
+    }
+  | { type: "remove"; id: string };
+
+export interface OptimisticSnapshot {
+  previous: [QueryKey, unknown][];
+}
+
+export type UseOptimisticMutationOptions<TData, TVariables, TItem> = Omit<
+  UseApiMutationOptions<TData, TVariables, OptimisticSnapshot>,
+  "onMutate"
+> & {
+  mutationFn: (variables: TVariables) => Promise<TData>;
+  /** Prefix of the cached list pages, e.g. `queryKeys.products.lists()` */
+  listKey: QueryKey;
+  /** Single-row cache to patch alongside the lists */
+  detailKey?: (variables: TVariables) => QueryKey;
+  /** Describes how the mutation changes the cached rows */
+  change: (variables: TVariables) => OptimisticChange<TItem>;
+  /**
+   * Invalidated with `invalidateDomain` once the request settles, in place
+   * of `listKey` and `detailKey`, for writes other domains depend on
+   */
+  domain?: InvalidationDomain;
+};
+
+type Row = { id?: string | null };
+
+const applyToRow = <TItem extends Row>(
+  row: TItem,
+  change: OptimisticChange<TItem>,
+): TItem =>
+  change.type === "update" && row.id === change.id
+    ? {
+        ...row,
+        ...Object.fromEntries(
+          Object.entries(change.patch).filter(
+            ([key, value]) =>
+              value !== undefined &&
+              (change.fields as readonly string[]).includes(key),
+          ),
+        ),
+      }
+    : row;
+
+/**
+ * Patches or removes the row in a cached `{ data: TItem[], meta }` page.
+ * Anything that is not a list page is returned untouched.
+ */
+const applyToPage = <TItem extends Row>(
+  page: unknown,
+  change: OptimisticChange<TItem>,
+): unknown => {
+  const rows = (page as { data?: unknown } | undefined)?.data;
+  if (!Array.isArray(rows)) {
+    return page;
+  }
+
+  const typedPage = page as {
+    data: TItem[];
+    meta?: { totalCount?: number } | null;
+  };
+
+  if (change.type === "update") {
+    return {
+      ...typedPage,
+      data: typedPage.data.map((row) => applyToRow(row, change)),
+    };
+  }
+
+  const data = typedPage.data.filter((row) => row.id !== change.id);
+  const removed = typedPage.data.length - data.length;
+  const totalCount = typedPage.meta?.totalCount;
+
+  return {
+    ...typedPage,
+    data,
+    meta:
+      typedPage.meta && typeof totalCount === "number"
+        ? { ...typedPage.meta, totalCount: Math.max(totalCount - removed, 0) }
+        : typedPage.meta,
+  };
+};
+
+/**
+ * Applies the change to a plain list page or to every page of an
+ * infinite query (`{ pages: [...], pageParams }`)
+ */
+const applyToList = <TItem extends Row>(
+  list: unknown,
+  change: OptimisticChange<TItem>,
+): unknown => {
+  const pages = (list as { pages?: unknown } | undefined)?.pages;
+  if (!Array.isArray(pages)) {
+    return applyToPage(list, change);
+  }
+
+  return {
+    ...(list as object),
+    pages: pages.map((page) => applyToPage(page, change)),
+  };
+};
+
+/**
+ * Patches the cached `TItem` or `{ data: TItem }` detail entry
+ */
+const applyToDetail = <TItem extends Row>(
+  detail: unknown,
+  change: OptimisticChange<TItem>,
+): unknown => {
+  if (!detail || typeof detail !== "object" || change.type !== "update") {
+    return detail;
+  }
+
+  const wrapped = (detail as { data?: unknown }).data;
+  if (wrapped && typeof wrapped === "object" && !Array.isArray(wrapped)) {
+    return { ...detail, data: applyToRow(wrapped as TItem, change) };
+  }
+
+  return applyToRow(detail as TItem, change);
+};
+
+/**
+ * `useApiMutation` that updates every cached list page under `listKey`
+ * before the request is sent, and restores the snapshot if it fails.
+ * Lists are invalidated once the request settles to pick up server-side
+ * changes such as recalculated totals.
+ *
+ * @example
+ * ```tsx
+ * const { mutate } = useOptimisticMutation({
+ *   mutationFn: ({ id, data }) => updateProduct(id, data),
+ *   listKey: queryKeys.products.lists(),
+ *   detailKey: ({ id }) => queryKeys.products.detail(id),
+ *   change: ({ id, data }) => ({
+ *     type: "update",
+ *     id,
+ *     patch: data,
+ *     fields: ["name", "unitCost", "retailPrice"],
+ *   }),
+ * });
+ * ```
+ */
+export function useOptimisticMutation<TData, TVariables, TItem extends Row>({
+  listKey,
+  detailKey,
+  change,
+  domain,
+  onError,
+  onSettled,
+  ...options
+}: UseOptimisticMutationOptions<TData, TVariables, TItem>) {
+  const qc = useQueryClient();
+
+  return useApiMutation<TData, TVariables, OptimisticSnapshot>({
+    ...options,
+    onMutate: async (variables) => {
+      const itemKey = detailKey?.(variables);
+      await Promise.all([
+        qc.cancelQueries({ queryKey: listKey }),
+        itemKey && qc.cancelQueries({ queryKey: itemKey }),
+      ]);
+
+      const optimisticChange = change(variables);
+      const previous = qc.getQueriesData({ queryKey: listKey });
+      qc.setQueriesData({ queryKey: listKey }, (list: unknown) =>
+        applyToList(list, optimisticChange),
+      );
+
+      if (itemKey) {
+        previous.push([itemKey, qc.getQueryData(itemKey)]);
+        qc.setQueryData(itemKey, (detail: unknown) =>
+          applyToDetail(detail, optimisticChange),
+        );
+      }
+
+      return { previous };
+    },
+    onError: (error, variables, snapshot, context) => {
+      snapshot?.previous.forEach(([queryKey, data]) =>
+        qc.setQueryData(queryKey, data),
+      );
+      return onError?.(error, variables, snapshot, context);
+    },
+    onSettled: (data, error, variables, snapshot, context) => {
+      if (domain) {
+        invalidateDomain(qc, domain);
+      } else {
+        qc.invalidateQueries({ queryKey: listKey });
+        const itemKey = detailKey?.(variables);
+        if (itemKey) {
+          qc.invalidateQueries({ queryKey: itemKey });
+        }
+      }
+      return onSettled?.(data, error, variables, snapshot, context);
+    },
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * Human readable labels for the numeric enums generated by OpenAPI.
+ *
+ * The generator only emits `NUMBER_n` keys, so screens should read labels
+ * and select options from here instead of printing the raw values.
+ */
+
+import { AccessLevel, CustomerType, SortDirection } from "#src/openapi";
+
+export const customerTypeLabels: Record<CustomerType, string> = {
+  [CustomerType.NUMBER_0]: "Retail",
+  [CustomerType.NUMBER_1]: "Business",
+};
+
+export const customerTypeOptions = (
+  Object.values(CustomerType) as CustomerType[]
+).map((value) => ({
+  value,
+  label: customerTypeLabels[value],
+}));
+
+export function getCustomerTypeLabel(value: number | null | undefined) {
+  if (typeof value !== "number") {
+    return "-";
+  }
+
+  return customerTypeLabels[value as CustomerType] ?? `Type ${value}`;
+}
+
+export const accessLevelLabels: Record<AccessLevel, string> = {
+  [AccessLevel.NUMBER_1]: "Staff",
+  [AccessLevel.NUMBER_2]: "Senior Staff",
+  [AccessLevel.NUMBER_3]: "Supervisor",
+  [AccessLevel.NUMBER_4]: "Manager",
+  [AccessLevel.NUMBER_5]: "Administrator",
+};
+
+export const accessLevelOptions = (
+  Object.values(AccessLevel) as AccessLevel[]
+).map((value) => ({
+  value,
+  label: `${value} - ${accessLevelLabels[value]}`,
+}));
+
+export const accessLevelColors: Record<AccessLevel, string> = {
+  [AccessLevel.NUMBER_1]: "default",
+  [AccessLevel.NUMBER_2]: "cyan",
+  [AccessLevel.NUMBER_3]: "blue",
+  [AccessLevel.NUMBER_4]: "purple",
+  [AccessLevel.NUMBER_5]: "magenta",
+};
+
+export function getAccessLevelLabel(value: number | null | undefined) {
+  if (typeof value !== "number") {
+    return "-";
+  }
+
+  return accessLevelLabels[value as AccessLevel] ?? `Level ${value}`;
+}
+
+export type SortOrder = "asc" | "desc";
+
+export const sortDirectionLabels: Record<SortDirection, SortOrder> = {
+  [SortDirection.NUMBER_0]: "asc",
+  [SortDirection.NUMBER_1]: "desc",
+};
+
+export const sortDirectionByOrder: Record<SortOrder, SortDirection> = {
+  asc: SortDirection.NUMBER_0,
+  desc: SortDirection.NUMBER_1,
+};
+
+// Gender is a free-form string on the API; these are the values the UI offers.
+export const genderOptions = [
+  { value: "Male", label: "Male" },
+  { value: "Female", label: "Female" },
+  { value: "Other", label: "Other" },
+];
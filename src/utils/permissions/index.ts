@@ -0,0 +1,216 @@
+/**
+ * Permission model for route guards and UI gating.
+ *
+ * Permissions and roles are read from the JWT claims, or from the profile
+ * response when the token carries none. Claims that hold permission ids
+ * are mapped to `PermissionDto.name` through the permissions endpoint.
+ * Holders of an administrator role pass every check.
+ *
+ * The API contract does not yet say which claim names the backend issues
+ * (`UserDetailDto` carries no roles or permissions), so checks are only
+ * enforced for users holding at least one of the names in `Permissions`.
+ * Anyone else is let through rather than locked out of every gated route.
+ */
+
+import type { PermissionDto } from "#src/openapi";
+import type { TokenClaims } from "#src/utils/api";
+
+/**
+ * Every permission name the app checks, as resource and action pairs
+ * compared with `PermissionDto.name`. These are the only place the names
+ * are spelled out and are still unconfirmed against the backend's claim
+ * contract; update them here once it is. Names are compared with
+ * `normalizePermission`, so "Permissions.Products.Delete",
+ * "products.delete" and "Products:Delete" all match `Products.Delete`.
+ */
+export const Permissions = {
+  Warehouses: {
+    View: "Warehouses.View",
+    Delete: "Warehouses.Delete",
+  },
+  PartLocations: {
+    Delete: "PartLocations.Delete",
+  },
+  Products: {
+    View: "Products.View",
+    Delete: "Products.Delete",
+  },
+  Categories: {
+    View: "Categories.View",
+    Delete: "Categories.Delete",
+  },
+  Invoices: {
+    View: "Invoices.View",
+    Delete: "Invoices.Delete",
+  },
+  Customers: {
+    View: "Customers.View",
+    Delete: "Customers.Delete",
+  },
+  Departments: {
+    View: "Departments.View",
+    Delete: "Departments.Delete",
+  },
+  JobPositions: {
+    View: "JobPositions.View",
+    Delete: "JobPositions.Delete",
+  },
+  Roles: {
+    View: "Roles.View",
+    Delete: "Roles.Delete",
+  },
+  Users: {
+    View: "Users.View",
+  },
+} as const;
+
+/**
+ * One permission, or a list the user must hold all of.
+ */
+export type PermissionRequirement = string | readonly string[];
+
+/**
+ * Shape of `handle` on dashboard routes.
+ */
+export interface RouteHandle {
+  label: string;
+  permissions?: readonly string[];
+}
+
+const PERMISSION_CLAIM_KEYS = ["permission", "permissions", "Permission"];
+
+const ROLE_CLAIM_KEYS = [
+  "role",
+  "roles",
+  "http://schemas.microsoft.com/ws/2008/06/identity/claims/role",
+];
+
+// A claim holds a single string, or an array when it is repeated.
+const readClaimValues = (
+  claims: TokenClaims | null,
+  keys: string[],
+): string[] => {
+  if (!claims) {
+    return [];
+  }
+
+  return keys.flatMap((key) => {
+    const value = claims[key];
+
+    if (typeof value === "string") {
+      return [value];
+    }
+
+    if (Array.isArray(value)) {
+      return value.filter((item): item is string => typeof item === "string");
+    }
+
+    return [];
+  });
+};
+
+const compact = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Lowercased with separators and a leading "Permission(s)" removed, so
+ * "Permissions.Products.Delete" and "products:delete" compare equal
+ */
+export const normalizePermission = (name: string) =>
+  compact(name).replace(/^permissions?/, "");
+
+const KNOWN_PERMISSIONS = new Set(
+  Object.values(Permissions).flatMap((actions) =>
+    Object.values(actions).map(normalizePermission),
+  ),
+);
+
+/**
+ * True when some granted permission is one of `Permissions`, i.e. the
+ * backend issues the names the app checks. Checks are skipped otherwise.
+ */
+export const usesKnownPermissions = (granted: ReadonlySet<string>) =>
+  [...granted].some((value) =>
+    KNOWN_PERMISSIONS.has(normalizePermission(value)),
+  );
+
+/** Role names, compacted, that are granted every permission */
+const ADMIN_ROLES = new Set(["admin", "administrator", "superadmin"]);
+
+const GUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const getPermissionsFromClaims = (claims: TokenClaims | null) =>
+  new Set(readClaimValues(claims, PERMISSION_CLAIM_KEYS));
+
+export const getRolesFromClaims = (claims: TokenClaims | null) =>
+  new Set(readClaimValues(claims, ROLE_CLAIM_KEYS));
+
+// Profile entries are names, or objects carrying a `name`.
+const readProfileValues = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.flatMap((item) => {
+        const name =
+          item && typeof item === "object"
+            ? (item as { name?: unknown }).name
+            : item;
+        return typeof name === "string" ? [name] : [];
+      })
+    : [];
+
+/**
+ * Permissions and roles from a profile response. `UserDetailDto` does not
+ * declare them, so they are only used when the API sends them anyway.
+ */
+export const getAccessFromProfile = (profile: unknown) => {
+  const source = (profile ?? {}) as Record<string, unknown>;
+
+  return {
+    permissions: new Set(readProfileValues(source.permissions)),
+    roles: new Set(readProfileValues(source.roles)),
+  };
+};
+
+/** True when some granted value is a permission id rather than a name */
+export const hasPermissionIds = (granted: ReadonlySet<string>) =>
+  [...granted].some((value) => GUID_PATTERN.test(value));
+
+/**
+ * Swaps permission ids for their names using the permissions endpoint's
+ * list. Values that are not known ids are kept as they are.
+ */
+export const resolvePermissionNames = (
+  granted: ReadonlySet<string>,
+  catalogue: PermissionDto[] = [],
+): Set<string> => {
+  const names = new Map(
+    catalogue.flatMap((permission) =>
+      permission.id && permission.name
+        ? [[permission.id.toLowerCase(), permission.name] as const]
+        : [],
+    ),
+  );
+
+  return new Set(
+    [...granted].map((value) => names.get(value.toLowerCase()) ?? value),
+  );
+};
+
+export const isAdministrator = (roles: ReadonlySet<string>) =>
+  [...roles].some((role) => ADMIN_ROLES.has(compact(role)));
+
+export const hasPermission = (
+  granted: ReadonlySet<string>,
+  required: PermissionRequirement | undefined,
+): boolean => {
+  if (!required) {
+    return true;
+  }
+
+  const requiredList = typeof required === "string" ? [required] : required;
+  const normalized = new Set([...granted].map(normalizePermission));
+
+  return requiredList.every((permission) =>
+    normalized.has(normalizePermission(permission)),
+  );
+};
@@ -0,0 +1,115 @@
+import type { ProductDto } from "#src/openapi";
+
+/**
+ * How far, in percentage points, a product's markup may drift from its
+ * category default before it is flagged
+ */
+export const MARKUP_TOLERANCE = 5;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * `unitCost × (1 + markup)`, with `markupPercentage` given as e.g. `30`
+ * for 30%
+ */
+export function suggestRetailPrice(
+  unitCost: number | null | undefined,
+  markupPercentage: number | null | undefined,
+): number | undefined {
+  if (typeof unitCost !== "number" || typeof markupPercentage !== "number") {
+    return undefined;
+  }
+
+  return roundMoney(unitCost * (1 + markupPercentage / 100));
+}
+
+/**
+ * Markup over cost as a percentage. Undefined when there is no cost to
+ * mark up.
+ */
+export function getMarkupPercentage(
+  unitCost: number | null | undefined,
+  retailPrice: number | null | undefined,
+): number | undefined {
+  if (!unitCost || unitCost <= 0 || typeof retailPrice !== "number") {
+    return undefined;
+  }
+
+  return ((retailPrice - unitCost) / unitCost) * 100;
+}
+
+export interface MarkupDeviation {
+  actual: number;
+  expected: number;
+  /** `actual - expected`, in percentage points */
+  difference: number;
+  exceedsTolerance: boolean;
+}
+
+/**
+ * Compares a product's markup with its category default. Undefined when
+ * either side cannot be worked out.
+ */
+export function getMarkupDeviation(
+  product: Pick<ProductDto, "unitCost" | "retailPrice">,
+  categoryMarkup: number | null | undefined,
+  tolerance: number = MARKUP_TOLERANCE,
+): MarkupDeviation | undefined {
+  const actual = getMarkupPercentage(product.unitCost, product.retailPrice);
+
+  if (actual === undefined || typeof categoryMarkup !== "number") {
+    return undefined;
+  }
+
+  const difference = actual - categoryMarkup;
+
+  return {
+    actual,
+    expected: categoryMarkup,
+    difference,
+    exceedsTolerance: Math.abs(difference) > tolerance,
+  };
+}
+
+export interface RepriceChange {
+  product: ProductDto;
+  currentPrice: number | undefined;
+  suggestedPrice: number;
+}
+
+/**
+ * Products whose retail price differs from the one their category markup
+ * suggests. Products without an id cannot be updated and are left out.
+ * With `onlyOutsideTolerance`, products still within tolerance are left
+ * alone.
+ */
+export function buildRepricePlan(
+  products: ProductDto[],
+  categoryMarkup: number,
+  {
+    onlyOutsideTolerance = false,
+    tolerance = MARKUP_TOLERANCE,
+  }: { onlyOutsideTolerance?: boolean; tolerance?: number } = {},
+): RepriceChange[] {
+  return products.flatMap((product) => {
+    const suggestedPrice = suggestRetailPrice(product.unitCost, categoryMarkup);
+    const currentPrice = product.retailPrice ?? undefined;
+
+    if (
+      !product.id ||
+      suggestedPrice === undefined ||
+      suggestedPrice === currentPrice
+    ) {
+      return [];
+    }
+
+    if (onlyOutsideTolerance) {
+      const deviation = getMarkupDeviation(product, categoryMarkup, tolerance);
+      if (deviation && !deviation.exceedsTolerance) {
+        return [];
+      }
+    }
+
+    return [{ product, currentPrice, suggestedPrice }];
+  });
+}
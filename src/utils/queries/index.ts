@@ -19,6 +19,35 @@ function toBoolean(value: unknown, fallback: boolean): boolean {
   return typeof value === "boolean" ? value : fallback;
 }
 
+/**
+ * Keeps only the pagination fields the server actually sent, with the
+ * right types. Nothing is defaulted, so a missing `currentPage` stays
+ * undefined and `extractApiResponseMeta` can apply the caller's fallback.
+ */
+export function parseApiResponseMeta(
+  meta: unknown,
+): Partial<ApiResponseMeta> | null {
+  if (!isObjectRecord(meta)) {
+    return null;
+  }
+
+  const parsed: Partial<ApiResponseMeta> = {};
+  (["currentPage", "totalPages", "totalCount", "pageSize"] as const).forEach(
+    (key) => {
+      if (typeof meta[key] === "number" && Number.isFinite(meta[key])) {
+        parsed[key] = meta[key];
+      }
+    },
+  );
+  (["hasPreviousPage", "hasNextPage"] as const).forEach((key) => {
+    if (typeof meta[key] === "boolean") {
+      parsed[key] = meta[key];
+    }
+  });
+
+  return parsed;
+}
+
 export function extractApiResponseMeta(
   meta: unknown,
   fallbackPageNumber = 1,
@@ -44,3 +73,51 @@ export function extractApiResponseMeta(
     hasNextPage: toBoolean(meta.hasNextPage, false),
   };
 }
+
+/** Hard stop for `fetchAllPages` if the server never reports a last page */
+const MAX_FETCH_PAGES = 50;
+
+/**
+ * Requests page 1, 2, 3… of a search and returns every row. Stops at a
+ * page shorter than `pageSize` or when the meta reports no next page. If
+ * `maxPages` pages come back without either, it throws rather than return
+ * a list that silently misses rows. The page number is tracked here rather
+ * than read back from the response meta.
+ *
+ * @example
+ * ```ts
+ * const permissions = await fetchAllPages(
+ *   (pageNumber) => searchPermission({ pageNumber, pageSize: 100 }),
+ *   100,
+ * );
+ * ```
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (pageNumber: number) => Promise<{
+    data?: T[] | null;
+    meta?: Partial<ApiResponseMeta> | null;
+  }>,
+  pageSize: number,
+  maxPages = MAX_FETCH_PAGES,
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+    const result = await fetchPage(pageNumber);
+    const page = result.data ?? [];
+    rows.push(...page);
+
+    if (page.length < pageSize || result.meta?.hasNextPage === false) {
+      return rows;
+    }
+  }
+
+  throw new Error(
+    `Only the first ${rows.length} results could be loaded. ` +
+      "Narrow the search to see the rest.",
+  );
+}
+
+export { queryKeys } from "./keys";
+export { invalidateDomain } from "./invalidation";
+export type { InvalidationContext, InvalidationDomain } from "./invalidation";
@@ -0,0 +1,97 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import { queryKeys } from "./keys";
+
+export type InvalidationDomain =
+  | "users"
+  | "roles"
+  | "permissions"
+  | "products"
+  | "categories"
+  | "customers"
+  | "departments"
+  | "jobPositions"
+  | "invoices"
+  | "warehouses"
+  | "partLocations";
+
+/**
+ * Ids known at the call site. Rules use them to narrow cross-domain
+ * invalidation and fall back to every detail of that domain when missing.
+ */
+export interface InvalidationContext {
+  partId?: string | null;
+  warehouseLocationId?: string | null;
+}
+
+/**
+ * Keys to refetch after a write to each domain: the domain itself first,
+ * then every other domain whose cached data embeds it.
+ */
+const invalidationRules: Record<
+  InvalidationDomain,
+  (context: InvalidationContext) => QueryKey[]
+> = {
+  users: () => [queryKeys.users.all],
+  roles: () => [queryKeys.roles.all],
+  permissions: () => [
+    queryKeys.permissions.all,
+    // Role permission lists show permission names
+    queryKeys.roles.all,
+  ],
+  products: () => [queryKeys.products.all],
+  categories: () => [
+    queryKeys.categories.all,
+    // Product rows show the category name
+    queryKeys.products.all,
+  ],
+  customers: () => [
+    queryKeys.customers.all,
+    // Invoice rows show the customer name
+    queryKeys.invoices.lists(),
+  ],
+  departments: () => [
+    queryKeys.departments.all,
+    // The profile page shows the user's department
+    queryKeys.users.me(),
+  ],
+  jobPositions: () => [queryKeys.jobPositions.all, queryKeys.users.me()],
+  invoices: () => [queryKeys.invoices.all],
+  warehouses: () => [
+    queryKeys.warehouses.lists(),
+    queryKeys.warehouses.details(),
+    // Product stock breakdowns show the location code
+    queryKeys.products.details(),
+  ],
+  partLocations: ({ partId, warehouseLocationId }) => [
+    queryKeys.warehouses.partLocations.all,
+    // Product `warehouseStocks` and warehouse `existingPart`
+    partId ? queryKeys.products.detail(partId) : queryKeys.products.details(),
+    warehouseLocationId
+      ? queryKeys.warehouses.detail(warehouseLocationId)
+      : queryKeys.warehouses.details(),
+  ],
+};
+
+/**
+ * Invalidates everything affected by a write to `domain`
+ *
+ * @example
+ * ```ts
+ * onSuccess: (_data, variables) => {
+ *   invalidateDomain(qc, "partLocations", {
+ *     partId: variables.partId,
+ *     warehouseLocationId: variables.warehouseLocationId,
+ *   });
+ * },
+ * ```
+ */
+export const invalidateDomain = (
+  qc: QueryClient,
+  domain: InvalidationDomain,
+  context: InvalidationContext = {},
+) =>
+  Promise.all(
+    invalidationRules[domain](context).map((queryKey) =>
+      qc.invalidateQueries({ queryKey }),
+    ),
+  );
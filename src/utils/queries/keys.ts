@@ -0,0 +1,75 @@
+import type {
+  SearchCategoryRequest,
+  SearchCustomerRequest,
+  SearchDepartmentRequest,
+  SearchInvoiceItemRequest,
+  SearchInvoiceRequest,
+  SearchJobPositionsRequest,
+  SearchPartLocationRequest,
+  SearchPermissionsRequest,
+  SearchProductRequest,
+  SearchRolesRequest,
+  SearchWarehouseLocationRequest,
+} from "#src/openapi";
+
+type Id = string | null | undefined;
+
+/**
+ * Standard list/detail keys under one root, e.g. for "products":
+ * - `all`        ["products"]
+ * - `lists()`    ["products", "list"]
+ * - `list(p)`    ["products", "list", p]
+ * - `details()`  ["products", "detail"]
+ * - `detail(id)` ["products", "detail", id]
+ *
+ * Every key starts with its parent, so invalidating `all` or `lists()`
+ * also covers the narrower keys below it.
+ */
+const createEntityKeys = <TSearch>(...root: string[]) => ({
+  all: root,
+  lists: () => [...root, "list"],
+  list: (payload?: TSearch) => [...root, "list", payload ?? null],
+  details: () => [...root, "detail"],
+  detail: (id: Id) => [...root, "detail", id ?? null],
+});
+
+export const queryKeys = {
+  users: {
+    ...createEntityKeys<never>("users"),
+    me: () => ["users", "me"],
+  },
+  roles: {
+    ...createEntityKeys<SearchRolesRequest>("roles"),
+    permissions: (roleId: Id) => ["roles", "permissions", roleId ?? null],
+  },
+  permissions: createEntityKeys<SearchPermissionsRequest>("permissions"),
+  products: {
+    ...createEntityKeys<SearchProductRequest>("products"),
+    // Under `lists()` so list invalidation and optimistic patches cover it
+    infinite: (payload?: SearchProductRequest) => [
+      "products",
+      "list",
+      "infinite",
+      payload ?? null,
+    ],
+  },
+  categories: {
+    ...createEntityKeys<SearchCategoryRequest>("categories"),
+    map: () => ["categories", "map"],
+    markups: () => ["categories", "markups"],
+  },
+  customers: createEntityKeys<SearchCustomerRequest>("customers"),
+  departments: createEntityKeys<SearchDepartmentRequest>("departments"),
+  jobPositions: createEntityKeys<SearchJobPositionsRequest>("job-positions"),
+  invoices: {
+    ...createEntityKeys<SearchInvoiceRequest>("invoices"),
+    items: createEntityKeys<SearchInvoiceItemRequest>("invoices", "items"),
+  },
+  warehouses: {
+    ...createEntityKeys<SearchWarehouseLocationRequest>("warehouses"),
+    partLocations: createEntityKeys<SearchPartLocationRequest>(
+      "warehouses",
+      "part-locations",
+    ),
+  },
+};
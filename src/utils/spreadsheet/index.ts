@@ -0,0 +1,232 @@
+/**
+ * Reading and writing tabular files in the browser. Every sheet is handled
+ * as `string[][]`, one array per row; converting cells to numbers is left
+ * to the caller.
+ */
+
+import { strFromU8, unzipSync } from "fflate";
+
+export type SpreadsheetRows = string[][];
+
+export const SPREADSHEET_ACCEPT = ".csv,.xlsx";
+
+const isBlankRow = (row: string[]) => row.every((cell) => cell.trim() === "");
+
+// ===========================
+// CSV
+// ===========================
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, line breaks and `""`
+ * escaped quotes. A leading byte order mark and blank lines are dropped.
+ */
+export function parseCsv(text: string): SpreadsheetRows {
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const source = text.replace(/^\uFEFF/, "");
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    if (!isBlankRow(row)) {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvField = (cell: string) => {
+  const value = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Cells starting with `=`, `+`, `-` or `@` get a leading `'` so a
+ * spreadsheet opening the file shows them as text instead of running them
+ * as formulas.
+ */
+export function toCsv(rows: SpreadsheetRows): string {
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n");
+}
+
+/**
+ * Saves `rows` as a CSV file through a temporary download link
+ */
+export function downloadCsv(filename: string, rows: SpreadsheetRows) {
+  // The BOM makes Excel read the file as UTF-8
+  const blob = new Blob(["\uFEFF", toCsv(rows)], {
+    type: "text/csv;charset=utf-8",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight away can cancel the download before it starts
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// ===========================
+// XLSX
+// ===========================
+
+type WorkbookParts = Record<string, Uint8Array>;
+
+/**
+ * Unpacks the XML parts of an XLSX workbook. fflate reads entry sizes
+ * from the central directory, so zip64 archives and entries written with
+ * data descriptors are handled.
+ */
+function readWorkbookParts(buffer: ArrayBuffer): WorkbookParts {
+  try {
+    return unzipSync(new Uint8Array(buffer), {
+      filter: ({ name }) => name.endsWith(".xml") || name.endsWith(".rels"),
+    });
+  } catch {
+    throw new Error("The file is not a valid XLSX workbook");
+  }
+}
+
+const readPart = (parts: WorkbookParts, name: string) =>
+  parts[name] ? strFromU8(parts[name]) : undefined;
+
+const parseXml = (text: string) =>
+  new DOMParser().parseFromString(text, "application/xml");
+
+const elements = (parent: Document | Element, name: string) =>
+  Array.from(parent.getElementsByTagNameNS("*", name));
+
+/** "C12" -> 2 */
+const columnIndex = (reference: string) =>
+  (reference.match(/^[A-Z]+/)?.[0] ?? "A")
+    .split("")
+    .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+/**
+ * Path of the first sheet in the workbook, following the workbook
+ * relationships since sheet files are not always numbered in tab order
+ */
+function findFirstSheet(parts: WorkbookParts): string {
+  const fallback = "xl/worksheets/sheet1.xml";
+  const workbook = readPart(parts, "xl/workbook.xml");
+  const rels = readPart(parts, "xl/_rels/workbook.xml.rels");
+  if (!workbook || !rels) {
+    return fallback;
+  }
+
+  const sheet = elements(parseXml(workbook), "sheet")[0];
+  const relationId = sheet?.getAttributeNS(
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+    "id",
+  );
+  const target = elements(parseXml(rels), "Relationship")
+    .find((relation) => relation.getAttribute("Id") === relationId)
+    ?.getAttribute("Target");
+
+  if (!target) {
+    return fallback;
+  }
+
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Reads the first sheet of an XLSX workbook. Formulas come back as their
+ * cached values.
+ */
+export function parseXlsx(buffer: ArrayBuffer): SpreadsheetRows {
+  const parts = readWorkbookParts(buffer);
+
+  const sharedStringsXml = readPart(parts, "xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? elements(parseXml(sharedStringsXml), "si").map((item) =>
+        elements(item, "t")
+          // Skip phonetic guides attached to East Asian text
+          .filter((text) => text.parentElement?.localName !== "rPh")
+          .map((text) => text.textContent ?? "")
+          .join(""),
+      )
+    : [];
+
+  const sheetXml = readPart(parts, findFirstSheet(parts));
+  if (!sheetXml) {
+    throw new Error("The workbook has no sheets");
+  }
+
+  const rows = elements(parseXml(sheetXml), "row").map((rowElement) => {
+    const row: string[] = [];
+
+    elements(rowElement, "c").forEach((cell, position) => {
+      const reference = cell.getAttribute("r");
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute("t");
+      const value = elements(cell, "v")[0]?.textContent ?? "";
+
+      row[index] =
+        type === "s"
+          ? (sharedStrings[Number(value)] ?? "")
+          : type === "inlineStr"
+            ? elements(cell, "t")
+                .map((text) => text.textContent ?? "")
+                .join("")
+            : value;
+    });
+
+    return Array.from(row, (cell) => cell ?? "");
+  });
+
+  return rows.filter((row) => !isBlankRow(row));
+}
+
+/**
+ * Reads a `.csv` or `.xlsx` file picked by the user
+ */
+export async function readSpreadsheet(file: File): Promise<SpreadsheetRows> {
+  if (file.name.toLowerCase().endsWith(".xlsx")) {
+    return parseXlsx(await file.arrayBuffer());
+  }
+
+  return parseCsv(await file.text());
+}